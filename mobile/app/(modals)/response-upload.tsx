@@ -18,6 +18,9 @@ import { useHasResponded } from '../../hooks/useHasResponded';
 import { VideoUploadInput, Video } from '../../types';
 import { CONTENT_CONSTRAINTS } from '../../constants/config';
 import { supabase } from '../../lib/supabase';
+import { loadMaxResponseDepth } from '../../lib/video';
+import { useAuth } from '../../lib/auth';
+import AccountRestricted from '../../components/AccountRestricted';
 
 const ACCENT = '#FF2D55';
 const AGREE_COLOR = '#34C759';
@@ -28,6 +31,7 @@ export default function ResponseUploadModal() {
   const insets = useSafeAreaInsets();
   const hasUnsavedWorkRef = useRef(false);
   const uploadSucceededRef = useRef(false);
+  const { isSuspended, isBanned } = useAuth();
 
   const params = useLocalSearchParams<{ parentVideoId: string; agreeDisagree?: string; skipStance?: string }>();
   const rawParentVideoId = params.parentVideoId;
@@ -117,29 +121,32 @@ export default function ResponseUploadModal() {
         return;
       }
       try {
-        const { data, error } = await supabase
-          .from('videos')
-          .select('id, title, user_id, thumbnail_url, chain_depth, parent_video_id, root_video_id')
-          .eq('id', rawParentVideoId)
-          .single();
+        const [maxDepth, { data, error }] = await Promise.all([
+          loadMaxResponseDepth(),
+          supabase
+            .from('videos')
+            .select('id, title, user_id, thumbnail_url, chain_depth, parent_video_id, root_video_id')
+            .eq('id', rawParentVideoId)
+            .single(),
+        ]);
         if (error) throw error;
         if (!data) throw new Error('Video not found');
 
-        if (data.parent_video_id) {
-          const rootId = data.root_video_id || data.parent_video_id;
-          const { data: rootData, error: rootError } = await supabase
+        // Rebuttals target the video itself; at max depth they join its parent's level.
+        // Walk further up when the limit was lowered below an existing thread's depth
+        let target = data;
+        while (target.chain_depth >= maxDepth && target.parent_video_id) {
+          const { data: targetData, error: targetError } = await supabase
             .from('videos')
-            .select('id, title, user_id, thumbnail_url, chain_depth')
-            .eq('id', rootId)
+            .select('id, title, user_id, thumbnail_url, chain_depth, parent_video_id, root_video_id')
+            .eq('id', target.parent_video_id)
             .single();
-          if (rootError) throw rootError;
-          if (!rootData) throw new Error('Root video not found');
-          setResolvedParentId(rootId);
-          setParentVideo(rootData as Video);
-        } else {
-          setResolvedParentId(data.id);
-          setParentVideo(data as Video);
+          if (targetError) throw targetError;
+          if (!targetData) throw new Error('Parent video not found');
+          target = targetData;
         }
+        setResolvedParentId(target.id);
+        setParentVideo(target as Video);
       } catch (err) {
         setLoadError(err instanceof Error ? err.message : 'Failed to load video');
       } finally {
@@ -155,13 +162,27 @@ export default function ResponseUploadModal() {
   }, [selectedVideo, title]);
 
   const handlePickFromGallery = useCallback(async () => {
-    const video = await pickFromGallery();
-    if (video) await generateThumbnail(video.uri);
+    const { video, error } = await pickFromGallery();
+    if (!video) {
+      if (error) Alert.alert('Can\'t use this video', error);
+      return;
+    }
+    await generateThumbnail(video.uri);
+    if (video.hasAudio === false) {
+      Alert.alert('No sound', 'We couldn\'t hear any audio in this video. You can still post it.');
+    }
   }, [pickFromGallery, generateThumbnail]);
 
   const handleRecordVideo = useCallback(async () => {
-    const video = await recordVideo();
-    if (video) await generateThumbnail(video.uri);
+    const { video, error } = await recordVideo();
+    if (!video) {
+      if (error) Alert.alert('Can\'t use this video', error);
+      return;
+    }
+    await generateThumbnail(video.uri);
+    if (video.hasAudio === false) {
+      Alert.alert('No sound', 'We couldn\'t hear any audio in this video. You can still post it.');
+    }
   }, [recordVideo, generateThumbnail]);
 
   const handlePost = useCallback(async () => {
@@ -189,6 +210,9 @@ export default function ResponseUploadModal() {
       uploadSucceededRef.current = true;
       hasUnsavedWorkRef.current = false;
       reset();
+      if (result.paused) {
+        Alert.alert('Upload paused', 'Your connection dropped. The upload will pick up where it left off once you\'re back online.');
+      }
       router.back();
     } else {
       Alert.alert('Upload Failed', result.error || 'Something went wrong. Try again.');
@@ -222,6 +246,11 @@ export default function ResponseUploadModal() {
     return `${m}:${String(s).padStart(2, '0')}`;
   };
 
+  // ── Suspended/banned: responses would be refused by RLS
+  if (isSuspended || isBanned) {
+    return <AccountRestricted />;
+  }
+
   // ── Loading state
   if (isLoadingParent) {
     return (
@@ -284,7 +313,9 @@ export default function ResponseUploadModal() {
           </View>
         )}
         <View style={styles.contextInfo}>
-          <Text style={styles.contextUser} numberOfLines={1}>Replying to review</Text>
+          <Text style={styles.contextUser} numberOfLines={1}>
+            {parentVideo.parent_video_id ? 'Replying to response' : 'Replying to review'}
+          </Text>
           <Text style={styles.contextTitle} numberOfLines={1}>{parentVideo.title}</Text>
         </View>
       </View>
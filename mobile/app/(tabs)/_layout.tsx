@@ -15,6 +15,8 @@ import { BlurView } from 'expo-blur';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { usePushNotificationListeners } from '../../hooks/usePushNotifications';
+import { useNotificationsRealtime, useUnreadNotificationCount } from '../../hooks/useNotifications';
+import { useResumableUploads } from '../../hooks/useResumableUploads';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 
 // Pill geometry
@@ -37,6 +39,7 @@ const TAB_CONFIG: Record<string, {
 
 function FloatingTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
   const insets = useSafeAreaInsets();
+  const unreadCount = useUnreadNotificationCount();
   // Sit close to bottom safe area — small gap to preserve floating feel
   const bottomPadding = Math.max(Math.round(insets.bottom * 0.35), 4) + 4;
 
@@ -103,7 +106,11 @@ function FloatingTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
                 accessibilityState={{ selected: isFocused }}
                 accessibilityLabel={config.label}
               >
-                <Ionicons name={iconName} size={20} color={tintColor} />
+                <View>
+                  <Ionicons name={iconName} size={20} color={tintColor} />
+                  {/* Unread Activity lives behind the profile header bell */}
+                  {route.name === 'profile' && unreadCount > 0 && <View style={styles.unreadDot} />}
+                </View>
                 <Text style={[styles.tabLabel, { color: tintColor }]}>
                   {config.label}
                 </Text>
@@ -118,6 +125,8 @@ function FloatingTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
 
 export default function TabsLayout() {
   usePushNotificationListeners();
+  useNotificationsRealtime();
+  useResumableUploads();
 
   return (
     <Tabs
@@ -186,4 +195,13 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 12,
   },
+  unreadDot: {
+    position: 'absolute',
+    top: -1,
+    right: -3,
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#ff2d55',
+  },
 });
@@ -13,13 +13,16 @@ import {
   Dimensions,
   ScrollView,
 } from 'react-native';
-import { useRouter, useNavigation } from 'expo-router';
+import { useRouter, useNavigation, useLocalSearchParams } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useVideoUpload } from '../../hooks/useVideoUpload';
-import { VideoUploadInput, VideoRating, RATING_LABELS, RATING_EMOJIS, TmdbSearchResult } from '../../types';
+import { VideoUploadInput, VideoRating, RATING_LABELS, RATING_EMOJIS, TmdbSearchResult, ReviewDraft } from '../../types';
 import { CONTENT_CONSTRAINTS } from '../../constants/config';
 import MovieSearchSheet from '../../components/MovieSearchSheet';
+import AccountRestricted from '../../components/AccountRestricted';
+import { useAuth } from '../../lib/auth';
+import { useDraftsStore, saveDraft, deleteDraft, queueDraft } from '../../lib/drafts';
 
 const TAB_BAR_HEIGHT = Platform.OS === 'ios' ? 72 : 62;
 const ACCENT = '#FF2D55';
@@ -33,6 +36,8 @@ export default function CreateScreen() {
   const navigation = useNavigation();
   const insets = useSafeAreaInsets();
   const hasUnsavedWorkRef = useRef(false);
+  const { user, isSuspended, isBanned } = useAuth();
+  const { draftId } = useLocalSearchParams<{ draftId?: string }>();
 
   const {
     progress,
@@ -42,6 +47,7 @@ export default function CreateScreen() {
     recordVideo,
     generateThumbnail,
     uploadVideo,
+    restoreVideo,
     reset,
   } = useVideoUpload();
 
@@ -50,6 +56,11 @@ export default function CreateScreen() {
   const [selectedTmdbResult, setSelectedTmdbResult] = useState<TmdbSearchResult | null>(null);
   const [movieSheetVisible, setMovieSheetVisible] = useState(false);
   const [title, setTitle] = useState('');
+  // Draft being edited; saving or posting updates it instead of adding one
+  const [editingDraftId, setEditingDraftId] = useState<string | null>(null);
+  const draftCount = useDraftsStore(
+    (state) => Object.values(state.drafts).filter((draft) => draft.userId === user?.id).length
+  );
 
   // Record button pulse
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -75,25 +86,65 @@ export default function CreateScreen() {
       setMovieTitle('');
       setSelectedTmdbResult(null);
       setTitle('');
+      setEditingDraftId(null);
     });
     return unsubscribe;
   }, [navigation, reset]);
 
+  // Opened from the Drafts list
+  useEffect(() => {
+    if (!draftId) return;
+    const draft = useDraftsStore.getState().drafts[draftId];
+    if (draft) {
+      restoreVideo(draft.video, draft.thumbnailUri);
+      setTitle(draft.title);
+      setRating(draft.rating ?? undefined);
+      setMovieTitle(draft.movieTitle);
+      setSelectedTmdbResult(draft.tmdbSelection);
+      setEditingDraftId(draft.id);
+    }
+    router.setParams({ draftId: undefined });
+  }, [draftId, restoreVideo, router]);
+
   // Track unsaved work
   useEffect(() => {
     hasUnsavedWorkRef.current = !!(selectedVideo || title.trim() || movieTitle.trim());
   }, [selectedVideo, title, movieTitle]);
 
   const handlePickFromGallery = useCallback(async () => {
-    const video = await pickFromGallery();
-    if (video) await generateThumbnail(video.uri);
+    const { video, error } = await pickFromGallery();
+    if (!video) {
+      if (error) Alert.alert('Can\'t use this video', error);
+      return;
+    }
+    await generateThumbnail(video.uri);
+    if (video.hasAudio === false) {
+      Alert.alert('No sound', 'We couldn\'t hear any audio in this video. You can still post it.');
+    }
   }, [pickFromGallery, generateThumbnail]);
 
   const handleRecordVideo = useCallback(async () => {
-    const video = await recordVideo();
-    if (video) await generateThumbnail(video.uri);
+    const { video, error } = await recordVideo();
+    if (!video) {
+      if (error) Alert.alert('Can\'t use this video', error);
+      return;
+    }
+    await generateThumbnail(video.uri);
+    if (video.hasAudio === false) {
+      Alert.alert('No sound', 'We couldn\'t hear any audio in this video. You can still post it.');
+    }
   }, [recordVideo, generateThumbnail]);
 
+  const clearForm = useCallback(() => {
+    hasUnsavedWorkRef.current = false;
+    reset();
+    setRating(undefined);
+    setMovieTitle('');
+    setSelectedTmdbResult(null);
+    setTitle('');
+    setEditingDraftId(null);
+  }, [reset]);
+
   const handlePost = useCallback(async () => {
     if (!selectedVideo) {
       Alert.alert('Record first', 'Record or choose a video before posting.');
@@ -121,19 +172,98 @@ export default function CreateScreen() {
       tmdbPosterPath: selectedTmdbResult?.poster_path ?? undefined,
     };
 
-    const result = await uploadVideo(input);
+    // Keep the take on the device until the server has it
+    let draft: ReviewDraft;
+    try {
+      draft = await saveDraft({
+        id: editingDraftId ?? undefined,
+        userId: user!.id,
+        video: selectedVideo,
+        thumbnailUri,
+        title,
+        description: '',
+        rating,
+        movieTitle,
+        tmdbSelection: selectedTmdbResult,
+      });
+      setEditingDraftId(draft.id);
+    } catch {
+      Alert.alert('Upload Failed', 'Couldn\'t prepare your video. Try again.');
+      return;
+    }
+
+    const result = await uploadVideo(input, draft);
     if (result.success) {
-      hasUnsavedWorkRef.current = false;
-      reset();
-      setRating(undefined);
-      setMovieTitle('');
-      setSelectedTmdbResult(null);
-      setTitle('');
-      router.replace('/(tabs)/feed');
+      if (result.paused) {
+        queueDraft(draft.id);
+      } else {
+        await deleteDraft(draft.id);
+      }
+      clearForm();
+      if (result.paused) {
+        Alert.alert('Waiting for connection', 'Your review is in Drafts and will post automatically once you\'re back online.');
+        router.push('/drafts');
+        return;
+      }
+      // The review shows as processing on the profile until it's transcoded
+      router.replace('/(tabs)/profile');
     } else {
-      Alert.alert('Upload Failed', result.error || 'Something went wrong. Try again.');
+      useDraftsStore.getState().updateDraft(draft.id, { status: 'failed', error: result.error ?? null });
+      Alert.alert('Upload Failed', `${result.error || 'Something went wrong.'} Your review is saved in Drafts.`);
+    }
+  }, [selectedVideo, thumbnailUri, title, rating, movieTitle, selectedTmdbResult, editingDraftId, user, uploadVideo, clearForm, router]);
+
+  const saveCurrentDraft = useCallback(async (): Promise<boolean> => {
+    if (!selectedVideo || !user) return false;
+    try {
+      await saveDraft({
+        id: editingDraftId ?? undefined,
+        userId: user.id,
+        video: selectedVideo,
+        thumbnailUri,
+        title,
+        description: '',
+        rating: rating ?? null,
+        movieTitle,
+        tmdbSelection: selectedTmdbResult,
+      });
+      clearForm();
+      return true;
+    } catch {
+      Alert.alert('Couldn\'t save draft', 'Check that your device has free space and try again.');
+      return false;
+    }
+  }, [selectedVideo, user, editingDraftId, thumbnailUri, title, rating, movieTitle, selectedTmdbResult, clearForm]);
+
+  const handleSaveDraft = useCallback(async () => {
+    if (await saveCurrentDraft()) {
+      Alert.alert('Saved to Drafts', 'Finish and post it any time from Drafts.');
     }
-  }, [selectedVideo, title, rating, movieTitle, selectedTmdbResult, uploadVideo, reset, router]);
+  }, [saveCurrentDraft]);
+
+  const handleOpenDrafts = useCallback(() => {
+    if (!hasUnsavedWorkRef.current || !selectedVideo) {
+      router.push('/drafts');
+      return;
+    }
+    Alert.alert('Save this take?', 'Save it as a draft before opening Drafts?', [
+      { text: 'Keep Editing', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          clearForm();
+          router.push('/drafts');
+        },
+      },
+      {
+        text: 'Save Draft',
+        onPress: async () => {
+          if (await saveCurrentDraft()) router.push('/drafts');
+        },
+      },
+    ]);
+  }, [selectedVideo, clearForm, saveCurrentDraft, router]);
 
   const handleClose = useCallback(() => {
     if (hasUnsavedWorkRef.current) {
@@ -143,20 +273,23 @@ export default function CreateScreen() {
           text: 'Discard',
           style: 'destructive',
           onPress: () => {
-            hasUnsavedWorkRef.current = false;
-            reset();
-            setRating(undefined);
-            setMovieTitle('');
-            setSelectedTmdbResult(null);
-            setTitle('');
+            clearForm();
             router.back();
           },
         },
+        ...(selectedVideo
+          ? [{
+              text: 'Save Draft',
+              onPress: async () => {
+                if (await saveCurrentDraft()) router.back();
+              },
+            }]
+          : []),
       ]);
     } else {
       router.back();
     }
-  }, [reset, router]);
+  }, [selectedVideo, clearForm, saveCurrentDraft, router]);
 
   const handleMovieSelect = useCallback((result: TmdbSearchResult | null, name: string) => {
     setSelectedTmdbResult(result);
@@ -171,6 +304,11 @@ export default function CreateScreen() {
     return `${m}:${String(s).padStart(2, '0')}`;
   };
 
+  // Uploads would be refused by RLS; explain why up front
+  if (isSuspended || isBanned) {
+    return <AccountRestricted showContinue={false} />;
+  }
+
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {/* ── Top Bar ── */}
@@ -178,19 +316,35 @@ export default function CreateScreen() {
         <TouchableOpacity style={styles.closeBtn} onPress={handleClose} activeOpacity={0.7}>
           <Ionicons name="close" size={16} color="#fff" />
         </TouchableOpacity>
-        <Text style={styles.topTitle}>New Review</Text>
-        <TouchableOpacity
-          style={[styles.postBtn, !canPost && styles.postBtnDisabled]}
-          onPress={handlePost}
-          disabled={!canPost}
-          activeOpacity={0.8}
-        >
-          {isUploading ? (
-            <ActivityIndicator color="#fff" size="small" />
+        <Text style={styles.topTitle}>{editingDraftId ? 'Edit Draft' : 'New Review'}</Text>
+        <View style={styles.topActions}>
+          {selectedVideo && !isUploading ? (
+            <TouchableOpacity style={styles.draftsBtn} onPress={handleSaveDraft} activeOpacity={0.7}>
+              <Ionicons name="bookmark-outline" size={16} color="#fff" />
+            </TouchableOpacity>
           ) : (
-            <Text style={[styles.postBtnText, !canPost && styles.postBtnTextDisabled]}>Post</Text>
+            <TouchableOpacity style={styles.draftsBtn} onPress={handleOpenDrafts} activeOpacity={0.7}>
+              <Ionicons name="albums-outline" size={16} color="#fff" />
+              {draftCount > 0 && (
+                <View style={styles.draftsBadge}>
+                  <Text style={styles.draftsBadgeText}>{draftCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
           )}
-        </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.postBtn, !canPost && styles.postBtnDisabled]}
+            onPress={handlePost}
+            disabled={!canPost}
+            activeOpacity={0.8}
+          >
+            {isUploading ? (
+              <ActivityIndicator color="#fff" size="small" />
+            ) : (
+              <Text style={[styles.postBtnText, !canPost && styles.postBtnTextDisabled]}>Post</Text>
+            )}
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* ── Camera Viewfinder ── */}
@@ -378,6 +532,36 @@ const styles = StyleSheet.create({
     color: '#fff',
     letterSpacing: -0.3,
   },
+  topActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  draftsBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  draftsBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: ACCENT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  draftsBadgeText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '700',
+  },
   postBtn: {
     backgroundColor: ACCENT,
     borderRadius: 16,
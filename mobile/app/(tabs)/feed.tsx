@@ -1,14 +1,25 @@
 // ============================================================================
 // LewReviews Mobile - Feed Tab
 // Main video feed with TikTok-style scrolling
+// For You (ranked) and Following (chronological, followed creators) modes
 // ============================================================================
 
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
 import VideoFeed from '../../components/video/VideoFeed';
 import { useVideoFeed } from '../../hooks/useVideoFeed';
 
+type FeedTab = 'for_you' | 'following';
+
+// Height reserved above each video's overlay for the mode switcher
+const SWITCHER_HEIGHT = 40;
+
 export default function FeedScreen() {
+  const insets = useSafeAreaInsets();
+  const [activeTab, setActiveTab] = useState<FeedTab>('for_you');
+
   const {
     videos,
     isLoading,
@@ -16,18 +27,45 @@ export default function FeedScreen() {
     hasMore,
     onRefresh,
     onLoadMore,
-  } = useVideoFeed();
+  } = useVideoFeed({ mode: activeTab });
+
+  const handleTabPress = (tab: FeedTab) => {
+    if (tab === activeTab) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setActiveTab(tab);
+  };
 
   return (
     <View style={styles.container}>
+      {/* Keyed by mode so scroll position and active index reset on switch */}
       <VideoFeed
+        key={activeTab}
         videos={videos}
         isLoading={isLoading}
         isRefreshing={isRefreshing}
         hasMore={hasMore}
         onRefresh={onRefresh}
         onLoadMore={onLoadMore}
+        topOffset={SWITCHER_HEIGHT}
+        emptyText={activeTab === 'following' ? 'Nothing from your follows yet' : undefined}
+        emptySubtext={activeTab === 'following' ? 'Follow reviewers to fill this feed.' : undefined}
       />
+
+      {/* ── Mode switcher ── */}
+      <View style={[styles.switcher, { top: insets.top + 4 }]} pointerEvents="box-none">
+        <TouchableOpacity onPress={() => handleTabPress('following')} activeOpacity={0.7}>
+          <Text style={[styles.switcherText, activeTab === 'following' && styles.switcherTextActive]}>
+            Following
+          </Text>
+          {activeTab === 'following' && <View style={styles.switcherIndicator} />}
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => handleTabPress('for_you')} activeOpacity={0.7}>
+          <Text style={[styles.switcherText, activeTab === 'for_you' && styles.switcherTextActive]}>
+            For You
+          </Text>
+          {activeTab === 'for_you' && <View style={styles.switcherIndicator} />}
+        </TouchableOpacity>
+      </View>
     </View>
   );
 }
@@ -37,4 +75,35 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#000',
   },
+  switcher: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: SWITCHER_HEIGHT,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+    zIndex: 20,
+  },
+  switcherText: {
+    color: 'rgba(255,255,255,0.6)',
+    fontSize: 16,
+    fontWeight: '600',
+    textShadowColor: 'rgba(0,0,0,0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 2,
+  },
+  switcherTextActive: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  switcherIndicator: {
+    alignSelf: 'center',
+    marginTop: 4,
+    width: 20,
+    height: 2,
+    borderRadius: 1,
+    backgroundColor: '#fff',
+  },
 });
@@ -1,6 +1,7 @@
 // ============================================================================
 // LewReviews Mobile - Profile Tab
 // User profile screen with video grid and agreed/disagreed sections
+// Saved tab lists the user's bookmarks grouped by reviewed title
 // ============================================================================
 
 import React, { useCallback, useState, useRef } from 'react';
@@ -15,6 +16,8 @@ import {
   Alert,
   Linking,
   Share,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
@@ -27,12 +30,18 @@ import * as FileSystem from 'expo-file-system/legacy';
 import { LinearGradient } from 'expo-linear-gradient';
 import { supabase, getCurrentUser, getCurrentSession } from '../../lib/supabase';
 import { STORAGE_BUCKETS, SUPABASE_URL, SUPABASE_ANON_KEY } from '../../constants/config';
-import type { Profile, Video } from '../../types';
+import { useBookmarkedVideos } from '../../hooks/useBookmarks';
+import { useUnreadNotificationCount } from '../../hooks/useNotifications';
+import { useProcessingVideos, discardFailedVideo } from '../../hooks/useProcessingVideos';
+import type { Profile, Video, SavedVideo, ProcessingVideo } from '../../types';
 import { RATING_EMOJIS, RATING_LABELS, type VideoRating } from '../../types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-type TabType = 'reviews' | 'replies';
+type TabType = 'reviews' | 'replies' | 'saved';
+
+// Distance from the bottom of the scroll view that triggers the next Saved page
+const LOAD_MORE_THRESHOLD = 400;
 
 interface ReplyVideo extends Video {
   parent_video_id: string;
@@ -48,6 +57,7 @@ interface ReplyVideo extends Video {
 export default function ProfileScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
+  const unreadCount = useUnreadNotificationCount();
   const queryClient = useQueryClient();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [reviews, setReviews] = useState<Video[]>([]);
@@ -59,6 +69,12 @@ export default function ProfileScreen() {
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
   const hasLoadedRef = useRef(false);
   const lastFetchedAt = useRef(0);
+  const {
+    groups: savedGroups,
+    isLoading: isLoadingSaved,
+    isLoadingMore: isLoadingMoreSaved,
+    onLoadMore: onLoadMoreSaved,
+  } = useBookmarkedVideos();
 
   // Handle avatar tap - pick and upload directly
   const handleAvatarPress = useCallback(async () => {
@@ -158,92 +174,98 @@ export default function ProfileScreen() {
     }
   }, [queryClient]);
 
-  // Fetch user profile and videos every time the tab is focused
+  // Fetch user profile and videos; force skips the recent-load throttle
+  const fetchProfile = useCallback(async (force = false) => {
+    // Skip refetch if data was loaded recently (avoids 3 queries on quick tab switch)
+    if (!force && hasLoadedRef.current && Date.now() - lastFetchedAt.current < 30_000) {
+      return;
+    }
+
+    // Only show spinner on initial load, not on refocus
+    if (!hasLoadedRef.current) {
+      setIsLoading(true);
+    }
+
+    lastFetchedAt.current = Date.now();
+    try {
+      const user = await getCurrentUser();
+
+      if (!user) {
+        setIsLoggedIn(false);
+        setIsLoading(false);
+        hasLoadedRef.current = false;
+        return;
+      }
+
+      setIsLoggedIn(true);
+
+      // Fetch profile
+      const { data: profileData, error: profileError } = await supabase
+        .from('profiles')
+        .select('id, username, display_name, avatar_url, bio, website, followers_count, following_count, videos_count, likes_received_count, agrees_received_count, disagrees_received_count, created_at, updated_at')
+        .eq('id', user.id)
+        .single();
+
+      if (profileError) throw profileError;
+      setProfile(profileData);
+
+      // Fetch user's root videos (reviews)
+      const { data: reviewsData, error: reviewsError } = await supabase
+        .from('feed_videos')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('parent_video_id', null)
+        .order('created_at', { ascending: false });
+
+      if (reviewsError) throw reviewsError;
+      setReviews(reviewsData || []);
+
+      // Calculate ratio from profile's received vote counts
+      const receivedAgrees = profileData?.agrees_received_count || 0;
+      const receivedDisagrees = profileData?.disagrees_received_count || 0;
+      setRatio(receivedAgrees - receivedDisagrees);
+
+      // Fetch user's reply videos (responses to other videos)
+      const { data: repliesData, error: repliesError } = await supabase
+        .from('videos')
+        .select(`
+          id,
+          thumbnail_url,
+          views_count,
+          parent_video_id,
+          agree_disagree,
+          created_at
+        `)
+        .eq('user_id', user.id)
+        .not('parent_video_id', 'is', null)
+        .not('status', 'in', '(processing,failed)')
+        .order('created_at', { ascending: false });
+
+      if (!repliesError && repliesData) {
+        setReplies(repliesData as ReplyVideo[]);
+      }
+
+      hasLoadedRef.current = true;
+    } catch {
+      // Error fetching profile - silently fail
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Refetch every time the tab is focused
   useFocusEffect(
     useCallback(() => {
       setActiveTab('reviews');
-
-      const fetchProfile = async () => {
-        // Skip refetch if data was loaded recently (avoids 3 queries on quick tab switch)
-        if (hasLoadedRef.current && Date.now() - lastFetchedAt.current < 30_000) {
-          return;
-        }
-
-        // Only show spinner on initial load, not on refocus
-        if (!hasLoadedRef.current) {
-          setIsLoading(true);
-        }
-
-        lastFetchedAt.current = Date.now();
-        try {
-          const user = await getCurrentUser();
-
-          if (!user) {
-            setIsLoggedIn(false);
-            setIsLoading(false);
-            hasLoadedRef.current = false;
-            return;
-          }
-
-          setIsLoggedIn(true);
-
-          // Fetch profile
-          const { data: profileData, error: profileError } = await supabase
-            .from('profiles')
-            .select('id, username, display_name, avatar_url, bio, website, followers_count, following_count, videos_count, likes_received_count, agrees_received_count, disagrees_received_count, created_at, updated_at')
-            .eq('id', user.id)
-            .single();
-
-          if (profileError) throw profileError;
-          setProfile(profileData);
-
-          // Fetch user's root videos (reviews)
-          const { data: reviewsData, error: reviewsError } = await supabase
-            .from('feed_videos')
-            .select('*')
-            .eq('user_id', user.id)
-            .is('parent_video_id', null)
-            .order('created_at', { ascending: false });
-
-          if (reviewsError) throw reviewsError;
-          setReviews(reviewsData || []);
-
-          // Calculate ratio from profile's received vote counts
-          const receivedAgrees = profileData?.agrees_received_count || 0;
-          const receivedDisagrees = profileData?.disagrees_received_count || 0;
-          setRatio(receivedAgrees - receivedDisagrees);
-
-          // Fetch user's reply videos (responses to other videos)
-          const { data: repliesData, error: repliesError } = await supabase
-            .from('videos')
-            .select(`
-              id,
-              thumbnail_url,
-              views_count,
-              parent_video_id,
-              agree_disagree,
-              created_at
-            `)
-            .eq('user_id', user.id)
-            .not('parent_video_id', 'is', null)
-            .order('created_at', { ascending: false });
-
-          if (!repliesError && repliesData) {
-            setReplies(repliesData as ReplyVideo[]);
-          }
-
-          hasLoadedRef.current = true;
-        } catch {
-          // Error fetching profile - silently fail
-        } finally {
-          setIsLoading(false);
-        }
-      };
-
       fetchProfile();
-    }, [])
+    }, [fetchProfile])
   );
 
+  // Uploads still transcoding; one finishing reloads the grids
+  const { videos: processingVideos, refetch: refetchProcessing } = useProcessingVideos(() => {
+    fetchProfile(true);
+  });
+
   // Format number for display
   const formatCount = useCallback((count: number): string => {
     if (count >= 1000000) {
@@ -280,6 +302,11 @@ export default function ProfileScreen() {
     router.push('/settings');
   }, [router]);
 
+  // Handle activity press
+  const handleActivityPress = useCallback(() => {
+    router.push('/activity');
+  }, [router]);
+
   // Handle edit profile press
   const handleEditProfile = useCallback(() => {
     router.push('/(modals)/edit-profile');
@@ -302,6 +329,18 @@ export default function ProfileScreen() {
     return replies;
   }, [activeTab, reviews, replies]);
 
+  // Page in more bookmarks as the Saved tab nears the bottom
+  const handleScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (activeTab !== 'saved') return;
+      const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+      if (layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD) {
+        onLoadMoreSaved();
+      }
+    },
+    [activeTab, onLoadMoreSaved]
+  );
+
   // Get rating badge color
   const getRatingColor = useCallback((rating: VideoRating): string => {
     if (rating >= 4) return 'rgba(232, 197, 71, 0.9)'; // gold
@@ -311,7 +350,7 @@ export default function ProfileScreen() {
 
   // Render video thumbnail
   const renderVideoThumbnail = useCallback(
-    (video: Video | ReplyVideo, index: number) => {
+    (video: Video | ReplyVideo | SavedVideo, index: number) => {
       const thumbnailUrl = video.thumbnail_url;
       const videoId = video.id;
       const isReply = activeTab === 'replies';
@@ -356,12 +395,12 @@ export default function ProfileScreen() {
               />
             </View>
           )}
-          {/* Bottom gradient scrim + movie title */}
+          {/* Bottom gradient scrim + movie title (Saved groups show it in the header) */}
           <LinearGradient
             colors={['transparent', 'rgba(0,0,0,0.8)']}
             style={styles.thumbnailScrim}
           >
-            {!isReply && video.movie_title && (
+            {activeTab === 'reviews' && video.movie_title && (
               <Text style={styles.movieTitle} numberOfLines={1}>{video.movie_title}</Text>
             )}
           </LinearGradient>
@@ -371,6 +410,71 @@ export default function ProfileScreen() {
     [activeTab, handleVideoPress, getRatingColor]
   );
 
+  // Failed uploads explain why and can be discarded
+  const handleProcessingPress = useCallback(
+    (video: ProcessingVideo) => {
+      if (video.status !== 'failed') {
+        Alert.alert('Still processing', 'Your video will appear here once it\'s ready.');
+        return;
+      }
+      Alert.alert(
+        'Upload failed',
+        'We couldn\'t process this video. Try uploading it again.',
+        [
+          { text: 'Keep', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await discardFailedVideo(video.id);
+                refetchProcessing();
+              } catch {
+                Alert.alert('Error', 'Failed to discard video');
+              }
+            },
+          },
+        ]
+      );
+    },
+    [refetchProcessing]
+  );
+
+  // Upload that isn't ready yet (owner only)
+  const renderProcessingThumbnail = useCallback(
+    (video: ProcessingVideo) => {
+      const isFailed = video.status === 'failed';
+
+      return (
+        <TouchableOpacity
+          key={video.id}
+          style={styles.videoThumbnail}
+          onPress={() => handleProcessingPress(video)}
+          activeOpacity={0.8}
+        >
+          {video.thumbnail_url ? (
+            <Image
+              source={{ uri: video.thumbnail_url }}
+              style={styles.thumbnailImage}
+              contentFit="cover"
+            />
+          ) : (
+            <View style={styles.thumbnailPlaceholder} />
+          )}
+          <View style={styles.processingOverlay}>
+            {isFailed ? (
+              <Ionicons name="alert-circle" size={28} color="#ff3b30" />
+            ) : (
+              <ActivityIndicator size="small" color="#fff" />
+            )}
+            <Text style={styles.processingText}>{isFailed ? 'Failed' : 'Processing'}</Text>
+          </View>
+        </TouchableOpacity>
+      );
+    },
+    [handleProcessingPress]
+  );
+
   if (isLoading) {
     return (
       <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
@@ -392,18 +496,33 @@ export default function ProfileScreen() {
   }
 
   const currentVideos = getCurrentVideos();
+  const currentProcessing = activeTab === 'saved'
+    ? []
+    : processingVideos.filter((video) => (activeTab === 'replies') === !!video.parent_video_id);
 
   return (
     <ScrollView
       style={[styles.container, { paddingTop: insets.top }]}
       contentContainerStyle={styles.scrollContent}
+      onScroll={handleScroll}
+      scrollEventThrottle={200}
     >
-      {/* Header — Profile title + settings gear */}
+      {/* Header — Profile title + activity bell + settings gear */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Profile</Text>
-        <TouchableOpacity style={styles.settingsBtn} onPress={handleSettingsPress}>
-          <Ionicons name="settings-outline" size={18} color="rgba(255, 255, 255, 0.4)" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.settingsBtn} onPress={handleActivityPress}>
+            <Ionicons name="notifications-outline" size={18} color="rgba(255, 255, 255, 0.4)" />
+            {unreadCount > 0 && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.settingsBtn} onPress={handleSettingsPress}>
+            <Ionicons name="settings-outline" size={18} color="rgba(255, 255, 255, 0.4)" />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Profile info */}
@@ -490,12 +609,62 @@ export default function ProfileScreen() {
               Replies
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.segmentTab, activeTab === 'saved' && styles.segmentTabActive]}
+            onPress={() => setActiveTab('saved')}
+          >
+            <Text style={[styles.segmentTabText, activeTab === 'saved' && styles.segmentTabTextActive]}>
+              Saved
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
 
       {/* Videos Section */}
       <View style={styles.videosSection}>
-        {currentVideos.length === 0 ? (
+        {activeTab === 'saved' ? (
+          isLoadingSaved ? (
+            <View style={styles.emptyVideos}>
+              <ActivityIndicator size="small" color="#fff" />
+            </View>
+          ) : savedGroups.length === 0 ? (
+            <View style={styles.emptyVideos}>
+              <Ionicons name="bookmark-outline" size={48} color="rgba(255, 255, 255, 0.3)" />
+              <Text style={styles.emptyText}>No saved videos yet</Text>
+              <Text style={styles.emptySubtext}>Bookmark reviews to watch them later</Text>
+            </View>
+          ) : (
+            <>
+              {savedGroups.map((group) => (
+                <View key={group.key ?? 'untagged'} style={styles.savedGroup}>
+                  <View style={styles.savedGroupHeader}>
+                    {group.posterPath ? (
+                      <Image
+                        source={{ uri: group.posterPath }}
+                        style={styles.savedGroupPoster}
+                        contentFit="cover"
+                      />
+                    ) : (
+                      <View style={[styles.savedGroupPoster, styles.savedGroupPosterPlaceholder]}>
+                        <Ionicons name="film-outline" size={16} color="rgba(255, 255, 255, 0.4)" />
+                      </View>
+                    )}
+                    <Text style={styles.savedGroupTitle} numberOfLines={1}>
+                      {group.title ?? 'Other'}
+                    </Text>
+                    <Text style={styles.savedGroupCount}>{group.videos.length}</Text>
+                  </View>
+                  <View style={styles.videosGrid}>
+                    {group.videos.map((video, index) => renderVideoThumbnail(video, index))}
+                  </View>
+                </View>
+              ))}
+              {isLoadingMoreSaved && (
+                <ActivityIndicator size="small" color="#fff" style={styles.savedLoadingMore} />
+              )}
+            </>
+          )
+        ) : currentVideos.length === 0 && currentProcessing.length === 0 ? (
           <View style={styles.emptyVideos}>
             <Ionicons
               name={activeTab === 'reviews' ? 'videocam-outline' : 'chatbubble-outline'}
@@ -513,6 +682,7 @@ export default function ProfileScreen() {
           </View>
         ) : (
           <View style={styles.videosGrid}>
+            {currentProcessing.map(renderProcessingThumbnail)}
             {currentVideos.map((video, index) => renderVideoThumbnail(video, index))}
           </View>
         )}
@@ -562,6 +732,27 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  unreadBadge: {
+    position: 'absolute',
+    top: -2,
+    right: -4,
+    minWidth: 16,
+    height: 16,
+    paddingHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#ff2d55',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unreadBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#fff',
+  },
   // Profile
   profileInfo: {
     alignItems: 'center',
@@ -728,6 +919,40 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 40,
   },
+  // Saved tab groups
+  savedGroup: {
+    marginBottom: 20,
+  },
+  savedGroupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  savedGroupPoster: {
+    width: 28,
+    height: 42,
+    borderRadius: 4,
+  },
+  savedGroupPosterPlaceholder: {
+    backgroundColor: 'rgba(255, 255, 255, 0.06)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  savedGroupTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  savedGroupCount: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: 'rgba(255, 255, 255, 0.4)',
+  },
+  savedLoadingMore: {
+    paddingVertical: 16,
+  },
   videosGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -750,6 +975,18 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  processingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+  },
+  processingText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
   thumbnailScrim: {
     position: 'absolute',
     bottom: 0,
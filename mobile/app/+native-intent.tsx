@@ -0,0 +1,15 @@
+// ============================================================================
+// LewReviews Mobile - Native Intent
+// Rewrites inbound deep/universal links onto app routes before navigation
+// ============================================================================
+
+import { resolveDeepLinkPath } from '../lib/deepLinks';
+
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    return resolveDeepLinkPath(path);
+  } catch {
+    // Never let a malformed URL crash startup
+    return '/';
+  }
+}
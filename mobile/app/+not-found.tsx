@@ -0,0 +1,7 @@
+import React from 'react';
+import ContentUnavailable from '../components/ContentUnavailable';
+
+// Any path without a route (stale or mistyped links) lands on the same fallback
+export default function NotFoundScreen() {
+  return <ContentUnavailable kind="link" />;
+}
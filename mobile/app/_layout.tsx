@@ -2,8 +2,8 @@
 // LewReviews Mobile - Root Layout
 // ============================================================================
 
-import { useEffect } from 'react';
-import { Stack, useRouter, useSegments } from 'expo-router';
+import { useEffect, useRef } from 'react';
+import { Stack, useRouter, useSegments, usePathname, type Href } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
@@ -12,6 +12,8 @@ import { StyleSheet, View, ActivityIndicator } from 'react-native';
 import { BottomSheetModalProvider } from '@gorhom/bottom-sheet';
 import { AuthProvider, useAuth } from '../lib/auth';
 import { useOnboarding } from '../hooks/useOnboarding';
+import { isContentLinkPath, setPendingDeepLink, consumePendingDeepLink } from '../lib/deepLinks';
+import { loadMaxResponseDepth } from '../lib/video';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -24,10 +26,18 @@ const queryClient = new QueryClient({
 });
 
 function RootLayoutNav() {
-  const { isAuthenticated, isLoading, isPasswordRecovery } = useAuth();
+  const { isAuthenticated, isLoading, isPasswordRecovery, isSuspended, isBanned, accountStanding } = useAuth();
   const { isOnboardingComplete } = useOnboarding();
   const segments = useSegments();
+  const pathname = usePathname();
   const router = useRouter();
+  // Suspension end the notice was last shown for, so it appears once per suspension
+  const suspensionNoticeShownRef = useRef<string | null>(null);
+
+  // Rebuttal buttons pick their target from the server's depth limit
+  useEffect(() => {
+    if (isAuthenticated) loadMaxResponseDepth();
+  }, [isAuthenticated]);
 
   useEffect(() => {
     if (isLoading) return;
@@ -40,13 +50,38 @@ function RootLayoutNav() {
     if (isPasswordRecovery) {
       router.replace('/(auth)/reset-password');
     } else if (!isAuthenticated && !inAuthGroup) {
+      // Reopen a shared link once the user has signed in (and finished onboarding)
+      if (isContentLinkPath(pathname)) {
+        setPendingDeepLink(pathname);
+      }
       router.replace('/(auth)/login');
     } else if (isAuthenticated && isOnboardingComplete === false && !inOnboardingGroup) {
       router.replace('/(onboarding)/welcome');
     } else if (isAuthenticated && isOnboardingComplete === true && (inAuthGroup || inOnboardingGroup)) {
-      router.replace('/(tabs)/feed');
+      const pendingLink = consumePendingDeepLink();
+      if (pendingLink) {
+        // Keep the feed underneath so back from the linked screen stays in the app
+        router.replace('/(tabs)/feed');
+        router.push(pendingLink as Href);
+      } else {
+        router.replace('/(tabs)/feed');
+      }
     }
-  }, [isAuthenticated, isLoading, isPasswordRecovery, isOnboardingComplete, segments, router]);
+  }, [isAuthenticated, isLoading, isPasswordRecovery, isOnboardingComplete, segments, pathname, router]);
+
+  // Banned accounts are held on the explanation screen (guidelines stay readable);
+  // suspended ones see it once and can then keep browsing
+  const suspendedUntil = accountStanding?.suspended_until ?? null;
+  useEffect(() => {
+    if (!isAuthenticated || segments[0] !== '(tabs)') return;
+
+    if (isBanned) {
+      router.replace('/account-restricted');
+    } else if (isSuspended && suspendedUntil && suspensionNoticeShownRef.current !== suspendedUntil) {
+      suspensionNoticeShownRef.current = suspendedUntil;
+      router.push('/account-restricted');
+    }
+  }, [isAuthenticated, isBanned, isSuspended, suspendedUntil, segments, router]);
 
   if (isLoading || (isAuthenticated && isOnboardingComplete === null)) {
     return (
@@ -95,6 +130,12 @@ function RootLayoutNav() {
             animation: 'slide_from_right',
           }}
         />
+        <Stack.Screen
+          name="debate/[id]"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
         <Stack.Screen
           name="replies/[id]"
           options={{
@@ -119,6 +160,37 @@ function RootLayoutNav() {
             animation: 'slide_from_right',
           }}
         />
+        <Stack.Screen
+          name="insights/[id]"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="activity"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="drafts"
+          options={{
+            animation: 'slide_from_right',
+          }}
+        />
+        <Stack.Screen
+          name="account-restricted"
+          options={{
+            animation: 'fade',
+            gestureEnabled: !isBanned,
+          }}
+        />
+        <Stack.Screen
+          name="link-unavailable"
+          options={{
+            animation: 'fade',
+          }}
+        />
       </Stack>
     </>
   );
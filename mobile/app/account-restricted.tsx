@@ -0,0 +1,6 @@
+import React from 'react';
+import AccountRestricted from '../components/AccountRestricted';
+
+export default function AccountRestrictedScreen() {
+  return <AccountRestricted />;
+}
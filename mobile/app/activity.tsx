@@ -0,0 +1,355 @@
+// ============================================================================
+// LewReviews Mobile - Activity Screen
+// ============================================================================
+// Notification inbox. Notifications are grouped server-side by video and day
+// ("5 people disagreed with your take"); opening a group marks it read.
+// Reached from the bell in the Profile header.
+// ============================================================================
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import {
+  useNotificationGroups,
+  useUnreadNotificationCount,
+  useMarkNotificationsRead,
+  useMarkAllNotificationsRead,
+} from '../hooks/useNotifications';
+import { formatRelativeTime } from '../components/video/ReplyListItem';
+import { useAuth } from '../lib/auth';
+import type { NotificationGroup, NotificationType } from '../types';
+
+// One-line summary of a group; single notifications keep their own text
+function describeGroup(group: NotificationGroup): string {
+  const actor = group.actors[0]?.username;
+
+  if (group.type === 'response') {
+    const verb = group.agree_disagree ? 'agreed with' : 'disagreed with';
+    if (group.actor_count > 1) {
+      return `${group.actor_count} people ${verb} your take`;
+    }
+    return actor ? `@${actor} ${verb} your take` : group.body;
+  }
+
+  if (group.type === 'new_follower') {
+    if (group.actor_count > 1) {
+      return `${group.actor_count} people started following you`;
+    }
+    return actor ? `@${actor} started following you` : group.body;
+  }
+
+  return group.body;
+}
+
+// Groups with no sender get a type icon instead of avatars
+const SYSTEM_ICONS: Partial<Record<NotificationType, { name: keyof typeof Ionicons.glyphMap; color: string }>> = {
+  moderation: { name: 'shield-outline', color: '#ff9f0a' },
+  agree_milestone: { name: 'trophy-outline', color: '#ffd60a' },
+  hot_take: { name: 'flame-outline', color: '#ff2d55' },
+};
+
+function GroupIcon({ group }: { group: NotificationGroup }) {
+  const systemIcon = SYSTEM_ICONS[group.type];
+  if (systemIcon) {
+    return (
+      <View style={[styles.avatar, styles.iconFallback]}>
+        <Ionicons name={systemIcon.name} size={20} color={systemIcon.color} />
+      </View>
+    );
+  }
+
+  const shown = group.actors.slice(0, 2);
+  if (shown.length === 0) {
+    return (
+      <View style={[styles.avatar, styles.iconFallback]}>
+        <Ionicons name="notifications-outline" size={20} color="rgba(255,255,255,0.5)" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.avatarStack}>
+      {shown.map((actor, index) =>
+        actor.avatar_url ? (
+          <Image
+            key={actor.id}
+            source={{ uri: actor.avatar_url }}
+            style={[styles.avatar, index > 0 && styles.avatarOverlap]}
+            contentFit="cover"
+          />
+        ) : (
+          <View key={actor.id} style={[styles.avatar, styles.iconFallback, index > 0 && styles.avatarOverlap]}>
+            <Ionicons name="person" size={18} color="rgba(255,255,255,0.5)" />
+          </View>
+        )
+      )}
+    </View>
+  );
+}
+
+function GroupRow({
+  group,
+  onPress,
+}: {
+  group: NotificationGroup;
+  onPress: (group: NotificationGroup) => void;
+}) {
+  const isUnread = group.unread_count > 0;
+  const stanceColor = group.agree_disagree ? '#34c759' : '#ff3b30';
+
+  return (
+    <TouchableOpacity
+      style={[styles.row, isUnread && styles.rowUnread]}
+      onPress={() => onPress(group)}
+      activeOpacity={0.7}
+    >
+      <GroupIcon group={group} />
+
+      <View style={styles.rowBody}>
+        <Text style={styles.rowText} numberOfLines={2}>
+          {describeGroup(group)}
+        </Text>
+        <Text style={styles.rowMeta}>
+          {group.type === 'response' && (
+            <Text style={{ color: stanceColor }}>{group.agree_disagree ? 'Agree' : 'Disagree'} · </Text>
+          )}
+          {formatRelativeTime(group.latest_at)}
+        </Text>
+      </View>
+
+      {isUnread && <View style={styles.unreadDot} />}
+    </TouchableOpacity>
+  );
+}
+
+export default function ActivityScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { user } = useAuth();
+  const unreadCount = useUnreadNotificationCount();
+  const {
+    groups,
+    isLoading,
+    isError,
+    hasMore,
+    loadMore,
+    isLoadingMore,
+    refresh,
+    isRefreshing,
+  } = useNotificationGroups();
+  const markRead = useMarkNotificationsRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleBackPress = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleGroupPress = useCallback(
+    (group: NotificationGroup) => {
+      if (group.unread_count > 0) {
+        markRead.mutate(group.notification_ids);
+      }
+      if (group.type === 'new_follower') {
+        // One follower opens their profile; several open the followers list
+        if (group.actor_count === 1 && group.actors[0]) {
+          router.push(`/profile/${group.actors[0].id}`);
+        } else if (user) {
+          router.push(`/followers/${user.id}`);
+        }
+      } else if (group.video_id) {
+        router.push(`/video/${group.video_id}`);
+      }
+    },
+    [markRead, router, user]
+  );
+
+  const handleMarkAllRead = useCallback(() => {
+    markAllRead.mutate(null);
+  }, [markAllRead]);
+
+  const handleEndReached = useCallback(() => {
+    if (hasMore && !isLoadingMore) {
+      loadMore();
+    }
+  }, [hasMore, isLoadingMore, loadMore]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Activity</Text>
+        <TouchableOpacity
+          onPress={handleMarkAllRead}
+          style={styles.headerAction}
+          disabled={unreadCount === 0}
+        >
+          <Ionicons
+            name="checkmark-done-outline"
+            size={22}
+            color={unreadCount === 0 ? 'rgba(255,255,255,0.25)' : '#fff'}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#ff2d55" />
+        </View>
+      ) : isError ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Couldn't load your activity</Text>
+          <TouchableOpacity onPress={() => refresh()}>
+            <Text style={styles.retryText}>Try again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={groups}
+          keyExtractor={(item) => item.group_key}
+          renderItem={({ item }) => <GroupRow group={item} onPress={handleGroupPress} />}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 24 }]}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={refresh} tintColor="#fff" />
+          }
+          ListFooterComponent={
+            isLoadingMore ? <ActivityIndicator style={styles.footer} color="#ff2d55" /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons name="notifications-outline" size={48} color="rgba(255,255,255,0.25)" />
+              <Text style={styles.emptyText}>No activity yet</Text>
+              <Text style={styles.emptySubtext}>
+                When people respond to your takes, you'll see it here.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  headerAction: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingVertical: 8,
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.35)',
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ff2d55',
+  },
+  footer: {
+    paddingVertical: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  rowUnread: {
+    backgroundColor: 'rgba(255,45,85,0.06)',
+  },
+  avatarStack: {
+    flexDirection: 'row',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#000',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  avatarOverlap: {
+    marginLeft: -16,
+  },
+  iconFallback: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  rowText: {
+    fontSize: 14,
+    color: '#fff',
+    lineHeight: 19,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.45)',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#ff2d55',
+  },
+});
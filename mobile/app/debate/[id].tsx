@@ -0,0 +1,495 @@
+// ============================================================================
+// LewReviews Mobile - Debate Screen
+// Split-screen view of a take and its rebuttals, most engaged first
+// ============================================================================
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  TouchableOpacity,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import VideoPlayer from '../../components/video/VideoPlayer';
+import { useInfiniteResponses, useLiveConsensus } from '../../hooks/useResponseChain';
+import { useDualPlayerController, type DebateSide } from '../../hooks/useDualPlayerController';
+import type { VideoResponse, VideoWithProfile } from '../../lib/video';
+
+const HEADER_HEIGHT = 52;
+const CONSENSUS_BAR_HEIGHT = 44;
+
+interface PaneLabelProps {
+  label: string;
+  video: VideoWithProfile;
+  isAudible: boolean;
+  onAudioPress: () => void;
+}
+
+function PaneLabel({ label, video, isAudible, onAudioPress }: PaneLabelProps) {
+  return (
+    <>
+      <View style={styles.paneTopRow} pointerEvents="box-none">
+        <View style={styles.paneTag}>
+          <Text style={styles.paneTagText}>{label}</Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.audioButton, isAudible && styles.audioButtonActive]}
+          onPress={onAudioPress}
+          activeOpacity={0.7}
+          hitSlop={8}
+        >
+          <Ionicons name={isAudible ? 'volume-high' : 'volume-mute'} size={16} color="#fff" />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.paneBottom} pointerEvents="none">
+        <Text style={styles.paneUsername} numberOfLines={1}>
+          @{video.username}
+        </Text>
+        <Text style={styles.paneTitle} numberOfLines={2}>
+          {video.title}
+        </Text>
+      </View>
+    </>
+  );
+}
+
+export default function DebateScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { width: windowWidth, height: windowHeight } = useWindowDimensions();
+  const { id: takeVideoId } = useLocalSearchParams<{ id: string }>();
+
+  const controller = useDualPlayerController();
+  const { togglePlayback, setAudioSide } = controller;
+  const consensus = useLiveConsensus(takeVideoId);
+
+  // Opposing responses, most engaged first
+  const {
+    data,
+    isLoading: isLoadingRebuttals,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteResponses(takeVideoId, 'disagree', 'engagement');
+
+  const rebuttals = useMemo(
+    () => data?.pages.flatMap((page) => page.responses) ?? [],
+    [data]
+  );
+
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeIndexRef = useRef(0);
+
+  // Side by side in landscape, stacked in portrait
+  const isSideBySide = windowWidth > windowHeight;
+  const contentHeight =
+    windowHeight - insets.top - insets.bottom - HEADER_HEIGHT - CONSENSUS_BAR_HEIGHT;
+  const paneWidth = isSideBySide ? windowWidth / 2 : windowWidth;
+  const paneHeight = isSideBySide ? contentHeight : contentHeight / 2;
+  const paneWidthRef = useRef(paneWidth);
+  paneWidthRef.current = paneWidth;
+
+  const handleBackPress = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  }, [router]);
+
+  const handleTogglePlayback = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    togglePlayback();
+  }, [togglePlayback]);
+
+  const handleAudioPress = useCallback(
+    (side: DebateSide) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setAudioSide(side);
+    },
+    [setAudioSide]
+  );
+
+  const handleRebut = useCallback(() => {
+    if (!takeVideoId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    router.push({
+      pathname: '/(modals)/response-upload',
+      params: { parentVideoId: takeVideoId, agreeDisagree: 'false' },
+    });
+  }, [router, takeVideoId]);
+
+  const handleScroll = useCallback(
+    (event: { nativeEvent: { contentOffset: { x: number } } }) => {
+      const index = Math.round(event.nativeEvent.contentOffset.x / paneWidthRef.current);
+      if (index !== activeIndexRef.current) {
+        activeIndexRef.current = index;
+        setActiveIndex(index);
+      }
+    },
+    []
+  );
+
+  const handleEndReached = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const getItemLayout = useCallback(
+    (_: unknown, index: number) => ({
+      length: paneWidthRef.current,
+      offset: paneWidthRef.current * index,
+      index,
+    }),
+    []
+  );
+
+  const keyExtractor = useCallback((item: VideoResponse) => item.id, []);
+
+  const rebuttalPlayerProps = controller.playerProps('rebuttal');
+  const renderRebuttal = useCallback(
+    ({ item, index }: { item: VideoResponse; index: number }) => (
+      <View style={{ width: paneWidth, height: paneHeight }}>
+        <VideoPlayer
+          videoUrl={item.video_url}
+          playbackUrl={item.playback_url}
+          videoId={item.id}
+          isActive={rebuttalPlayerProps.isActive && index === activeIndexRef.current}
+          muted={rebuttalPlayerProps.muted}
+          hideProgressBar
+        />
+        <Pressable style={StyleSheet.absoluteFill} onPress={handleTogglePlayback} />
+        <PaneLabel
+          label={`Rebuttal ${index + 1}${hasNextPage ? '' : `/${rebuttals.length}`}`}
+          video={item}
+          isAudible={!rebuttalPlayerProps.muted}
+          onAudioPress={() => handleAudioPress('rebuttal')}
+        />
+      </View>
+    ),
+    [paneWidth, paneHeight, rebuttalPlayerProps.isActive, rebuttalPlayerProps.muted, hasNextPage, rebuttals.length, handleTogglePlayback, handleAudioPress]
+  );
+
+  const takeVideo = consensus.video;
+
+  if (consensus.isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <ActivityIndicator size="large" color="#fff" />
+      </View>
+    );
+  }
+
+  if (consensus.isError || !takeVideo) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ headerShown: false }} />
+        <Text style={styles.emptyTitle}>Debate not found</Text>
+        <TouchableOpacity style={styles.emptyButton} onPress={handleBackPress}>
+          <Text style={styles.emptyButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const takePlayerProps = controller.playerProps('take');
+  const agreePercent = consensus.agreePercent;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Debate</Text>
+        <TouchableOpacity onPress={handleTogglePlayback} style={styles.headerButton}>
+          <Ionicons name={controller.isPlaying ? 'pause' : 'play'} size={22} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.panes, isSideBySide ? styles.panesRow : styles.panesColumn]}>
+        {/* The take */}
+        <View style={{ width: paneWidth, height: paneHeight }}>
+          <VideoPlayer
+            videoUrl={takeVideo.video_url}
+            playbackUrl={takeVideo.playback_url}
+            videoId={takeVideo.id}
+            isActive={takePlayerProps.isActive}
+            muted={takePlayerProps.muted}
+            hideProgressBar
+          />
+          <Pressable style={StyleSheet.absoluteFill} onPress={handleTogglePlayback} />
+          <PaneLabel
+            label="The take"
+            video={takeVideo}
+            isAudible={!takePlayerProps.muted}
+            onAudioPress={() => handleAudioPress('take')}
+          />
+        </View>
+
+        {/* Consensus bar (between panes when stacked) */}
+        {!isSideBySide && (
+          <ConsensusBar agreePercent={agreePercent} total={consensus.total} />
+        )}
+
+        {/* Rebuttals — swipe horizontally to cycle */}
+        <View style={{ width: paneWidth, height: paneHeight }}>
+          {isLoadingRebuttals ? (
+            <View style={[styles.emptyPane, styles.centered]}>
+              <ActivityIndicator color="#fff" />
+            </View>
+          ) : rebuttals.length === 0 ? (
+            <View style={[styles.emptyPane, styles.centered]}>
+              <Ionicons name="chatbubbles-outline" size={32} color="rgba(255,255,255,0.25)" />
+              <Text style={styles.emptyTitle}>No rebuttals yet</Text>
+              <TouchableOpacity style={styles.emptyButton} onPress={handleRebut} activeOpacity={0.8}>
+                <Ionicons name="close" size={16} color="#fff" />
+                <Text style={styles.emptyButtonText}>Disagree on camera</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <FlatList
+              data={rebuttals}
+              renderItem={renderRebuttal}
+              keyExtractor={keyExtractor}
+              extraData={`${activeIndex}-${controller.isPlaying}-${controller.audioSide}`}
+              horizontal
+              pagingEnabled
+              showsHorizontalScrollIndicator={false}
+              onScroll={handleScroll}
+              scrollEventThrottle={16}
+              getItemLayout={getItemLayout}
+              onEndReached={handleEndReached}
+              onEndReachedThreshold={0.5}
+              maxToRenderPerBatch={2}
+              windowSize={3}
+              initialNumToRender={1}
+            />
+          )}
+        </View>
+      </View>
+
+      {isSideBySide && <ConsensusBar agreePercent={agreePercent} total={consensus.total} />}
+
+      {/* Paused indicator over both panes */}
+      {!controller.isPlaying && (
+        <View style={styles.pausedOverlay} pointerEvents="none">
+          <Ionicons name="play" size={64} color="rgba(255, 255, 255, 0.8)" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+interface ConsensusBarProps {
+  agreePercent: number | null;
+  total: number;
+}
+
+// Live agree/disagree split from the take's vote counts
+function ConsensusBar({ agreePercent, total }: ConsensusBarProps) {
+  return (
+    <View style={styles.consensusContainer}>
+      {agreePercent === null ? (
+        <Text style={styles.consensusEmpty}>No votes yet</Text>
+      ) : (
+        <>
+          <View style={styles.consensusLabels}>
+            <Text style={[styles.consensusLabel, styles.agreeText]}>{agreePercent}% agree</Text>
+            <Text style={styles.consensusTotal}>{total} votes</Text>
+            <Text style={[styles.consensusLabel, styles.disagreeText]}>
+              {100 - agreePercent}% disagree
+            </Text>
+          </View>
+          <View style={styles.consensusTrack}>
+            <View style={[styles.consensusAgree, { flex: agreePercent }]} />
+            <View style={[styles.consensusDisagree, { flex: 100 - agreePercent }]} />
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    height: HEADER_HEIGHT,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#EDEDED',
+  },
+  panes: {
+    overflow: 'hidden',
+  },
+  panesRow: {
+    flexDirection: 'row',
+  },
+  panesColumn: {
+    flexDirection: 'column',
+  },
+  // Pane overlays
+  paneTopRow: {
+    position: 'absolute',
+    top: 10,
+    left: 10,
+    right: 10,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  paneTag: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.55)',
+  },
+  paneTagText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+  },
+  audioButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  audioButtonActive: {
+    backgroundColor: 'rgba(255, 45, 85, 0.85)',
+  },
+  paneBottom: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 10,
+  },
+  paneUsername: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+  paneTitle: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 13,
+    marginTop: 2,
+    textShadowColor: 'rgba(0, 0, 0, 0.5)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 3,
+  },
+  pausedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  // Consensus bar
+  consensusContainer: {
+    height: CONSENSUS_BAR_HEIGHT,
+    justifyContent: 'center',
+    paddingHorizontal: 12,
+    gap: 4,
+    backgroundColor: '#0C0C0C',
+  },
+  consensusLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  consensusLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  agreeText: {
+    color: '#34C759',
+  },
+  disagreeText: {
+    color: '#FF3B30',
+  },
+  consensusTotal: {
+    fontSize: 11,
+    color: 'rgba(255, 255, 255, 0.4)',
+  },
+  consensusTrack: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  consensusAgree: {
+    backgroundColor: '#34C759',
+  },
+  consensusDisagree: {
+    backgroundColor: '#FF3B30',
+  },
+  consensusEmpty: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.4)',
+    textAlign: 'center',
+  },
+  // Empty rebuttal pane
+  emptyPane: {
+    flex: 1,
+    gap: 10,
+    backgroundColor: '#0C0C0C',
+  },
+  emptyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: 'rgba(255, 255, 255, 0.6)',
+  },
+  emptyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#FF3B30',
+    marginTop: 6,
+  },
+  emptyButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
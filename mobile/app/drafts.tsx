@@ -0,0 +1,330 @@
+// ============================================================================
+// LewReviews Mobile - Drafts Screen
+// ============================================================================
+// Reviews saved on this device (lib/drafts.ts). Drafts can be edited in
+// Create, published or discarded. Published drafts sit in the outbox until
+// useResumableUploads gets them to the server, so a take recorded offline
+// posts once the connection is back. Reached from the Create screen.
+// ============================================================================
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../lib/auth';
+import {
+  useDraftsStore,
+  deleteDraft,
+  queueDraft,
+  unqueueDraft,
+  isDraftComplete,
+} from '../lib/drafts';
+import { listUploadSessions } from '../lib/resumableUpload';
+import { processUploadOutbox } from '../hooks/useResumableUploads';
+import { formatRelativeTime } from '../components/video/ReplyListItem';
+import { RATING_EMOJIS } from '../types';
+import type { ReviewDraft } from '../types';
+
+// How often upload progress is refreshed while something is in the outbox
+const PROGRESS_INTERVAL_MS = 2000;
+
+function statusText(draft: ReviewDraft, uploadPercent: number | undefined): string {
+  if (draft.status === 'queued') {
+    return uploadPercent !== undefined ? `Uploading ${uploadPercent}%` : 'Waiting for connection';
+  }
+  if (draft.status === 'failed') {
+    return draft.error ? `Failed: ${draft.error}` : 'Failed to post';
+  }
+  return `Saved ${formatRelativeTime(new Date(draft.updatedAt).toISOString())}`;
+}
+
+function DraftRow({
+  draft,
+  uploadPercent,
+  onPress,
+  onPublish,
+  onDiscard,
+}: {
+  draft: ReviewDraft;
+  uploadPercent: number | undefined;
+  onPress: (draft: ReviewDraft) => void;
+  onPublish: (draft: ReviewDraft) => void;
+  onDiscard: (draft: ReviewDraft) => void;
+}) {
+  const isQueued = draft.status === 'queued';
+  const meta = [draft.movieTitle.trim(), draft.rating ? RATING_EMOJIS[draft.rating] : null]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <TouchableOpacity style={styles.row} onPress={() => onPress(draft)} activeOpacity={0.7}>
+      {draft.thumbnailUri ? (
+        <Image source={{ uri: draft.thumbnailUri }} style={styles.thumbnail} contentFit="cover" />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailEmpty]}>
+          <Ionicons name="videocam" size={18} color="rgba(255,255,255,0.3)" />
+        </View>
+      )}
+
+      <View style={styles.rowBody}>
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {draft.title.trim() || 'Untitled take'}
+        </Text>
+        {!!meta && (
+          <Text style={styles.rowMeta} numberOfLines={1}>
+            {meta}
+          </Text>
+        )}
+        <Text
+          style={[styles.rowStatus, draft.status === 'failed' && styles.rowStatusFailed]}
+          numberOfLines={2}
+        >
+          {statusText(draft, uploadPercent)}
+        </Text>
+      </View>
+
+      {!isQueued && (
+        <TouchableOpacity style={styles.publishButton} onPress={() => onPublish(draft)}>
+          <Text style={styles.publishText}>Post</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity style={styles.iconButton} onPress={() => onDiscard(draft)}>
+        <Ionicons name="trash-outline" size={20} color="rgba(255,255,255,0.5)" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+}
+
+export default function DraftsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const allDrafts = useDraftsStore((state) => state.drafts);
+  const [uploadPercents, setUploadPercents] = useState<Record<string, number>>({});
+
+  const drafts = useMemo(
+    () =>
+      Object.values(allDrafts)
+        .filter((draft) => draft.userId === user?.id)
+        .sort((a, b) => b.updatedAt - a.updatedAt),
+    [allDrafts, user?.id]
+  );
+  const hasQueued = drafts.some((draft) => draft.status === 'queued');
+
+  // Progress of outbox uploads comes from their resumable sessions
+  useEffect(() => {
+    if (!user || !hasQueued) return;
+
+    const refresh = async () => {
+      const percents: Record<string, number> = {};
+      for (const session of await listUploadSessions(user.id)) {
+        if (session.draftId && session.offset > 0) {
+          percents[session.draftId] = Math.floor((session.offset / session.size) * 100);
+        }
+      }
+      setUploadPercents(percents);
+    };
+
+    refresh();
+    const interval = setInterval(refresh, PROGRESS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, hasQueued]);
+
+  const handleBackPress = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleEdit = useCallback(
+    (draft: ReviewDraft) => {
+      router.navigate({ pathname: '/(tabs)/create', params: { draftId: draft.id } });
+    },
+    [router]
+  );
+
+  const handleDraftPress = useCallback(
+    (draft: ReviewDraft) => {
+      if (draft.status !== 'queued') {
+        handleEdit(draft);
+        return;
+      }
+      Alert.alert('Posting', 'This review will post once you\'re online. Stop and keep it as a draft?', [
+        { text: 'Keep Posting', style: 'cancel' },
+        { text: 'Stop', onPress: () => unqueueDraft(draft.id) },
+      ]);
+    },
+    [handleEdit]
+  );
+
+  const handlePublish = useCallback(
+    (draft: ReviewDraft) => {
+      if (!user) return;
+      if (!isDraftComplete(draft)) {
+        Alert.alert('Almost there', 'Add a caption, a rating and the movie before posting.', [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Edit', onPress: () => handleEdit(draft) },
+        ]);
+        return;
+      }
+      queueDraft(draft.id);
+      processUploadOutbox(user.id, queryClient);
+    },
+    [user, queryClient, handleEdit]
+  );
+
+  const handleDiscard = useCallback((draft: ReviewDraft) => {
+    Alert.alert('Discard draft?', 'The recording will be deleted from this device.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => deleteDraft(draft.id) },
+    ]);
+  }, []);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Drafts</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <FlatList
+        data={drafts}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <DraftRow
+            draft={item}
+            uploadPercent={uploadPercents[item.id]}
+            onPress={handleDraftPress}
+            onPublish={handlePublish}
+            onDiscard={handleDiscard}
+          />
+        )}
+        contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 24 }]}
+        ListEmptyComponent={
+          <View style={styles.centered}>
+            <Ionicons name="albums-outline" size={48} color="rgba(255,255,255,0.25)" />
+            <Text style={styles.emptyText}>No drafts</Text>
+            <Text style={styles.emptySubtext}>
+              Takes you save for later, or record while offline, show up here.
+            </Text>
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  listContent: {
+    paddingVertical: 8,
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 48,
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.35)',
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 48,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  thumbnailEmpty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowBody: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.6)',
+  },
+  rowStatus: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.45)',
+  },
+  rowStatusFailed: {
+    color: '#ff3b30',
+  },
+  publishButton: {
+    backgroundColor: '#ff2d55',
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  publishText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,251 @@
+// ============================================================================
+// LewReviews Mobile - Video Insights Screen
+// ============================================================================
+// Owner-only watch time, completion rate and retention curve for a video
+// ============================================================================
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { useVideoInsights } from '../../hooks/useVideoInsights';
+
+const CHART_HEIGHT = 140;
+
+// Format seconds as "42s" or "1m 05s"
+function formatSeconds(value: number): string {
+  const total = Math.round(value);
+  if (total < 60) return `${total}s`;
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function VideoInsightsScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { id: videoId } = useLocalSearchParams<{ id: string }>();
+
+  const { data: insights, isLoading, isError, isRefetching, refetch } = useVideoInsights(videoId);
+
+  const handleBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBack} style={styles.headerButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Video insights</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#fff" />
+        </View>
+      ) : isError || !insights ? (
+        <View style={styles.centered}>
+          <Ionicons name="lock-closed-outline" size={48} color="rgba(255,255,255,0.2)" />
+          <Text style={styles.emptyText}>Insights are only available for your own videos</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor="#fff" />
+          }
+        >
+          {/* Summary stats */}
+          <View style={styles.statsGrid}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{insights.views}</Text>
+              <Text style={styles.statLabel}>Views</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{insights.unique_viewers}</Text>
+              <Text style={styles.statLabel}>Viewers</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatSeconds(insights.avg_watch_seconds)}</Text>
+              <Text style={styles.statLabel}>Avg. watch time</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{formatPercent(insights.completion_rate)}</Text>
+              <Text style={styles.statLabel}>Completion rate</Text>
+            </View>
+          </View>
+
+          {/* Retention curve */}
+          <Text style={styles.sectionTitle}>Audience retention</Text>
+          {insights.views === 0 || insights.retention.length === 0 ? (
+            <Text style={styles.sectionEmpty}>Retention appears once your video has views</Text>
+          ) : (
+            <>
+              <View style={styles.chart}>
+                {insights.retention.map((point) => (
+                  <View key={point.position_seconds} style={styles.chartColumn}>
+                    <View
+                      style={[
+                        styles.chartBar,
+                        { height: Math.max(2, point.retention * CHART_HEIGHT) },
+                      ]}
+                    />
+                  </View>
+                ))}
+              </View>
+              <View style={styles.chartAxis}>
+                <Text style={styles.chartAxisLabel}>0s</Text>
+                <Text style={styles.chartAxisLabel}>
+                  {formatSeconds(insights.duration_seconds ?? 0)}
+                </Text>
+              </View>
+              <Text style={styles.sectionCaption}>
+                Share of views still watching at each point of the video
+              </Text>
+            </>
+          )}
+
+          <Text style={styles.footnote}>
+            Total watch time: {formatSeconds(insights.total_watch_seconds)}. Views are counted once
+            per viewer per day after a few seconds of playback.
+          </Text>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0C0C0C',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.08)',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#EDEDED',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: 'rgba(255,255,255,0.4)',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 16,
+  },
+  // Summary stats
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  statCard: {
+    width: '48%',
+    flexGrow: 1,
+    paddingVertical: 16,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+    gap: 4,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  statLabel: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: 'rgba(255,255,255,0.4)',
+  },
+  // Retention chart
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#EDEDED',
+    marginTop: 28,
+    marginBottom: 12,
+  },
+  sectionEmpty: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.4)',
+  },
+  sectionCaption: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.4)',
+    marginTop: 8,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.12)',
+  },
+  chartColumn: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+    backgroundColor: '#E8C547',
+  },
+  chartAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  chartAxisLabel: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.4)',
+  },
+  footnote: {
+    fontSize: 12,
+    color: 'rgba(255,255,255,0.3)',
+    marginTop: 28,
+    lineHeight: 18,
+  },
+});
@@ -0,0 +1,6 @@
+import React from 'react';
+import ContentUnavailable from '../components/ContentUnavailable';
+
+export default function LinkUnavailableScreen() {
+  return <ContentUnavailable kind="link" />;
+}
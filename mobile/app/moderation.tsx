@@ -0,0 +1,473 @@
+// ============================================================================
+// LewReviews Mobile - Moderation Screen
+// ============================================================================
+// Moderator-only review queue for user reports plus the audit log of past
+// actions. Reached from Settings when the account has the moderator role.
+// ============================================================================
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '../lib/auth';
+import { useModerationQueue, useModerationLog, useResolveReport } from '../hooks/useModeration';
+import { formatRelativeTime } from '../components/video/ReplyListItem';
+import type { ModerationAction, ModerationActionType, ModerationQueueItem, ReportResolution } from '../types';
+
+type ModerationTab = 'queue' | 'log';
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  hide_video: 'Hid video',
+  warn_user: 'Warned user',
+  suspend_user: 'Suspended user',
+  reject: 'Rejected report',
+  auto_review: 'Auto-flagged for review',
+};
+
+const SUSPEND_OPTIONS = [1, 7, 30];
+
+function QueueItem({
+  item,
+  onResolve,
+  onProfilePress,
+}: {
+  item: ModerationQueueItem;
+  onResolve: (item: ModerationQueueItem, resolution: ReportResolution, suspendDays?: number) => void;
+  onProfilePress: (userId: string) => void;
+}) {
+  const isVideoReport = !!item.reported_video_id;
+
+  const confirm = useCallback(
+    (resolution: ReportResolution, title: string, message: string) => {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: title,
+          style: resolution === 'reject' ? 'default' : 'destructive',
+          onPress: () => onResolve(item, resolution),
+        },
+      ]);
+    },
+    [item, onResolve]
+  );
+
+  const handleSuspend = useCallback(() => {
+    Alert.alert('Suspend user', `Suspend @${item.username ?? 'unknown'} for how long?`, [
+      ...SUSPEND_OPTIONS.map((days) => ({
+        text: days === 1 ? '1 day' : `${days} days`,
+        style: 'destructive' as const,
+        onPress: () => onResolve(item, 'suspend_user', days),
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  }, [item, onResolve]);
+
+  const isSuspended = !!item.suspended_until && new Date(item.suspended_until) > new Date();
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.cardRow}>
+        {isVideoReport ? (
+          item.thumbnail_url ? (
+            <Image source={{ uri: item.thumbnail_url }} style={styles.thumbnail} contentFit="cover" />
+          ) : (
+            <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+              <Ionicons name="videocam-outline" size={22} color="rgba(255,255,255,0.4)" />
+            </View>
+          )
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+            <Ionicons name="person-outline" size={22} color="rgba(255,255,255,0.4)" />
+          </View>
+        )}
+
+        <View style={styles.cardBody}>
+          <Text style={styles.cardTitle} numberOfLines={2}>
+            {isVideoReport ? item.video_title ?? 'Untitled video' : 'Profile report'}
+          </Text>
+          {item.reported_user_id && (
+            <TouchableOpacity onPress={() => onProfilePress(item.reported_user_id!)}>
+              <Text style={styles.cardUser}>
+                @{item.username ?? 'unknown'}
+                {item.warnings_count ? ` · ${item.warnings_count} warning${item.warnings_count === 1 ? '' : 's'}` : ''}
+                {isSuspended ? ' · suspended' : ''}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.cardMeta}>
+            {item.report_count} {item.report_count === 1 ? 'report' : 'reports'} · first{' '}
+            {formatRelativeTime(item.first_reported_at)}
+            {item.video_status && item.video_status !== 'ready' ? ` · ${item.video_status.replace('_', ' ')}` : ''}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.reasonRow}>
+        {item.reasons.map((reason) => (
+          <View key={reason} style={styles.reasonChip}>
+            <Text style={styles.reasonText}>{reason}</Text>
+          </View>
+        ))}
+      </View>
+
+      {item.details.length > 0 && (
+        <Text style={styles.details} numberOfLines={3}>
+          {item.details.join(' · ')}
+        </Text>
+      )}
+
+      <View style={styles.actionRow}>
+        {isVideoReport && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.actionDestructive]}
+            onPress={() => confirm('hide_video', 'Hide video', 'Remove this video from LewReviews for everyone?')}
+          >
+            <Ionicons name="eye-off-outline" size={16} color="#fff" />
+            <Text style={styles.actionText}>Hide</Text>
+          </TouchableOpacity>
+        )}
+        {item.reported_user_id && (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => confirm('warn_user', 'Warn', `Send @${item.username ?? 'unknown'} a Community Guidelines warning?`)}
+            >
+              <Ionicons name="warning-outline" size={16} color="#fff" />
+              <Text style={styles.actionText}>Warn</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.actionDestructive]} onPress={handleSuspend}>
+              <Ionicons name="ban-outline" size={16} color="#fff" />
+              <Text style={styles.actionText}>Suspend</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => confirm('reject', 'Reject', 'Close these reports without taking action?')}
+        >
+          <Ionicons name="checkmark-outline" size={16} color="#fff" />
+          <Text style={styles.actionText}>Reject</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function LogItem({ item }: { item: ModerationAction }) {
+  const suspendedUntil = typeof item.details?.suspended_until === 'string' ? item.details.suspended_until : null;
+
+  return (
+    <View style={styles.logRow}>
+      <Text style={styles.logTitle}>
+        {ACTION_LABELS[item.action]}
+        {item.target_user ? ` @${item.target_user.username}` : ''}
+      </Text>
+      <Text style={styles.cardMeta}>
+        {item.action === 'auto_review'
+          ? `${String(item.details?.reporters ?? '')} reporters · ${formatRelativeTime(item.created_at)}`
+          : `by @${item.moderator?.username ?? 'unknown'} · ${formatRelativeTime(item.created_at)} · ${item.reports_closed} ${item.reports_closed === 1 ? 'report' : 'reports'} closed`}
+        {suspendedUntil ? ` · until ${new Date(suspendedUntil).toLocaleDateString()}` : ''}
+      </Text>
+      {item.note ? <Text style={styles.details}>{item.note}</Text> : null}
+    </View>
+  );
+}
+
+export default function ModerationScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { isModerator } = useAuth();
+  const [tab, setTab] = useState<ModerationTab>('queue');
+
+  const queue = useModerationQueue();
+  const log = useModerationLog();
+  const resolveReport = useResolveReport();
+
+  const handleBackPress = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleProfilePress = useCallback(
+    (userId: string) => {
+      router.push(`/profile/${userId}`);
+    },
+    [router]
+  );
+
+  const handleResolve = useCallback(
+    (item: ModerationQueueItem, resolution: ReportResolution, suspendDays?: number) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      resolveReport.mutate(
+        { reportId: item.report_id, resolution, suspendDays },
+        {
+          onError: (error) => {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to resolve report.');
+          },
+        }
+      );
+    },
+    [resolveReport]
+  );
+
+  const active = tab === 'queue' ? queue : log;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleBackPress} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Moderation</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!isModerator ? (
+        <View style={styles.centered}>
+          <Ionicons name="lock-closed-outline" size={48} color="rgba(255,255,255,0.25)" />
+          <Text style={styles.emptyText}>Moderators only</Text>
+        </View>
+      ) : (
+        <>
+          <View style={styles.tabs}>
+            {(['queue', 'log'] as const).map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={[styles.tab, tab === key && styles.tabActive]}
+                onPress={() => setTab(key)}
+              >
+                <Text style={[styles.tabText, tab === key && styles.tabTextActive]}>
+                  {key === 'queue'
+                    ? `Queue${queue.data?.length ? ` (${queue.data.length})` : ''}`
+                    : 'Log'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {active.isLoading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color="#ff2d55" />
+            </View>
+          ) : active.isError ? (
+            <View style={styles.centered}>
+              <Text style={styles.emptyText}>Couldn't load {tab === 'queue' ? 'the queue' : 'the log'}</Text>
+              <TouchableOpacity onPress={() => active.refetch()}>
+                <Text style={styles.retryText}>Try again</Text>
+              </TouchableOpacity>
+            </View>
+          ) : tab === 'queue' ? (
+            <FlatList
+              data={queue.data}
+              keyExtractor={(item) => item.report_id}
+              renderItem={({ item }) => (
+                <QueueItem item={item} onResolve={handleResolve} onProfilePress={handleProfilePress} />
+              )}
+              contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 24 }]}
+              refreshControl={
+                <RefreshControl refreshing={queue.isRefetching} onRefresh={queue.refetch} tintColor="#fff" />
+              }
+              ListEmptyComponent={
+                <View style={styles.centered}>
+                  <Ionicons name="checkmark-done-outline" size={48} color="rgba(255,255,255,0.25)" />
+                  <Text style={styles.emptyText}>No pending reports</Text>
+                </View>
+              }
+            />
+          ) : (
+            <FlatList
+              data={log.data}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => <LogItem item={item} />}
+              contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + 24 }]}
+              refreshControl={
+                <RefreshControl refreshing={log.isRefetching} onRefresh={log.refetch} tintColor="#fff" />
+              }
+              ListEmptyComponent={
+                <View style={styles.centered}>
+                  <Text style={styles.emptyText}>No moderation actions yet</Text>
+                </View>
+              }
+            />
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  tabs: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  tab: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  tabActive: {
+    backgroundColor: '#fff',
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.7)',
+  },
+  tabTextActive: {
+    color: '#000',
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+    flexGrow: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  retryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ff2d55',
+  },
+  card: {
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderRadius: 14,
+    padding: 12,
+    gap: 10,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  thumbnail: {
+    width: 56,
+    height: 80,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardBody: {
+    flex: 1,
+    gap: 4,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  cardUser: {
+    fontSize: 14,
+    color: '#ff2d55',
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  reasonChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,59,48,0.15)',
+  },
+  reasonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  details: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.12)',
+  },
+  actionDestructive: {
+    backgroundColor: 'rgba(255,59,48,0.35)',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  logRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+    gap: 4,
+  },
+  logTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -26,6 +26,8 @@ import * as FileSystem from 'expo-file-system/legacy';
 import { supabase, getCurrentUser, getCurrentSession } from '../../lib/supabase';
 import { STORAGE_BUCKETS, SUPABASE_URL, SUPABASE_ANON_KEY } from '../../constants/config';
 import { useFollow } from '../../hooks/useFollow';
+import { useNotificationMute } from '../../hooks/useNotificationPreferences';
+import ContentUnavailable from '../../components/ContentUnavailable';
 import { useBookmarkedVideos } from '../../hooks/useBookmarks';
 import type { Profile, Video } from '../../types';
 
@@ -41,6 +43,7 @@ interface ReplyVideo {
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const THUMBNAIL_SIZE = (SCREEN_WIDTH - 6) / 3;
 
 // ============================================================================
@@ -50,11 +53,28 @@ const THUMBNAIL_SIZE = (SCREEN_WIDTH - 6) / 3;
 export default function PublicProfileScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { id: userId } = useLocalSearchParams<{ id: string }>();
+  // Accepts a user id, or a username from shared /profile/<username> links
+  const { id: idOrUsername } = useLocalSearchParams<{ id: string }>();
+  const isUsernameParam = !!idOrUsername && !UUID_PATTERN.test(idOrUsername);
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState<TabType>('reviews');
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
-  const { data: bookmarkedVideos = [] } = useBookmarkedVideos();
+  const { videos: bookmarkedVideos } = useBookmarkedVideos();
+
+  const { data: resolvedUserId, isLoading: isResolvingUsername } = useQuery({
+    queryKey: ['profile-id-by-username', idOrUsername],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('username', idOrUsername!.replace(/^@/, '').toLowerCase())
+        .maybeSingle();
+      if (error) throw error;
+      return data?.id ?? null;
+    },
+    enabled: isUsernameParam,
+  });
+  const userId = isUsernameParam ? resolvedUserId ?? undefined : idOrUsername;
 
   // Handle avatar tap (own profile only) - pick and upload directly
   const handleAvatarPress = useCallback(async () => {
@@ -233,6 +253,9 @@ export default function PublicProfileScreen() {
     toggleFollow,
   } = useFollow(userId || '');
 
+  // Notification mute for this creator
+  const { isMuted, toggleMute } = useNotificationMute(userId || '');
+
   // Calculate ratio from profile
   const ratio = useMemo(() => {
     if (!profile) return 0;
@@ -291,12 +314,27 @@ export default function PublicProfileScreen() {
     await toggleFollow();
   }, [currentUser, toggleFollow, router]);
 
+  // Handle mute/unmute notifications from this creator
+  const handleMutePress = useCallback(() => {
+    if (!profile) return;
+    Alert.alert(
+      isMuted ? 'Unmute notifications' : 'Mute notifications',
+      isMuted
+        ? `You'll get notifications from @${profile.username} again.`
+        : `You won't get notifications when @${profile.username} posts or responds to your takes.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: isMuted ? 'Unmute' : 'Mute', onPress: toggleMute },
+      ]
+    );
+  }, [profile, isMuted, toggleMute]);
+
   // Handle edit profile (for own profile)
   const handleEditProfile = useCallback(() => {
     router.push('/(modals)/edit-profile');
   }, [router]);
 
-  const isLoading = isLoadingProfile || isLoadingReviews;
+  const isLoading = isResolvingUsername || isLoadingProfile || isLoadingReviews;
 
   if (isLoading && !profile) {
     return (
@@ -306,16 +344,9 @@ export default function PublicProfileScreen() {
     );
   }
 
+  // Unknown username/id, or hidden by a block in either direction
   if (!profile) {
-    return (
-      <View style={[styles.container, styles.centered, { paddingTop: insets.top }]}>
-        <TouchableOpacity style={styles.backButton} onPress={handleBackPress}>
-          <Ionicons name="arrow-back" size={24} color="#fff" />
-        </TouchableOpacity>
-        <Ionicons name="person-circle-outline" size={80} color="rgba(255, 255, 255, 0.3)" />
-        <Text style={styles.errorText}>User not found</Text>
-      </View>
-    );
+    return <ContentUnavailable kind="profile" />;
   }
 
   // Use follow hook's count which has optimistic updates
@@ -335,13 +366,23 @@ export default function PublicProfileScreen() {
         />
       }
     >
-      {/* Header — back button only */}
+      {/* Header — back button + notification mute */}
       <View style={styles.header}>
         <TouchableOpacity onPress={handleBackPress} style={styles.headerButton}>
           <Ionicons name="arrow-back" size={24} color="#fff" />
         </TouchableOpacity>
         <View style={styles.headerSpacer} />
-        <View style={styles.headerButton} />
+        {currentUser && !isOwnProfile ? (
+          <TouchableOpacity onPress={handleMutePress} style={styles.headerButton}>
+            <Ionicons
+              name={isMuted ? 'notifications-off' : 'notifications-outline'}
+              size={22}
+              color={isMuted ? 'rgba(255,255,255,0.5)' : '#fff'}
+            />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerButton} />
+        )}
       </View>
 
       {/* Profile info */}
@@ -758,9 +799,4 @@ const styles = StyleSheet.create({
   disagreeBadge: {
     backgroundColor: '#ff3b30',
   },
-  errorText: {
-    color: 'rgba(255, 255, 255, 0.6)',
-    fontSize: 16,
-    marginTop: 16,
-  },
 });
@@ -15,6 +15,7 @@ import {
   Alert,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, {
@@ -26,6 +27,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import VideoPlayer, { toggleGlobalMute, getGlobalMuted } from '../../components/video/VideoPlayer';
 import VideoCard from '../../components/video/VideoCard';
+import ContentUnavailable from '../../components/ContentUnavailable';
 import { useInfiniteResponses } from '../../hooks/useResponseChain';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
@@ -94,6 +96,8 @@ function ReplyItem({
     <View style={[styles.videoItem, { width: itemWidth, height: itemHeight }]}>
       <VideoPlayer
         videoUrl={video.video_url}
+        playbackUrl={video.playback_url}
+        videoId={video.id}
         isActive={isActive}
         isShareSheetOpen={false}
         hideProgressBar
@@ -124,6 +128,7 @@ export default function RepliesFeedScreen() {
   const screenHeightRef = useRef(SCREEN_HEIGHT);
   screenHeightRef.current = SCREEN_HEIGHT;
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const { id: rootVideoId, startReplyId } = useLocalSearchParams<{
     id: string;
     startReplyId?: string;
@@ -134,6 +139,21 @@ export default function RepliesFeedScreen() {
   const activeIndexRef = useRef(0);
   const hasScrolledToStart = useRef(false);
 
+  // Replies of a missing or blocked video are not shown (shared links included)
+  const { data: rootVideo, isLoading: isLoadingRoot, isError: isRootError } = useQuery({
+    queryKey: ['video-available', rootVideoId],
+    queryFn: async () => {
+      const { data: row, error } = await supabase
+        .from('feed_videos')
+        .select('id')
+        .eq('id', rootVideoId!)
+        .maybeSingle();
+      if (error) throw error;
+      return row;
+    },
+    enabled: !!rootVideoId,
+  });
+
   // Fetch all replies for the root video
   const {
     data,
@@ -235,7 +255,7 @@ export default function RepliesFeedScreen() {
 
   const handleResponsePress = useCallback(
     (videoId: string, agree?: boolean) => {
-      const params: Record<string, string> = { parentVideoId: rootVideoId! };
+      const params: Record<string, string> = { parentVideoId: videoId };
       if (agree !== undefined) {
         params.agreeDisagree = agree.toString();
       }
@@ -244,7 +264,7 @@ export default function RepliesFeedScreen() {
         params,
       });
     },
-    [router, rootVideoId]
+    [router]
   );
 
   const handleReportVideo = useCallback(
@@ -277,10 +297,13 @@ export default function RepliesFeedScreen() {
         Alert.alert('Error', 'Failed to block user. Please try again.');
         return;
       }
+      // feed_videos hides blocked creators server-side; refetch to drop them
+      queryClient.invalidateQueries({ queryKey: ['video-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['feed'] });
       Alert.alert('Blocked', `@${username} has been blocked.`);
       if (router.canGoBack()) router.back();
     },
-    [user?.id, router]
+    [user?.id, router, queryClient]
   );
 
   const getItemLayout = useCallback(
@@ -314,7 +337,7 @@ export default function RepliesFeedScreen() {
     [SCREEN_WIDTH, SCREEN_HEIGHT, user?.id, insets.bottom, insets.top, handleProfilePress, handleResponsePress, handleReportVideo, handleBlockUser, handleBackPress]
   );
 
-  if (isLoading) {
+  if (isLoading || isLoadingRoot) {
     return (
       <View style={[styles.container, styles.centered]}>
         <Stack.Screen options={{ headerShown: false }} />
@@ -323,6 +346,10 @@ export default function RepliesFeedScreen() {
     );
   }
 
+  if (isRootError || !rootVideo) {
+    return <ContentUnavailable kind="video" />;
+  }
+
   if (feedVideos.length === 0) {
     return (
       <View style={[styles.container, styles.centered]}>
@@ -7,9 +7,11 @@ import {
   View,
   Text,
   StyleSheet,
+  ScrollView,
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -17,13 +19,72 @@ import { useRouter } from 'expo-router';
 import { getCurrentSession } from '../lib/supabase';
 import { useAuth } from '../lib/auth';
 import { SUPABASE_URL } from '../constants/config';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+  useMutedCreators,
+  useNotificationMute,
+} from '../hooks/useNotificationPreferences';
+import type { MutedCreator, NotificationPreferences } from '../types';
+
+type NotificationSwitch = 'new_review' | 'response_agree' | 'response_disagree' | 'new_follower';
+
+const NOTIFICATION_SWITCHES: { key: NotificationSwitch; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: 'new_review', label: 'New reviews from people you follow', icon: 'videocam-outline' },
+  { key: 'response_agree', label: 'Agrees with your takes', icon: 'thumbs-up-outline' },
+  { key: 'response_disagree', label: 'Disagrees with your takes', icon: 'thumbs-down-outline' },
+  { key: 'new_follower', label: 'New followers', icon: 'person-add-outline' },
+];
+
+// Quiet hours default to 10 PM – 8 AM when first switched on
+const DEFAULT_QUIET_START = '22:00:00';
+const DEFAULT_QUIET_END = '08:00:00';
+
+function parseHour(time: string): number {
+  return parseInt(time.slice(0, 2), 10) || 0;
+}
+
+function formatHour(time: string): string {
+  const hour = parseHour(time);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
+// Move a quiet hours bound by one hour, skipping over the other bound
+function stepHour(time: string, delta: number, other: string): string {
+  let hour = (parseHour(time) + delta + 24) % 24;
+  if (hour === parseHour(other)) {
+    hour = (hour + delta + 24) % 24;
+  }
+  return `${String(hour).padStart(2, '0')}:00:00`;
+}
+
+function MutedCreatorRow({ mute }: { mute: MutedCreator }) {
+  const { toggleMute } = useNotificationMute(mute.muted_user_id);
+
+  return (
+    <View style={styles.settingsRow}>
+      <View style={styles.settingsRowLeft}>
+        <Ionicons name="notifications-off-outline" size={22} color="#fff" />
+        <Text style={styles.settingsRowText}>@{mute.profile?.username ?? 'unknown'}</Text>
+      </View>
+      <TouchableOpacity onPress={toggleMute}>
+        <Text style={styles.linkText}>Unmute</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
 
 export default function SettingsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
-  const { signOut } = useAuth();
+  const { signOut, isModerator } = useAuth();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const { data: notificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES } = useNotificationPreferences();
+  const updateNotificationPreferences = useUpdateNotificationPreferences();
+  const { data: mutedCreators = [] } = useMutedCreators();
 
   const handleBackPress = useCallback(() => {
     router.back();
@@ -122,6 +183,47 @@ export default function SettingsScreen() {
     router.push('/community-guidelines');
   }, [router]);
 
+  const handleOpenModeration = useCallback(() => {
+    router.push('/moderation');
+  }, [router]);
+
+  const savePreferences = useCallback(
+    (changes: Partial<NotificationPreferences>) => {
+      updateNotificationPreferences.mutate(changes, {
+        onError: () => {
+          Alert.alert('Error', 'Failed to save notification settings. Please try again.');
+        },
+      });
+    },
+    [updateNotificationPreferences]
+  );
+
+  const { quiet_hours_start: quietStart, quiet_hours_end: quietEnd } = notificationPreferences;
+  const quietHoursEnabled = !!quietStart && !!quietEnd;
+
+  const handleToggleQuietHours = useCallback(
+    (enabled: boolean) => {
+      savePreferences(
+        enabled
+          ? { quiet_hours_start: DEFAULT_QUIET_START, quiet_hours_end: DEFAULT_QUIET_END }
+          : { quiet_hours_start: null, quiet_hours_end: null }
+      );
+    },
+    [savePreferences]
+  );
+
+  const handleStepQuietHours = useCallback(
+    (bound: 'start' | 'end', delta: number) => {
+      if (!quietStart || !quietEnd) return;
+      savePreferences(
+        bound === 'start'
+          ? { quiet_hours_start: stepHour(quietStart, delta, quietEnd) }
+          : { quiet_hours_end: stepHour(quietEnd, delta, quietStart) }
+      );
+    },
+    [quietStart, quietEnd, savePreferences]
+  );
+
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
       {/* Header */}
@@ -134,76 +236,157 @@ export default function SettingsScreen() {
       </View>
 
       {/* Settings List */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Account</Text>
-
-        <TouchableOpacity
-          style={styles.settingsRow}
-          onPress={handleLogout}
-          disabled={isLoggingOut}
-        >
-          <View style={styles.settingsRowLeft}>
-            <Ionicons name="log-out-outline" size={22} color="#fff" />
-            <Text style={styles.settingsRowText}>Log Out</Text>
+      <ScrollView contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Account</Text>
+
+          <TouchableOpacity
+            style={styles.settingsRow}
+            onPress={handleLogout}
+            disabled={isLoggingOut}
+          >
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="log-out-outline" size={22} color="#fff" />
+              <Text style={styles.settingsRowText}>Log Out</Text>
+            </View>
+            {isLoggingOut ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingsRow}
+            onPress={handleDeleteAccount}
+            disabled={isDeletingAccount}
+          >
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="trash-outline" size={22} color="#ff3b30" />
+              <Text style={[styles.settingsRowText, styles.destructiveText]}>
+                Delete Account
+              </Text>
+            </View>
+            {isDeletingAccount ? (
+              <ActivityIndicator size="small" color="#ff3b30" />
+            ) : (
+              <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+
+          {NOTIFICATION_SWITCHES.map(({ key, label, icon }) => (
+            <View key={key} style={styles.settingsRow}>
+              <View style={styles.settingsRowLeft}>
+                <Ionicons name={icon} size={22} color="#fff" />
+                <Text style={styles.settingsRowText}>{label}</Text>
+              </View>
+              <Switch
+                value={notificationPreferences[key]}
+                onValueChange={(value) => savePreferences({ [key]: value })}
+                trackColor={{ true: '#ff2d55' }}
+              />
+            </View>
+          ))}
+
+          <View style={styles.settingsRow}>
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="moon-outline" size={22} color="#fff" />
+              <Text style={styles.settingsRowText}>Quiet hours</Text>
+            </View>
+            <Switch
+              value={quietHoursEnabled}
+              onValueChange={handleToggleQuietHours}
+              trackColor={{ true: '#ff2d55' }}
+            />
           </View>
-          {isLoggingOut ? (
-            <ActivityIndicator size="small" color="#fff" />
-          ) : (
-            <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+
+          {quietHoursEnabled && quietStart && quietEnd && (
+            <>
+              {(['start', 'end'] as const).map((bound) => (
+                <View key={bound} style={styles.settingsRow}>
+                  <Text style={[styles.settingsRowText, styles.indentedText]}>
+                    {bound === 'start' ? 'From' : 'Until'}
+                  </Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity onPress={() => handleStepQuietHours(bound, -1)} hitSlop={8}>
+                      <Ionicons name="chevron-back" size={20} color="rgba(255,255,255,0.6)" />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>
+                      {formatHour(bound === 'start' ? quietStart : quietEnd)}
+                    </Text>
+                    <TouchableOpacity onPress={() => handleStepQuietHours(bound, 1)} hitSlop={8}>
+                      <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.6)" />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+              <Text style={styles.hintText}>
+                Pushes are held back until quiet hours end. You'll still find everything in Activity right away.
+              </Text>
+            </>
           )}
-        </TouchableOpacity>
+        </View>
 
-        <TouchableOpacity
-          style={styles.settingsRow}
-          onPress={handleDeleteAccount}
-          disabled={isDeletingAccount}
-        >
-          <View style={styles.settingsRowLeft}>
-            <Ionicons name="trash-outline" size={22} color="#ff3b30" />
-            <Text style={[styles.settingsRowText, styles.destructiveText]}>
-              Delete Account
-            </Text>
+        {mutedCreators.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Muted Accounts</Text>
+            {mutedCreators.map((mute) => (
+              <MutedCreatorRow key={mute.muted_user_id} mute={mute} />
+            ))}
           </View>
-          {isDeletingAccount ? (
-            <ActivityIndicator size="small" color="#ff3b30" />
-          ) : (
-            <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
-          )}
-        </TouchableOpacity>
-      </View>
+        )}
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Legal</Text>
+        {isModerator && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Moderation</Text>
 
-        <TouchableOpacity style={styles.settingsRow} onPress={handleOpenPrivacyPolicy}>
-          <View style={styles.settingsRowLeft}>
-            <Ionicons name="shield-outline" size={22} color="#fff" />
-            <Text style={styles.settingsRowText}>Privacy Policy</Text>
+            <TouchableOpacity style={styles.settingsRow} onPress={handleOpenModeration}>
+              <View style={styles.settingsRowLeft}>
+                <Ionicons name="flag-outline" size={22} color="#fff" />
+                <Text style={styles.settingsRowText}>Review Queue</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+            </TouchableOpacity>
           </View>
-          <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
-        </TouchableOpacity>
+        )}
 
-        <TouchableOpacity style={styles.settingsRow} onPress={handleOpenTerms}>
-          <View style={styles.settingsRowLeft}>
-            <Ionicons name="document-text-outline" size={22} color="#fff" />
-            <Text style={styles.settingsRowText}>Terms of Service</Text>
-          </View>
-          <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
-        </TouchableOpacity>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Legal</Text>
 
-        <TouchableOpacity style={styles.settingsRow} onPress={handleOpenCommunityGuidelines}>
-          <View style={styles.settingsRowLeft}>
-            <Ionicons name="people-outline" size={22} color="#fff" />
-            <Text style={styles.settingsRowText}>Community Guidelines</Text>
-          </View>
-          <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
-        </TouchableOpacity>
-      </View>
+          <TouchableOpacity style={styles.settingsRow} onPress={handleOpenPrivacyPolicy}>
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="shield-outline" size={22} color="#fff" />
+              <Text style={styles.settingsRowText}>Privacy Policy</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+          </TouchableOpacity>
 
-      {/* App Version */}
-      <View style={styles.footer}>
-        <Text style={styles.versionText}>LewReviews v1.0.0</Text>
-      </View>
+          <TouchableOpacity style={styles.settingsRow} onPress={handleOpenTerms}>
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="document-text-outline" size={22} color="#fff" />
+              <Text style={styles.settingsRowText}>Terms of Service</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingsRow} onPress={handleOpenCommunityGuidelines}>
+            <View style={styles.settingsRowLeft}>
+              <Ionicons name="people-outline" size={22} color="#fff" />
+              <Text style={styles.settingsRowText}>Community Guidelines</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="rgba(255,255,255,0.4)" />
+          </TouchableOpacity>
+        </View>
+
+        {/* App Version */}
+        <View style={styles.footer}>
+          <Text style={styles.versionText}>LewReviews v1.0.0</Text>
+        </View>
+      </ScrollView>
     </View>
   );
 }
@@ -268,11 +451,33 @@ const styles = StyleSheet.create({
   destructiveText: {
     color: '#ff3b30',
   },
+  indentedText: {
+    marginLeft: 34,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    minWidth: 52,
+    fontSize: 16,
+    color: '#fff',
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.4)',
+    marginTop: 8,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ff2d55',
+  },
   footer: {
-    position: 'absolute',
-    bottom: 40,
-    left: 0,
-    right: 0,
+    marginTop: 40,
     alignItems: 'center',
   },
   versionText: {
@@ -27,11 +27,16 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useQueryClient } from '@tanstack/react-query';
 import { useResponseChain } from '../../hooks/useResponseChain';
-import { toggleGlobalMute, getGlobalMuted } from '../../components/video/VideoPlayer';
+import { getResponseTargetId, removeVideoStreams } from '../../lib/video';
+import { buildShareUrl } from '../../lib/deepLinks';
+import { prefetchShareCard } from '../../lib/shareCards';
+import { toggleGlobalMute, getGlobalMuted, getVideoSource } from '../../components/video/VideoPlayer';
 import RepliesDrawer from '../../components/video/RepliesDrawer';
+import ContentUnavailable from '../../components/ContentUnavailable';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
 import { useBookmarks } from '../../hooks/useBookmarks';
+import { useViewTracking } from '../../hooks/useViewTracking';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -54,9 +59,9 @@ export default function VideoDetailScreen() {
     responseCounts,
     parentVideo,
     isResponse,
+    debateTree,
     isLoading,
     isError,
-    error,
   } = useResponseChain(id);
 
   const isOwnVideo = !!(user?.id && video?.user_id && user.id === video.user_id);
@@ -86,12 +91,27 @@ export default function VideoDetailScreen() {
 
   // Video player setup
   const [isMuted, setIsMuted] = useState(() => getGlobalMuted());
-  const player = useVideoPlayer(video?.video_url || '', (playerInstance) => {
+  const player = useVideoPlayer(getVideoSource(video?.video_url || '', video?.playback_url), (playerInstance) => {
     playerInstance.loop = true;
     playerInstance.muted = getGlobalMuted();
     playerInstance.play();
   });
 
+  useViewTracking(video?.id, player, true);
+
+  // A broken or missing playlist falls back to the MP4 once
+  const fellBackRef = useRef(false);
+  useEffect(() => {
+    if (!player || !video?.playback_url) return;
+    const sub = player.addListener('statusChange', ({ status }) => {
+      if (status === 'error' && !fellBackRef.current) {
+        fellBackRef.current = true;
+        player.replaceAsync(video.video_url);
+      }
+    });
+    return () => sub.remove();
+  }, [player, video?.playback_url, video?.video_url]);
+
   // Ensure video plays when data loads (player may be created before URL is available)
   useEffect(() => {
     if (player && video?.video_url) {
@@ -173,16 +193,24 @@ export default function VideoDetailScreen() {
   const handleRespondPress = () => {
     if (!video) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    // Always target root video for flat reply structure
-    const targetId = isResponse
-      ? (video.root_video_id || video.parent_video_id || video.id)
-      : video.id;
     router.push({
       pathname: '/(modals)/response-upload',
-      params: { parentVideoId: targetId },
+      params: { parentVideoId: getResponseTargetId(video) },
     });
   };
 
+  const handleDebatePress = () => {
+    if (!video) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push(`/debate/${video.id}`);
+  };
+
+  const handleParentPress = () => {
+    if (!parentVideo) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push(`/video/${parentVideo.id}`);
+  };
+
   const handleProfilePress = () => {
     if (!video) return;
     router.push(`/profile/${video.user_id}`);
@@ -247,14 +275,15 @@ export default function VideoDetailScreen() {
       ? `Check out this response to "${video.title}" by @${video.username} on LewReviews`
       : `Check out "${video.title}" by @${video.username} on LewReviews`;
 
+    prefetchShareCard(video.id);
+
     // Save current playing state before the share sheet can pause the video
     wasPlayingBeforeShare.current = player.playing;
 
     try {
       await Share.share({
         message: shareMessage,
-        // TODO: Add deep link URL when universal links are configured
-        // url: `https://lewreviews.app/video/${video.id}`,
+        url: buildShareUrl('video', video.id),
       });
     } catch {
       // User cancelled or share failed - no action needed
@@ -287,6 +316,9 @@ export default function VideoDetailScreen() {
         }
       }
 
+      // Delete from storage (HLS renditions)
+      await removeVideoStreams(video);
+
       // Delete from database
       const { error: deleteError } = await supabase.from('videos').delete().eq('id', video.id);
       if (deleteError) throw deleteError;
@@ -321,15 +353,20 @@ export default function VideoDetailScreen() {
 
   const showFollowButton = !isOwnVideo && !isFollowing && !!user?.id;
 
+  const handleInsightsPress = useCallback(() => {
+    if (!video?.id) return;
+    router.push(`/insights/${video.id}`);
+  }, [router, video?.id]);
+
   const handleMorePress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
     if (Platform.OS === 'ios') {
       const options = isOwnVideo
-        ? ['Delete Video', 'Cancel']
+        ? ['Video Insights', 'Delete Video', 'Cancel']
         : ['Report Video', 'Cancel'];
-      const destructiveButtonIndex = isOwnVideo ? 0 : undefined;
-      const cancelButtonIndex = isOwnVideo ? 1 : 1;
+      const destructiveButtonIndex = isOwnVideo ? 1 : undefined;
+      const cancelButtonIndex = isOwnVideo ? 2 : 1;
 
       ActionSheetIOS.showActionSheetWithOptions(
         {
@@ -339,6 +376,8 @@ export default function VideoDetailScreen() {
         },
         (buttonIndex) => {
           if (isOwnVideo && buttonIndex === 0) {
+            handleInsightsPress();
+          } else if (isOwnVideo && buttonIndex === 1) {
             Alert.alert(
               'Delete Video',
               'Are you sure you want to delete this video? This cannot be undone.',
@@ -367,6 +406,7 @@ export default function VideoDetailScreen() {
           '',
           [
             { text: 'Cancel', style: 'cancel' },
+            { text: 'Video Insights', onPress: handleInsightsPress },
             {
               text: 'Delete Video',
               style: 'destructive',
@@ -407,7 +447,7 @@ export default function VideoDetailScreen() {
         );
       }
     }
-  }, [isOwnVideo, handleDeleteVideo]);
+  }, [isOwnVideo, handleDeleteVideo, handleInsightsPress]);
 
   if (isLoading) {
     return (
@@ -418,18 +458,9 @@ export default function VideoDetailScreen() {
     );
   }
 
-  // Error state
+  // Unknown, removed or blocked video (also where shared links to them land)
   if (isError || !video) {
-    return (
-      <View style={[styles.container, styles.centered]}>
-        <Text style={styles.errorText}>
-          {error?.message || 'Video not found'}
-        </Text>
-        <TouchableOpacity style={styles.retryButton} onPress={handleBackPress}>
-          <Text style={styles.retryButtonText}>Go Back</Text>
-        </TouchableOpacity>
-      </View>
-    );
+    return <ContentUnavailable kind="video" />;
   }
 
   return (
@@ -495,8 +526,8 @@ export default function VideoDetailScreen() {
 
       {/* Right side action buttons */}
       <View style={[styles.actionsContainer, { bottom: insets.bottom + 30 }]}>
-        {/* View responses button — only show on root videos with replies (no nested chains) */}
-        {!isResponse && responseCounts.total > 0 && (
+        {/* View responses button — roots and responses can both have rebuttals */}
+        {responseCounts.total > 0 && (
           <TouchableOpacity
             style={styles.actionButton}
             onPress={handleViewResponses}
@@ -514,6 +545,18 @@ export default function VideoDetailScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Debate view — this take side by side with its rebuttals */}
+        {responseCounts.disagree > 0 && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleDebatePress}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="git-compare-outline" size={35} color="#fff" />
+            <Text style={styles.actionText}>Debate</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Stance icon — only on response videos */}
         {isResponse && (
           <View style={styles.actionButton}>
@@ -580,6 +623,15 @@ export default function VideoDetailScreen() {
 
       {/* Bottom content: avatar + username, title */}
       <View style={[styles.bottomContent, { paddingBottom: insets.bottom + 28 }]}>
+        {isResponse && parentVideo && (
+          <TouchableOpacity style={styles.parentChip} onPress={handleParentPress} activeOpacity={0.7}>
+            <Ionicons name="return-up-back" size={14} color="rgba(255,255,255,0.8)" />
+            <Text style={styles.parentChipText} numberOfLines={1}>
+              Replying to @{parentVideo.username}
+              {debateTree.nodes.length > 2 ? ` · ${debateTree.nodes.length} in debate` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
         <View style={styles.userRow}>
           <TouchableOpacity onPress={handleProfilePress} activeOpacity={0.7}>
             <View style={styles.avatarWrapper}>
@@ -654,24 +706,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#888',
   },
-  errorText: {
-    fontSize: 16,
-    color: '#ef4444',
-    textAlign: 'center',
-    marginBottom: 16,
-    paddingHorizontal: 20,
-  },
-  retryButton: {
-    paddingHorizontal: 24,
-    paddingVertical: 12,
-    backgroundColor: '#222',
-    borderRadius: 8,
-  },
-  retryButtonText: {
-    fontSize: 16,
-    color: '#fff',
-    fontWeight: '500',
-  },
   backButton: {
     position: 'absolute',
     left: 16,
@@ -796,6 +830,22 @@ const styles = StyleSheet.create({
     bottom: 0,
     width: '65%',
   },
+  parentChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginBottom: 8,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  parentChipText: {
+    color: 'rgba(255, 255, 255, 0.85)',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   username: {
     color: '#fff',
     fontSize: 18,
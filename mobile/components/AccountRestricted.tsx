@@ -0,0 +1,126 @@
+// ============================================================================
+// LewReviews Mobile - Account Restricted
+// ============================================================================
+// Explains a suspension or ban instead of letting uploads, comments, follows
+// and votes fail with generic errors. Suspended users can keep browsing;
+// banned users can only sign out.
+// ============================================================================
+
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useAuth } from '../lib/auth';
+
+interface AccountRestrictedProps {
+  // Hide the "Keep browsing" button when embedded in a tab screen
+  showContinue?: boolean;
+}
+
+function formatSuspensionEnd(dateString: string): string {
+  return new Date(dateString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function AccountRestricted({ showContinue = true }: AccountRestrictedProps) {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { accountStanding, isBanned, signOut } = useAuth();
+
+  const handleContinue = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  }, [router]);
+
+  const handleSignOut = useCallback(async () => {
+    await signOut();
+    router.replace('/(auth)/login');
+  }, [router, signOut]);
+
+  const handleOpenGuidelines = useCallback(() => {
+    router.push('/community-guidelines');
+  }, [router]);
+
+  const suspendedUntil = accountStanding?.suspended_until;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <Ionicons
+        name={isBanned ? 'ban-outline' : 'time-outline'}
+        size={64}
+        color="rgba(255, 255, 255, 0.25)"
+      />
+      <Text style={styles.title}>{isBanned ? 'Account banned' : 'Account suspended'}</Text>
+      <Text style={styles.subtitle}>
+        {isBanned
+          ? 'Your account was banned for violating our Community Guidelines. Your videos are no longer visible on LewReviews.'
+          : `Your account was suspended for violating our Community Guidelines. Until ${
+              suspendedUntil ? formatSuspensionEnd(suspendedUntil) : 'the suspension ends'
+            } you can watch videos, but you can't post, reply, comment, vote, follow, report or save.`}
+      </Text>
+
+      <TouchableOpacity onPress={handleOpenGuidelines}>
+        <Text style={styles.link}>Read the Community Guidelines</Text>
+      </TouchableOpacity>
+
+      {isBanned ? (
+        <TouchableOpacity style={styles.button} onPress={handleSignOut} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>Log Out</Text>
+        </TouchableOpacity>
+      ) : showContinue ? (
+        <TouchableOpacity style={styles.button} onPress={handleContinue} activeOpacity={0.8}>
+          <Text style={styles.buttonText}>Keep browsing</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.5)',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ff2d55',
+    marginTop: 16,
+  },
+  button: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 22,
+    backgroundColor: '#ff2d55',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
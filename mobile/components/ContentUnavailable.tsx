@@ -0,0 +1,107 @@
+// ============================================================================
+// LewReviews Mobile - Content Unavailable
+// ============================================================================
+// Fallback for links to videos, replies or profiles that don't exist, were
+// removed, or belong to someone the viewer has blocked (or who blocked them).
+// ============================================================================
+
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter, Stack } from 'expo-router';
+
+interface ContentUnavailableProps {
+  kind?: 'video' | 'profile' | 'link';
+}
+
+const COPY = {
+  video: {
+    icon: 'videocam-off-outline',
+    title: 'Video unavailable',
+  },
+  profile: {
+    icon: 'person-circle-outline',
+    title: 'Profile unavailable',
+  },
+  link: {
+    icon: 'link-outline',
+    title: "This link doesn't work",
+  },
+} as const;
+
+export default function ContentUnavailable({ kind = 'link' }: ContentUnavailableProps) {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const copy = COPY[kind];
+
+  // Links opened from outside the app have nothing to go back to
+  const handleClose = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/feed');
+    }
+  }, [router]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <TouchableOpacity style={[styles.backButton, { top: insets.top + 12 }]} onPress={handleClose}>
+        <Ionicons name="chevron-back" size={30} color="#fff" />
+      </TouchableOpacity>
+
+      <Ionicons name={copy.icon} size={64} color="rgba(255, 255, 255, 0.25)" />
+      <Text style={styles.title}>{copy.title}</Text>
+      <Text style={styles.subtitle}>
+        It may have been removed, made private, or you may not be able to see it.
+      </Text>
+      <TouchableOpacity style={styles.button} onPress={() => router.replace('/(tabs)/feed')} activeOpacity={0.8}>
+        <Text style={styles.buttonText}>Go to feed</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  backButton: {
+    position: 'absolute',
+    left: 12,
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.5)',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  button: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 22,
+    backgroundColor: '#ff2d55',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
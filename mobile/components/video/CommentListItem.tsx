@@ -0,0 +1,159 @@
+// ============================================================================
+// LewReviews Mobile - CommentListItem Component
+// Text comment row with optional stance and one level of replies
+// ============================================================================
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { formatRelativeTime } from './ReplyListItem';
+import type { VideoComment } from '../../types';
+
+interface CommentListItemProps {
+  comment: VideoComment;
+  isReply?: boolean;
+  onReplyPress?: (comment: VideoComment) => void;
+  onLongPress?: (comment: VideoComment) => void;
+}
+
+function CommentListItemInner({ comment, isReply = false, onReplyPress, onLongPress }: CommentListItemProps) {
+  const avatarSize = isReply ? 28 : 36;
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.container, isReply && styles.replyContainer, comment.isPending && styles.pending]}
+        onLongPress={() => !comment.isPending && onLongPress?.(comment)}
+        activeOpacity={0.8}
+        delayLongPress={300}
+      >
+        {/* Avatar */}
+        {comment.avatar_url ? (
+          <Image
+            source={{ uri: comment.avatar_url }}
+            style={{ width: avatarSize, height: avatarSize, borderRadius: avatarSize / 2 }}
+            contentFit="cover"
+          />
+        ) : (
+          <View style={[styles.avatarFallback, { width: avatarSize, height: avatarSize }]}>
+            <Ionicons name="person-circle-outline" size={avatarSize} color="#555" />
+          </View>
+        )}
+
+        <View style={styles.textContent}>
+          <View style={styles.topRow}>
+            <Text style={styles.username} numberOfLines={1}>
+              @{comment.username}
+            </Text>
+            {comment.agree_disagree !== null && (
+              <View
+                style={[
+                  styles.stanceBadge,
+                  comment.agree_disagree ? styles.agreeBadge : styles.disagreeBadge,
+                ]}
+              >
+                <Ionicons
+                  name={comment.agree_disagree ? 'checkmark' : 'close'}
+                  size={10}
+                  color="#fff"
+                />
+                <Text style={styles.stanceText}>
+                  {comment.agree_disagree ? 'Agrees' : 'Disagrees'}
+                </Text>
+              </View>
+            )}
+            <Text style={styles.timestamp}>
+              {comment.isPending ? 'Posting…' : formatRelativeTime(comment.created_at)}
+            </Text>
+          </View>
+          <Text style={styles.body}>{comment.body}</Text>
+          {!isReply && onReplyPress && !comment.isPending && (
+            <TouchableOpacity onPress={() => onReplyPress(comment)} hitSlop={8}>
+              <Text style={styles.replyAction}>Reply</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </TouchableOpacity>
+
+      {/* Replies (one level only) */}
+      {!isReply &&
+        comment.replies?.map((reply) => (
+          <CommentListItem key={reply.id} comment={reply} isReply onLongPress={onLongPress} />
+        ))}
+    </View>
+  );
+}
+
+const CommentListItem = React.memo(CommentListItemInner);
+export default CommentListItem;
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 10,
+  },
+  replyContainer: {
+    paddingLeft: 62,
+    paddingVertical: 6,
+  },
+  pending: {
+    opacity: 0.5,
+  },
+  avatarFallback: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  textContent: {
+    flex: 1,
+    gap: 3,
+  },
+  topRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  username: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+    flexShrink: 1,
+  },
+  stanceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 8,
+    gap: 2,
+  },
+  agreeBadge: {
+    backgroundColor: 'rgba(52, 199, 89, 0.85)',
+  },
+  disagreeBadge: {
+    backgroundColor: 'rgba(255, 59, 48, 0.85)',
+  },
+  stanceText: {
+    color: '#fff',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  timestamp: {
+    color: 'rgba(255, 255, 255, 0.4)',
+    fontSize: 12,
+  },
+  body: {
+    color: 'rgba(255, 255, 255, 0.9)',
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  replyAction: {
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+});
@@ -1,20 +1,29 @@
 // ============================================================================
 // LewReviews Mobile - RepliesDrawer Component
-// Bottom sheet showing reply previews for a video
+// Bottom sheet showing video replies and text comments for a video
 // ============================================================================
 
-import React, { useCallback, useEffect, useMemo, useRef } from 'react';
-import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import {
   BottomSheetModal,
   BottomSheetFlatList,
   BottomSheetBackdrop,
+  BottomSheetTextInput,
 } from '@gorhom/bottom-sheet';
 import { useInfiniteResponses } from '../../hooks/useResponseChain';
 import { useHasResponded } from '../../hooks/useHasResponded';
+import { useComments } from '../../hooks/useComments';
+import { useAuth } from '../../lib/auth';
 import ReplyListItem from './ReplyListItem';
+import CommentListItem from './CommentListItem';
 import type { VideoResponse } from '../../lib/video';
+import type { VideoComment } from '../../types';
+
+type DrawerTab = 'videos' | 'comments';
+
+const COMMENT_MAX_LENGTH = 500;
 
 interface RepliesDrawerProps {
   videoId: string | null;
@@ -35,6 +44,13 @@ export default function RepliesDrawer({
 }: RepliesDrawerProps) {
   const bottomSheetRef = useRef<BottomSheetModal>(null);
   const snapPoints = useMemo(() => ['50%', '85%'], []);
+  const { user, isSuspended, isBanned } = useAuth();
+  // Suspended and banned accounts can read comments but RLS refuses new ones
+  const canComment = !!user && !isSuspended && !isBanned;
+  const [activeTab, setActiveTab] = useState<DrawerTab>('videos');
+  const [draft, setDraft] = useState('');
+  const [draftStance, setDraftStance] = useState<boolean | null>(null);
+  const [replyingTo, setReplyingTo] = useState<VideoComment | null>(null);
 
   const {
     data,
@@ -46,6 +62,15 @@ export default function RepliesDrawer({
 
   const { data: hasResponded } = useHasResponded(videoId);
 
+  const {
+    comments,
+    isLoading: isLoadingComments,
+    isLoadingMore: isLoadingMoreComments,
+    loadMore: loadMoreComments,
+    postComment,
+    deleteComment,
+  } = useComments(videoId);
+
   // Flatten paginated responses
   const replies = useMemo(
     () => data?.pages.flatMap((page) => page.responses) ?? [],
@@ -62,6 +87,10 @@ export default function RepliesDrawer({
   }, [videoId]);
 
   const handleDismiss = useCallback(() => {
+    setActiveTab('videos');
+    setDraft('');
+    setDraftStance(null);
+    setReplyingTo(null);
     onClose();
   }, [onClose]);
 
@@ -113,6 +142,87 @@ export default function RepliesDrawer({
     }
   }, [videoId, onClose, onFollowUpPress]);
 
+  // ── Comments ──
+
+  const handleSubmitComment = useCallback(async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    const parentCommentId = replyingTo?.id ?? null;
+    setDraft('');
+    setDraftStance(null);
+    setReplyingTo(null);
+
+    try {
+      await postComment({ body, agreeDisagree: draftStance, parentCommentId });
+    } catch {
+      // Optimistic entry is rolled back; give the text back so it isn't lost
+      setDraft(body);
+      Alert.alert('Error', 'Failed to post comment. Please try again.');
+    }
+  }, [draft, draftStance, replyingTo, postComment]);
+
+  const handleCommentReplyPress = useCallback((comment: VideoComment) => {
+    setReplyingTo(comment);
+    setDraftStance(null);
+  }, []);
+
+  const handleCommentLongPress = useCallback(
+    (comment: VideoComment) => {
+      if (comment.user_id !== user?.id && !isOwnVideo) return;
+      Alert.alert('Delete Comment', 'Are you sure you want to delete this comment?', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteComment(comment).catch(() => {
+              Alert.alert('Error', 'Failed to delete comment. Please try again.');
+            });
+          },
+        },
+      ]);
+    },
+    [user?.id, isOwnVideo, deleteComment]
+  );
+
+  const renderComment = useCallback(
+    ({ item }: { item: VideoComment }) => (
+      <CommentListItem
+        comment={item}
+        onReplyPress={canComment ? handleCommentReplyPress : undefined}
+        onLongPress={handleCommentLongPress}
+      />
+    ),
+    [canComment, handleCommentReplyPress, handleCommentLongPress]
+  );
+
+  const commentKeyExtractor = useCallback((item: VideoComment) => item.id, []);
+
+  const renderCommentsFooter = useCallback(() => {
+    if (!isLoadingMoreComments) return null;
+    return (
+      <View style={styles.footer}>
+        <ActivityIndicator size="small" color="#fff" />
+      </View>
+    );
+  }, [isLoadingMoreComments]);
+
+  const renderCommentsEmpty = useCallback(() => {
+    if (isLoadingComments) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator size="large" color="#fff" />
+        </View>
+      );
+    }
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>No comments yet</Text>
+      </View>
+    );
+  }, [isLoadingComments]);
+
   const renderBackdrop = useCallback(
     (props: React.ComponentProps<typeof BottomSheetBackdrop>) => (
       <BottomSheetBackdrop
@@ -155,77 +265,172 @@ export default function RepliesDrawer({
       snapPoints={snapPoints}
       onDismiss={handleDismiss}
       backdropComponent={renderBackdrop}
+      keyboardBehavior="interactive"
+      keyboardBlurBehavior="restore"
+      android_keyboardInputMode="adjustResize"
       backgroundStyle={styles.background}
       handleIndicatorStyle={styles.handleIndicator}
       enablePanDownToClose
     >
-      {/* Header */}
+      {/* Header: video replies / text comments */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>
-          Replies{replies.length > 0 ? ` (${replies.length})` : ''}
-        </Text>
+        <TouchableOpacity onPress={() => setActiveTab('videos')} activeOpacity={0.7}>
+          <Text style={[styles.headerTitle, activeTab !== 'videos' && styles.headerTitleInactive]}>
+            Replies{replies.length > 0 ? ` (${replies.length})` : ''}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setActiveTab('comments')} activeOpacity={0.7}>
+          <Text style={[styles.headerTitle, activeTab !== 'comments' && styles.headerTitleInactive]}>
+            Comments{comments.length > 0 ? ` (${comments.length})` : ''}
+          </Text>
+        </TouchableOpacity>
       </View>
 
-      {/* CTA: own video = reply without stance, returning user = vote locked, new = pick a side */}
-      {isOwnVideo && onFollowUpPress ? (
-        <View style={styles.ctaBanner}>
-          <Text style={styles.ctaText}>Continue the conversation</Text>
-          <TouchableOpacity
-            style={[styles.ctaButton, styles.ctaReply]}
-            onPress={handleFollowUpPress}
-            activeOpacity={0.8}
-          >
-            <Ionicons name="chatbubble-outline" size={14} color="#fff" />
-            <Text style={styles.ctaButtonText}>Reply</Text>
-          </TouchableOpacity>
-        </View>
-      ) : hasResponded && onFollowUpPress ? (
-        <View style={styles.ctaBanner}>
-          <Text style={styles.ctaText}>Your vote is locked</Text>
-          <TouchableOpacity
-            style={[styles.ctaButton, styles.ctaReply]}
-            onPress={handleFollowUpPress}
-            activeOpacity={0.8}
-          >
-            <Ionicons name="chatbubble-outline" size={14} color="#fff" />
-            <Text style={styles.ctaButtonText}>Add reply</Text>
-          </TouchableOpacity>
-        </View>
-      ) : onRespondPress ? (
-        <View style={styles.ctaBanner}>
-          <Text style={styles.ctaText}>Got a take?</Text>
-          <View style={styles.ctaButtons}>
-            <TouchableOpacity
-              style={[styles.ctaButton, styles.ctaAgree]}
-              onPress={handleAgreePress}
-              activeOpacity={0.8}
-            >
-              <Ionicons name="checkmark" size={16} color="#fff" />
-              <Text style={styles.ctaButtonText}>Agree</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.ctaButton, styles.ctaDisagree]}
-              onPress={handleDisagreePress}
-              activeOpacity={0.8}
-            >
-              <Ionicons name="close" size={16} color="#fff" />
-              <Text style={styles.ctaButtonText}>Disagree</Text>
-            </TouchableOpacity>
-          </View>
-        </View>
-      ) : null}
-
-      {/* Reply list */}
-      <BottomSheetFlatList
-        data={replies}
-        renderItem={renderItem}
-        keyExtractor={keyExtractor}
-        onEndReached={handleEndReached}
-        onEndReachedThreshold={0.5}
-        ListFooterComponent={renderFooter}
-        ListEmptyComponent={renderEmpty}
-        contentContainerStyle={styles.listContent}
-      />
+      {activeTab === 'comments' ? (
+        <>
+          <BottomSheetFlatList
+            data={comments}
+            renderItem={renderComment}
+            keyExtractor={commentKeyExtractor}
+            onEndReached={loadMoreComments}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={renderCommentsFooter}
+            ListEmptyComponent={renderCommentsEmpty}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+          />
+
+          {/* Composer */}
+          {user && !canComment ? (
+            <View style={[styles.composer, styles.composerRestricted]}>
+              <Ionicons
+                name={isBanned ? 'ban-outline' : 'time-outline'}
+                size={16}
+                color="rgba(255, 255, 255, 0.5)"
+              />
+              <Text style={styles.composerRestrictedText}>
+                {isBanned
+                  ? 'Your account is banned, so you can\'t comment.'
+                  : 'Commenting is paused while your account is suspended.'}
+              </Text>
+            </View>
+          ) : canComment ? (
+            <View style={styles.composer}>
+              {replyingTo ? (
+                <View style={styles.composerMeta}>
+                  <Text style={styles.composerMetaText} numberOfLines={1}>
+                    Replying to @{replyingTo.username}
+                  </Text>
+                  <TouchableOpacity onPress={() => setReplyingTo(null)} hitSlop={8}>
+                    <Ionicons name="close" size={16} color="rgba(255, 255, 255, 0.6)" />
+                  </TouchableOpacity>
+                </View>
+              ) : !isOwnVideo ? (
+                <View style={styles.composerMeta}>
+                  <TouchableOpacity
+                    style={[styles.stanceChip, draftStance === true && styles.ctaAgree]}
+                    onPress={() => setDraftStance(draftStance === true ? null : true)}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="checkmark" size={13} color="#fff" />
+                    <Text style={styles.stanceChipText}>Agree</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.stanceChip, draftStance === false && styles.ctaDisagree]}
+                    onPress={() => setDraftStance(draftStance === false ? null : false)}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="close" size={13} color="#fff" />
+                    <Text style={styles.stanceChipText}>Disagree</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : null}
+              <View style={styles.composerRow}>
+                <BottomSheetTextInput
+                  style={styles.composerInput}
+                  value={draft}
+                  onChangeText={setDraft}
+                  placeholder={replyingTo ? 'Add a reply…' : 'Add a comment…'}
+                  placeholderTextColor="rgba(255, 255, 255, 0.4)"
+                  maxLength={COMMENT_MAX_LENGTH}
+                  multiline
+                />
+                <TouchableOpacity
+                  style={[styles.sendButton, !draft.trim() && styles.sendButtonDisabled]}
+                  onPress={handleSubmitComment}
+                  disabled={!draft.trim()}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="arrow-up" size={18} color="#000" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : null}
+        </>
+      ) : (
+        <>
+          {/* CTA: own video = reply without stance, returning user = vote locked, new = pick a side */}
+          {isOwnVideo && onFollowUpPress ? (
+            <View style={styles.ctaBanner}>
+              <Text style={styles.ctaText}>Continue the conversation</Text>
+              <TouchableOpacity
+                style={[styles.ctaButton, styles.ctaReply]}
+                onPress={handleFollowUpPress}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="chatbubble-outline" size={14} color="#fff" />
+                <Text style={styles.ctaButtonText}>Reply</Text>
+              </TouchableOpacity>
+            </View>
+          ) : hasResponded && onFollowUpPress ? (
+            <View style={styles.ctaBanner}>
+              <Text style={styles.ctaText}>Your vote is locked</Text>
+              <TouchableOpacity
+                style={[styles.ctaButton, styles.ctaReply]}
+                onPress={handleFollowUpPress}
+                activeOpacity={0.8}
+              >
+                <Ionicons name="chatbubble-outline" size={14} color="#fff" />
+                <Text style={styles.ctaButtonText}>Add reply</Text>
+              </TouchableOpacity>
+            </View>
+          ) : onRespondPress ? (
+            <View style={styles.ctaBanner}>
+              <Text style={styles.ctaText}>Got a take?</Text>
+              <View style={styles.ctaButtons}>
+                <TouchableOpacity
+                  style={[styles.ctaButton, styles.ctaAgree]}
+                  onPress={handleAgreePress}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="checkmark" size={16} color="#fff" />
+                  <Text style={styles.ctaButtonText}>Agree</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.ctaButton, styles.ctaDisagree]}
+                  onPress={handleDisagreePress}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="close" size={16} color="#fff" />
+                  <Text style={styles.ctaButtonText}>Disagree</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : null}
+
+          {/* Reply list */}
+          <BottomSheetFlatList
+            data={replies}
+            renderItem={renderItem}
+            keyExtractor={keyExtractor}
+            onEndReached={handleEndReached}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={renderFooter}
+            ListEmptyComponent={renderEmpty}
+            contentContainerStyle={styles.listContent}
+          />
+        </>
+      )}
     </BottomSheetModal>
   );
 }
@@ -239,7 +444,10 @@ const styles = StyleSheet.create({
     width: 36,
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'center',
     alignItems: 'center',
+    gap: 24,
     paddingVertical: 12,
     borderBottomWidth: StyleSheet.hairlineWidth,
     borderBottomColor: 'rgba(255, 255, 255, 0.1)',
@@ -249,6 +457,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  headerTitleInactive: {
+    color: 'rgba(255, 255, 255, 0.4)',
+  },
   ctaBanner: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -292,6 +503,76 @@ const styles = StyleSheet.create({
   listContent: {
     flexGrow: 1,
   },
+  composer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 24,
+    gap: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  composerRestricted: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  composerRestrictedText: {
+    flex: 1,
+    color: 'rgba(255, 255, 255, 0.5)',
+    fontSize: 13,
+  },
+  composerMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  composerMetaText: {
+    flex: 1,
+    color: 'rgba(255, 255, 255, 0.6)',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stanceChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    gap: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  stanceChipText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 100,
+    minHeight: 38,
+    paddingHorizontal: 14,
+    paddingTop: 9,
+    paddingBottom: 9,
+    borderRadius: 19,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    color: '#fff',
+    fontSize: 14,
+  },
+  sendButton: {
+    width: 38,
+    height: 38,
+    borderRadius: 19,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.4,
+  },
   footer: {
     paddingVertical: 16,
     alignItems: 'center',
@@ -14,7 +14,7 @@ interface ReplyListItemProps {
   onPress: (replyId: string) => void;
 }
 
-function formatRelativeTime(dateString: string): string {
+export function formatRelativeTime(dateString: string): string {
   const now = Date.now();
   const then = new Date(dateString).getTime();
   const diffSeconds = Math.floor((now - then) / 1000);
@@ -23,6 +23,9 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import type { FeedVideo } from '../../types';
 import { RATING_LABELS, RATING_EMOJIS } from '../../types';
+import { getResponseTargetId } from '../../lib/video';
+import { buildShareUrl } from '../../lib/deepLinks';
+import { prefetchShareCard } from '../../lib/shareCards';
 
 // Floating pill tab bar: 52px pill + ~35% safe area inset (~10px notch) + gap
 const TAB_BAR_HEIGHT = Platform.OS === 'ios' ? 84 : 72;
@@ -83,25 +86,25 @@ export default function VideoCard({
   // Consensus percentage from response videos
   const agreeCount = video.agree_responses_count || 0;
   const disagreeCount = video.disagree_responses_count || 0;
+  // Replies pill opens both video replies and text comments
+  const discussionCount = (video.responses_count || 0) + (video.comments_count || 0);
   const totalVotes = agreeCount + disagreeCount;
   const consensusPercent = totalVotes > 0 ? Math.round((agreeCount / totalVotes) * 100) : null;
 
-  // Target root video for response actions (flat reply structure)
-  const rootTargetId = isResponse
-    ? (video.root_video_id || video.parent_video_id || video.id)
-    : video.id;
+  // Rebuttals target this video directly until the chain hits its max depth
+  const responseTargetId = getResponseTargetId(video);
 
   // --- Callbacks ---
 
   const handleAgreePress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    onResponsePress(rootTargetId, true);
-  }, [rootTargetId, onResponsePress]);
+    onResponsePress(responseTargetId, true);
+  }, [responseTargetId, onResponsePress]);
 
   const handleDisagreePress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    onResponsePress(rootTargetId, false);
-  }, [rootTargetId, onResponsePress]);
+    onResponsePress(responseTargetId, false);
+  }, [responseTargetId, onResponsePress]);
 
   const handleRepliesPress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -119,8 +122,8 @@ export default function VideoCard({
 
   const handleReplyPress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    onResponsePress(rootTargetId);
-  }, [rootTargetId, onResponsePress]);
+    onResponsePress(responseTargetId);
+  }, [responseTargetId, onResponsePress]);
 
   const showFollowButton = !isOwnVideo && !isFollowingAuthor && !!onFollowPress;
 
@@ -253,15 +256,25 @@ export default function VideoCard({
       ? `Check out this response to "${video.title}" by @${video.username} on LewReviews`
       : `Check out "${video.title}" by @${video.username} on LewReviews`;
 
+    const shareUrl = buildShareUrl('video', video.id);
+
+    // Link previews show the debate card, so have it rendered before the link lands
+    prefetchShareCard(video.id);
+
     onShareSheetChange?.(true);
     try {
-      await Share.share({ message: shareMessage });
+      // Android ignores `url`, so the link rides along in the message there
+      await Share.share(
+        Platform.OS === 'ios'
+          ? { message: shareMessage, url: shareUrl }
+          : { message: `${shareMessage}\n${shareUrl}` }
+      );
     } catch {
       // User cancelled
     } finally {
       onShareSheetChange?.(false);
     }
-  }, [video.title, video.username, isResponse, onShareSheetChange]);
+  }, [video.id, video.title, video.username, isResponse, onShareSheetChange]);
 
   return (
     <Pressable style={styles.container} onPress={onTap}>
@@ -442,7 +455,7 @@ export default function VideoCard({
             </>
           )}
 
-          {/* STATE 2: Own root video — Reply, Replies, Share */}
+          {/* STATE 2: Own root video — Reply, Replies */}
           {!isResponse && isOwnVideo && (
             <>
               <TouchableOpacity
@@ -459,20 +472,12 @@ export default function VideoCard({
                 activeOpacity={0.7}
               >
                 <Ionicons name="chatbubble-outline" size={18} color="#fff" />
-                {video.responses_count > 0 && (
+                {discussionCount > 0 && (
                   <Text style={styles.actionPillText}>
-                    {formatCount(video.responses_count)}
+                    {formatCount(discussionCount)}
                   </Text>
                 )}
               </TouchableOpacity>
-              <TouchableOpacity
-                style={styles.actionPill}
-                onPress={handleShare}
-                activeOpacity={0.7}
-              >
-                <Ionicons name="share-outline" size={18} color="#fff" />
-                <Text style={styles.actionPillText}>Share</Text>
-              </TouchableOpacity>
             </>
           )}
 
@@ -530,14 +535,23 @@ export default function VideoCard({
               activeOpacity={0.7}
             >
               <Ionicons name="chatbubble-outline" size={18} color="#fff" />
-              {video.responses_count > 0 && (
+              {discussionCount > 0 && (
                 <Text style={styles.actionPillText}>
-                  {formatCount(video.responses_count)}
+                  {formatCount(discussionCount)}
                 </Text>
               )}
             </TouchableOpacity>
           )}
 
+          {/* Share button (circle) */}
+          <TouchableOpacity
+            style={styles.moreButton}
+            onPress={handleShare}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="share-outline" size={18} color="#fff" />
+          </TouchableOpacity>
+
           {/* More button (circle) */}
           <TouchableOpacity
             style={styles.moreButton}
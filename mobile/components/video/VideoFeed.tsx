@@ -20,6 +20,7 @@ import VideoCard from './VideoCard';
 import RepliesDrawer from './RepliesDrawer';
 import { useAuth } from '../../lib/auth';
 import { supabase } from '../../lib/supabase';
+import { removeVideoStreams } from '../../lib/video';
 import { useBookmarks } from '../../hooks/useBookmarks';
 import { useConsensusActivity } from '../../hooks/useConsensusActivity';
 import type { FeedVideo } from '../../types';
@@ -33,6 +34,9 @@ interface VideoFeedProps {
   hasMore: boolean;
   onRefresh: () => void;
   onLoadMore: () => void;
+  topOffset?: number; // Extra space above the overlay for screen chrome (e.g. feed mode switcher)
+  emptyText?: string;
+  emptySubtext?: string;
 }
 
 interface VideoItemProps {
@@ -107,6 +111,8 @@ function VideoItem({
     <View style={[styles.videoItem, { width: itemWidth, height: itemHeight }]}>
       <VideoPlayer
         videoUrl={video.video_url}
+        playbackUrl={video.playback_url}
+        videoId={video.id}
         isActive={isActive}
         isShareSheetOpen={isShareSheetOpen}
         onRegisterToggle={handleRegisterToggle}
@@ -143,6 +149,9 @@ export default function VideoFeed({
   hasMore,
   onRefresh,
   onLoadMore,
+  topOffset = 0,
+  emptyText = 'No videos yet',
+  emptySubtext = 'Be the first to share your opinion!',
 }: VideoFeedProps) {
   const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = useWindowDimensions();
   const insets = useSafeAreaInsets();
@@ -156,11 +165,10 @@ export default function VideoFeed({
   const isPullToRefresh = useRef(false);
   const hasInitialFocused = useRef(false);
   const savedVideoIdRef = useRef<string | null>(null);
-  const filteredVideosRef = useRef<FeedVideo[]>([]);
+  const videosRef = useRef<FeedVideo[]>([]);
   const [activeIndex, setActiveIndex] = useState(0);
   const [repliesVideoId, setRepliesVideoId] = useState<string | null>(null);
   const [isFocused, setIsFocused] = useState(true);
-  const [blockedUsersSet, setBlockedUsersSet] = useState<Set<string>>(new Set());
   const { bookmarkedIds, toggleBookmark } = useBookmarks(videos.map((v) => v.id));
   const { startOrUpdate: updateActivity, end: endActivity } = useConsensusActivity();
 
@@ -183,15 +191,15 @@ export default function VideoFeed({
     queryFn: async () => {
       const { data, error } = await supabase
         .from('videos')
-        .select('parent_video_id, root_video_id, agree_disagree')
+        .select('parent_video_id, agree_disagree')
         .eq('user_id', user!.id)
         .not('parent_video_id', 'is', null);
       if (error) throw error;
       const stances = new Map<string, boolean>();
       for (const row of data) {
-        const targetId = row.root_video_id || row.parent_video_id;
-        if (targetId && row.agree_disagree !== null) {
-          stances.set(targetId, row.agree_disagree);
+        // Stances are against the immediate parent, which may itself be a response
+        if (row.parent_video_id && row.agree_disagree !== null) {
+          stances.set(row.parent_video_id, row.agree_disagree);
         }
       }
       return stances;
@@ -200,26 +208,6 @@ export default function VideoFeed({
     staleTime: 1000 * 60,
   });
 
-  useEffect(() => {
-    if (!user?.id) {
-      setBlockedUsersSet(new Set());
-      return;
-    }
-
-    const fetchBlocked = async () => {
-      const { data, error } = await supabase
-        .from('blocked_users')
-        .select('blocked_user_id')
-        .eq('user_id', user.id);
-
-      if (!error && data) {
-        setBlockedUsersSet(new Set(data.map((b) => b.blocked_user_id)));
-      }
-    };
-
-    fetchBlocked();
-  }, [user?.id]);
-
   useEffect(() => {
     if (videos.length > 0 && !hasScrolledToTop.current) {
       hasScrolledToTop.current = true;
@@ -241,8 +229,8 @@ export default function VideoFeed({
       isFocusedRef.current = true;
       setIsFocused(true);
 
-      if (savedVideoIdRef.current && filteredVideosRef.current.length > 0) {
-        const savedIndex = filteredVideosRef.current.findIndex(
+      if (savedVideoIdRef.current && videosRef.current.length > 0) {
+        const savedIndex = videosRef.current.findIndex(
           (v) => v.id === savedVideoIdRef.current
         );
         if (savedIndex >= 0) {
@@ -262,8 +250,8 @@ export default function VideoFeed({
       return () => {
         isFocusedRef.current = false;
         setIsFocused(false);
-        if (filteredVideosRef.current.length > 0 && activeIndexRef.current < filteredVideosRef.current.length) {
-          savedVideoIdRef.current = filteredVideosRef.current[activeIndexRef.current]?.id ?? null;
+        if (videosRef.current.length > 0 && activeIndexRef.current < videosRef.current.length) {
+          savedVideoIdRef.current = videosRef.current[activeIndexRef.current]?.id ?? null;
         }
         endActivity();
       };
@@ -325,6 +313,8 @@ export default function VideoFeed({
           }
         }
 
+        await removeVideoStreams(video);
+
         const { error } = await supabase.from('videos').delete().eq('id', videoId);
         if (error) throw error;
 
@@ -382,10 +372,14 @@ export default function VideoFeed({
         return;
       }
 
-      setBlockedUsersSet((prev) => new Set(prev).add(userId));
+      // feed_videos hides blocked creators server-side; refetch to drop them
+      onRefresh();
+      queryClient.invalidateQueries({ queryKey: ['video-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['discover-trending'] });
+      queryClient.invalidateQueries({ queryKey: ['discover-hot-takes'] });
       Alert.alert('Blocked', `@${username} has been blocked. You won't see their videos anymore.`);
     },
-    [user?.id]
+    [user?.id, onRefresh, queryClient]
   );
 
   const handleFollowPress = useCallback(
@@ -401,6 +395,7 @@ export default function VideoFeed({
 
         queryClient.invalidateQueries({ queryKey: ['following-set'] });
         queryClient.invalidateQueries({ queryKey: ['follow-state', userId] });
+        queryClient.invalidateQueries({ queryKey: ['feed', undefined, undefined, 'following'] });
       } catch {
         Alert.alert('Error', 'Failed to follow user. Please try again.');
       }
@@ -450,22 +445,18 @@ export default function VideoFeed({
     setRepliesVideoId(null);
   }, []);
 
-  const filteredVideos = blockedUsersSet.size > 0
-    ? videos.filter((v) => !blockedUsersSet.has(v.user_id))
-    : videos;
-
-  filteredVideosRef.current = filteredVideos;
+  videosRef.current = videos;
 
   useEffect(() => {
-    if (filteredVideos.length > 0 && activeIndex < filteredVideos.length) {
-      const activeVideo = filteredVideos[activeIndex];
+    if (videos.length > 0 && activeIndex < videos.length) {
+      const activeVideo = videos[activeIndex];
       const agreeCount = activeVideo.agree_responses_count || 0;
       const disagreeCount = activeVideo.disagree_responses_count || 0;
       const total = agreeCount + disagreeCount;
       const percent = total > 0 ? Math.round((agreeCount / total) * 100) : null;
       updateActivity(percent, activeVideo.movie_title || null);
     }
-  }, [activeIndex, filteredVideos, updateActivity]);
+  }, [activeIndex, videos, updateActivity]);
 
   const renderItem = useCallback(
     ({ item, index }: { item: FeedVideo; index: number }) => (
@@ -485,11 +476,11 @@ export default function VideoFeed({
         onFollowPress={handleFollowPress}
         onBookmarkPress={toggleBookmark}
         isBookmarked={bookmarkedIds.has(item.id)}
-        topInset={insets.top}
+        topInset={insets.top + topOffset}
         userStance={userStances.get(item.id) ?? null}
       />
     ),
-    [SCREEN_WIDTH, SCREEN_HEIGHT, user?.id, followingSet, bookmarkedIds, userStances, toggleBookmark, handleResponsePress, handleProfilePress, handleRepliesPress, handleDeleteVideo, handleReportVideo, handleBlockUser, handleFollowPress, insets.top]
+    [SCREEN_WIDTH, SCREEN_HEIGHT, user?.id, followingSet, bookmarkedIds, userStances, toggleBookmark, handleResponsePress, handleProfilePress, handleRepliesPress, handleDeleteVideo, handleReportVideo, handleBlockUser, handleFollowPress, insets.top, topOffset]
   );
 
   const renderFooter = useCallback(() => {
@@ -512,11 +503,11 @@ export default function VideoFeed({
     }
     return (
       <View style={styles.emptyContainer}>
-        <Text style={styles.emptyText}>No videos yet</Text>
-        <Text style={styles.emptySubtext}>Be the first to share your opinion!</Text>
+        <Text style={styles.emptyText}>{emptyText}</Text>
+        <Text style={styles.emptySubtext}>{emptySubtext}</Text>
       </View>
     );
-  }, [isLoading]);
+  }, [isLoading, emptyText, emptySubtext]);
 
   const getItemLayout = useCallback(
     (_: unknown, index: number) => ({
@@ -533,10 +524,10 @@ export default function VideoFeed({
     <View style={styles.container}>
       <FlatList
         ref={flatListRef}
-        data={filteredVideos}
+        data={videos}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
-        extraData={`${activeIndex}-${isFocused}-${user?.id}-${followingSet.size}-${bookmarkedIds.size}-${blockedUsersSet.size}-${userStances.size}`}
+        extraData={`${activeIndex}-${isFocused}-${user?.id}-${followingSet.size}-${bookmarkedIds.size}-${userStances.size}`}
         snapToInterval={SCREEN_HEIGHT}
         snapToAlignment="start"
         decelerationRate="fast"
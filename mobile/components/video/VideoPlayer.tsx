@@ -1,6 +1,7 @@
 // ============================================================================
 // LewReviews Mobile - VideoPlayer Component
 // Wrapper around expo-video's VideoView with play/pause, progress, and mute
+// Streams the HLS ladder when the video has one, falling back to the MP4
 // ============================================================================
 
 import React, { useCallback, useEffect, useRef, useState } from 'react';
@@ -11,8 +12,9 @@ import {
   Platform,
   AppState,
 } from 'react-native';
-import { VideoView, useVideoPlayer, VideoPlayerStatus } from 'expo-video';
+import { VideoView, useVideoPlayer, VideoPlayerStatus, type VideoSource } from 'expo-video';
 import { Ionicons } from '@expo/vector-icons';
+import { useViewTracking } from '../../hooks/useViewTracking';
 
 import Animated, {
   useSharedValue,
@@ -54,9 +56,20 @@ export function setGlobalProgress(v: number): void {
   progressListeners.forEach((cb) => cb(v));
 }
 
+/**
+ * Player source for a video: the HLS master playlist when transcoding
+ * produced one, otherwise the progressive MP4.
+ */
+export function getVideoSource(videoUrl: string, playbackUrl?: string | null): VideoSource {
+  return playbackUrl ? { uri: playbackUrl, contentType: 'hls' } : videoUrl;
+}
+
 interface VideoPlayerProps {
   videoUrl: string;
+  playbackUrl?: string | null; // HLS master playlist, preferred over videoUrl
+  videoId?: string; // Enables qualified view tracking
   isActive: boolean;
+  muted?: boolean; // Keeps this player silent regardless of the global mute state
   isShareSheetOpen?: boolean;
   hideProgressBar?: boolean;
   onVideoEnd?: () => void;
@@ -66,7 +79,10 @@ interface VideoPlayerProps {
 
 export default function VideoPlayer({
   videoUrl,
+  playbackUrl,
+  videoId,
   isActive,
+  muted = false,
   isShareSheetOpen = false,
   hideProgressBar = false,
   onVideoEnd,
@@ -83,6 +99,9 @@ export default function VideoPlayer({
   const shouldPlayRef = useRef(isActive);
   const wasPlayingBeforeShare = useRef(false);
   const shareSheetOpenRef = useRef(isShareSheetOpen);
+  const forceMutedRef = useRef(muted);
+  forceMutedRef.current = muted;
+  const fellBackRef = useRef(false);
 
   // Animated values
   const playIconOpacity = useSharedValue(0);
@@ -91,14 +110,15 @@ export default function VideoPlayer({
 
   // Create video player instance — only auto-play if active to avoid
   // multiple players competing for playback during FlatList initial render
-  const player = useVideoPlayer(videoUrl, (p) => {
+  const player = useVideoPlayer(getVideoSource(videoUrl, playbackUrl), (p) => {
     p.loop = true;
-    p.muted = globalMuted;
+    p.muted = globalMuted || forceMutedRef.current;
     if (isActive) {
       p.play();
     }
   });
 
+  useViewTracking(videoId, player, isActive);
 
   // Handle player status changes
   useEffect(() => {
@@ -114,6 +134,15 @@ export default function VideoPlayer({
       } else if (status === 'loading') {
         setIsBuffering(true);
       } else if (status === 'error') {
+        // A broken or missing playlist falls back to the MP4 once
+        if (playbackUrl && !fellBackRef.current) {
+          fellBackRef.current = true;
+          player.replaceAsync(videoUrl).catch(() => {
+            setIsBuffering(false);
+            onError?.(new Error('Video playback error'));
+          });
+          return;
+        }
         setIsBuffering(false);
         onError?.(new Error('Video playback error'));
       }
@@ -132,7 +161,7 @@ export default function VideoPlayer({
       statusSub.remove();
       playingSub.remove();
     };
-  }, [player, onVideoEnd, onError]);
+  }, [player, playbackUrl, videoUrl, onVideoEnd, onError]);
 
   // Control playback when isActive changes
   useEffect(() => {
@@ -141,7 +170,7 @@ export default function VideoPlayer({
 
     if (isActive) {
       player.play();
-      player.muted = globalMuted;
+      player.muted = globalMuted || forceMutedRef.current;
     } else {
       player.pause();
       progressValue.value = 0;
@@ -153,8 +182,9 @@ export default function VideoPlayer({
     if (!player) return;
 
     const interval = setInterval(() => {
-      if (player.muted !== globalMuted) {
-        player.muted = globalMuted;
+      const shouldMute = globalMuted || forceMutedRef.current;
+      if (player.muted !== shouldMute) {
+        player.muted = shouldMute;
       }
       if (shouldPlayRef.current && !player.playing) {
         player.play();
@@ -174,7 +204,7 @@ export default function VideoPlayer({
     const subscription = AppState.addEventListener('change', (nextState) => {
       if (!player) return;
       if (nextState === 'active' && shouldPlayRef.current) {
-        player.muted = globalMuted;
+        player.muted = globalMuted || forceMutedRef.current;
         player.play();
       }
     });
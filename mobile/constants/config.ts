@@ -11,6 +11,8 @@ export const STORAGE_BUCKETS = {
   VIDEOS: 'videos',
   THUMBNAILS: 'thumbnails',
   AVATARS: 'avatars',
+  SHARE_CARDS: 'share-cards',
+  VIDEO_STREAMS: 'video-streams', // HLS renditions, written by the transcoder
 } as const;
 
 // Video constraints
@@ -28,13 +30,17 @@ export const COMPRESSION_SETTINGS = {
   THUMBNAIL_WIDTH: 720,
   THUMBNAIL_QUALITY: 0.8,
 
-  // For FFmpeg (if using native compression)
+  // Server-side H.264 transcode; mirrored in supabase/functions/transcode
   VIDEO_BITRATE: '2M',
   AUDIO_BITRATE: '128k',
   MAX_WIDTH: 1080,
   MAX_HEIGHT: 1920,
 } as const;
 
+// HLS ladder written under video-streams/<user_id>/<video_id>/; mirrored in
+// supabase/functions/transcode
+export const HLS_RENDITIONS = ['360p', '540p', '720p', '1080p'] as const;
+
 // Title/Description constraints (matching DB)
 export const CONTENT_CONSTRAINTS = {
   TITLE_MIN_LENGTH: 1,
@@ -42,7 +48,16 @@ export const CONTENT_CONSTRAINTS = {
   DESCRIPTION_MAX_LENGTH: 2000,
 } as const;
 
+// Deep links: custom scheme plus https universal/app links on the web host
+export const LINKING = {
+  SCHEME: 'lewreviews',
+  WEB_HOST: 'lewreviews.app',
+  WEB_URL: 'https://lewreviews.app',
+} as const;
+
 // Response chain constraints
+// MAX_DEPTH is the server's default (max_response_depth, 00029); the live limit
+// is loaded at startup by loadMaxResponseDepth in lib/video.ts
 export const CHAIN_CONSTRAINTS = {
   MAX_DEPTH: 10,
 } as const;
@@ -51,5 +66,22 @@ export const CHAIN_CONSTRAINTS = {
 export const API_CONFIG = {
   MAX_RETRIES: 3,
   RETRY_DELAY_MS: 1000,
-  UPLOAD_TIMEOUT_MS: 300000, // 5 minutes
+} as const;
+
+// Resumable (TUS) video uploads, see lib/resumableUpload.ts
+export const RESUMABLE_UPLOAD = {
+  CHUNK_SIZE_BYTES: 6 * 1024 * 1024, // Supabase Storage only accepts 6MB chunks
+  REQUEST_TIMEOUT_MS: 60000,
+  RETRY_DELAYS_MS: [1000, 3000, 5000, 10000, 20000],
+  RESUME_INTERVAL_MS: 60000, // How often paused uploads are retried while the app is open
+  MAX_SESSION_AGE_MS: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+// Qualified view tracking
+export const VIEW_TRACKING = {
+  MIN_WATCH_SECONDS: 3,     // Counts as a view after this much playback...
+  MIN_WATCH_FRACTION: 0.5,  // ...or after this share of the video
+  COMPLETION_FRACTION: 0.95,
+  FLUSH_INTERVAL_MS: 15000,
+  MAX_BATCH_SIZE: 50,       // Matches record_video_views
 } as const;
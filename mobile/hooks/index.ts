@@ -4,7 +4,9 @@
 
 export { useVideoUpload } from './useVideoUpload';
 export { useVideoFeed } from './useVideoFeed';
-export { useResponseChain } from './useResponseChain';
+export { useViewTracking } from './useViewTracking';
+export { useResponseChain, useDebateTree, useLiveConsensus } from './useResponseChain';
+export { useDualPlayerController } from './useDualPlayerController';
 export { useFollow } from './useFollow';
 export { useUserSearch } from './useUserSearch';
 export { useFollowList } from './useFollowList';
@@ -1,8 +1,10 @@
-import { useCallback, useEffect, useState } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../lib/auth';
-import type { FeedVideo } from '../types';
+import type { SavedVideo, SavedVideoGroup } from '../types';
+
+const SAVED_PAGE_SIZE = 24;
 
 /**
  * Hook to manage bookmark state for a set of videos (batch check).
@@ -81,31 +83,126 @@ export function useBookmarks(videoIds: string[]) {
   return { bookmarkedIds, toggleBookmark };
 }
 
+// Keyset position: bookmarks saved in the same instant are ordered by video_id
+interface SavedCursor {
+  createdAt: string;
+  videoId: string;
+}
+
+interface SavedPage {
+  videos: SavedVideo[];
+  nextCursor: SavedCursor | null;
+}
+
+/**
+ * Group saved videos by the TMDB title they review, preserving save order.
+ * Untagged videos are collected under a single null-keyed group at the end.
+ */
+export function groupSavedVideos(videos: SavedVideo[]): SavedVideoGroup[] {
+  const groups = new Map<string, SavedVideoGroup>();
+  let untagged: SavedVideoGroup | null = null;
+
+  for (const video of videos) {
+    if (!video.movie_title) {
+      untagged = untagged ?? { key: null, title: null, posterPath: null, mediaType: null, videos: [] };
+      untagged.videos.push(video);
+      continue;
+    }
+
+    const key = video.tmdb_id
+      ? `${video.tmdb_media_type ?? 'movie'}:${video.tmdb_id}`
+      : `title:${video.movie_title.toLowerCase()}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        title: video.movie_title,
+        posterPath: video.tmdb_poster_path ?? null,
+        mediaType: video.tmdb_media_type ?? null,
+        videos: [],
+      };
+      groups.set(key, group);
+    }
+    group.videos.push(video);
+  }
+
+  const result = Array.from(groups.values());
+  if (untagged) result.push(untagged);
+  return result;
+}
+
 /**
  * Hook to fetch the current user's bookmarked videos for profile display.
+ * Paginates newest-saved first and groups the loaded videos by TMDB title.
  */
 export function useBookmarkedVideos() {
   const { user } = useAuth();
 
-  return useQuery({
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    refetch,
+  } = useInfiniteQuery({
     queryKey: ['bookmarked-videos', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return [];
+    queryFn: async ({ pageParam }: { pageParam: SavedCursor | null }): Promise<SavedPage> => {
+      if (!user?.id) return { videos: [], nextCursor: null };
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('bookmarks')
-        .select('video_id, videos(id, thumbnail_url, views_count, created_at)')
+        .select('created_at, video_id, videos(id, thumbnail_url, views_count, created_at, rating, movie_title, tmdb_id, tmdb_media_type, tmdb_poster_path)')
         .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
+        .order('created_at', { ascending: false })
+        .order('video_id', { ascending: false })
+        .limit(SAVED_PAGE_SIZE);
+
+      if (pageParam) {
+        query = query.or(
+          `created_at.lt."${pageParam.createdAt}",and(created_at.eq."${pageParam.createdAt}",video_id.lt.${pageParam.videoId})`
+        );
+      }
 
+      const { data: rows, error } = await query;
       if (error) throw error;
 
-      // Flatten the joined result
-      return (data || [])
-        .map((b: any) => b.videos)
-        .filter(Boolean);
+      const bookmarks = rows || [];
+      const last = bookmarks[bookmarks.length - 1];
+      const nextCursor =
+        bookmarks.length === SAVED_PAGE_SIZE
+          ? { createdAt: last.created_at, videoId: last.video_id }
+          : null;
+
+      // Flatten the joined result; videos the user can no longer access come back null
+      const videos = bookmarks
+        .map((b: any) => b.videos && { ...b.videos, saved_at: b.created_at })
+        .filter(Boolean) as SavedVideo[];
+
+      return { videos, nextCursor };
     },
+    initialPageParam: null as SavedCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!user?.id,
     staleTime: 1000 * 60 * 2,
   });
+
+  const videos = useMemo(() => data?.pages.flatMap((page) => page.videos) || [], [data]);
+  const groups = useMemo(() => groupSavedVideos(videos), [videos]);
+
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    videos,
+    groups,
+    isLoading,
+    isLoadingMore: isFetchingNextPage,
+    hasMore: hasNextPage || false,
+    onLoadMore: handleLoadMore,
+    refetch,
+  };
 }
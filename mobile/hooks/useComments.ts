@@ -0,0 +1,281 @@
+// ============================================================================
+// LewReviews Mobile - Comments Hook
+// ============================================================================
+// Paginated text comments for a video with one level of replies and
+// optimistic posting
+// ============================================================================
+
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import type { VideoComment } from '../types';
+
+const PAGE_SIZE = 20;
+
+const COMMENT_SELECT =
+  'id, video_id, user_id, parent_comment_id, body, agree_disagree, replies_count, created_at, profiles:user_id (username, display_name, avatar_url)';
+
+interface CommentRow extends Omit<VideoComment, 'username' | 'display_name' | 'avatar_url' | 'replies'> {
+  profiles: { username: string; display_name: string | null; avatar_url: string | null } | null;
+}
+
+// Keyset position: comments posted in the same instant are ordered by id
+interface CommentsCursor {
+  createdAt: string;
+  id: string;
+}
+
+interface CommentsPage {
+  comments: VideoComment[];
+  cursor: CommentsCursor | null;
+}
+
+export interface PostCommentInput {
+  body: string;
+  agreeDisagree?: boolean | null;
+  parentCommentId?: string | null;
+}
+
+function toComment(row: CommentRow): VideoComment {
+  const { profiles, ...comment } = row;
+  return {
+    ...comment,
+    username: profiles?.username ?? 'unknown',
+    display_name: profiles?.display_name ?? null,
+    avatar_url: profiles?.avatar_url ?? null,
+  };
+}
+
+export function useComments(videoId: string | null | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = useMemo(() => ['comments', videoId], [videoId]);
+
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    refetch,
+  } = useInfiniteQuery({
+    queryKey,
+    queryFn: async ({ pageParam }: { pageParam: CommentsCursor | null }): Promise<CommentsPage> => {
+      let query = supabase
+        .from('comments')
+        .select(COMMENT_SELECT)
+        .eq('video_id', videoId!)
+        .is('parent_comment_id', null)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (pageParam) {
+        query = query.or(
+          `created_at.lt."${pageParam.createdAt}",and(created_at.eq."${pageParam.createdAt}",id.lt.${pageParam.id})`
+        );
+      }
+
+      const { data: rows, error } = await query;
+      if (error) throw error;
+
+      const topLevel = (rows as unknown as CommentRow[]).map(toComment);
+
+      // Load replies for this page in one query, oldest first under each parent
+      const parentIds = topLevel.filter((c) => c.replies_count > 0).map((c) => c.id);
+      if (parentIds.length > 0) {
+        const { data: replyRows, error: repliesError } = await supabase
+          .from('comments')
+          .select(COMMENT_SELECT)
+          .in('parent_comment_id', parentIds)
+          .order('created_at', { ascending: true });
+        if (repliesError) throw repliesError;
+
+        const repliesByParent = new Map<string, VideoComment[]>();
+        for (const reply of (replyRows as unknown as CommentRow[]).map(toComment)) {
+          const list = repliesByParent.get(reply.parent_comment_id!) ?? [];
+          list.push(reply);
+          repliesByParent.set(reply.parent_comment_id!, list);
+        }
+        for (const comment of topLevel) {
+          comment.replies = repliesByParent.get(comment.id) ?? [];
+        }
+      }
+
+      const last = topLevel[topLevel.length - 1];
+      return {
+        comments: topLevel,
+        cursor: topLevel.length === PAGE_SIZE ? { createdAt: last.created_at, id: last.id } : null,
+      };
+    },
+    initialPageParam: null as CommentsCursor | null,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!videoId,
+    staleTime: 1000 * 30,
+  });
+
+  const comments = useMemo(() => data?.pages.flatMap((page) => page.comments) ?? [], [data]);
+
+  // Keep comments_count on cached feed videos in step without refetching the feeds
+  const adjustFeedCommentsCount = useCallback(
+    (delta: number) => {
+      queryClient.setQueriesData({ queryKey: ['feed'] }, (oldData: any) => {
+        if (!oldData?.pages) return oldData;
+        return {
+          ...oldData,
+          pages: oldData.pages.map((page: any) => ({
+            ...page,
+            videos: page.videos.map((v: any) =>
+              v.id === videoId
+                ? { ...v, comments_count: Math.max(0, (v.comments_count || 0) + delta) }
+                : v
+            ),
+          })),
+        };
+      });
+    },
+    [queryClient, videoId]
+  );
+
+  const postMutation = useMutation({
+    mutationFn: async (input: PostCommentInput) => {
+      if (!user?.id || !videoId) {
+        throw new Error('Must be logged in to comment');
+      }
+
+      const { data: row, error } = await supabase
+        .from('comments')
+        .insert({
+          video_id: videoId,
+          user_id: user.id,
+          body: input.body.trim(),
+          parent_comment_id: input.parentCommentId ?? null,
+          agree_disagree: input.parentCommentId ? null : input.agreeDisagree ?? null,
+        })
+        .select(COMMENT_SELECT)
+        .single();
+
+      if (error) throw error;
+      return toComment(row as unknown as CommentRow);
+    },
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<InfiniteData<CommentsPage>>(queryKey);
+
+      const optimistic: VideoComment = {
+        id: `pending-${Date.now()}`,
+        video_id: videoId!,
+        user_id: user!.id,
+        parent_comment_id: input.parentCommentId ?? null,
+        body: input.body.trim(),
+        agree_disagree: input.parentCommentId ? null : input.agreeDisagree ?? null,
+        replies_count: 0,
+        created_at: new Date().toISOString(),
+        username: user?.user_metadata?.username ?? 'you',
+        display_name: null,
+        avatar_url: null,
+        isPending: true,
+      };
+
+      queryClient.setQueryData<InfiniteData<CommentsPage>>(queryKey, (old) => {
+        if (!old || old.pages.length === 0) return old;
+        if (!input.parentCommentId) {
+          const [first, ...rest] = old.pages;
+          return {
+            ...old,
+            pages: [{ ...first, comments: [optimistic, ...first.comments] }, ...rest],
+          };
+        }
+        return {
+          ...old,
+          pages: old.pages.map((page) => ({
+            ...page,
+            comments: page.comments.map((c) =>
+              c.id === input.parentCommentId
+                ? {
+                    ...c,
+                    replies_count: c.replies_count + 1,
+                    replies: [...(c.replies ?? []), optimistic],
+                  }
+                : c
+            ),
+          })),
+        };
+      });
+
+      adjustFeedCommentsCount(1);
+
+      return { previous, optimisticId: optimistic.id };
+    },
+    onError: (_err, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      adjustFeedCommentsCount(-1);
+    },
+    onSuccess: (saved, _input, context) => {
+      // Swap the optimistic entry for the saved row in place
+      const replace = (c: VideoComment): VideoComment =>
+        c.id === context?.optimisticId ? { ...saved, replies: c.replies } : c;
+
+      queryClient.setQueryData<InfiniteData<CommentsPage>>(queryKey, (old) => {
+        if (!old) return old;
+        return {
+          ...old,
+          pages: old.pages.map((page) => ({
+            ...page,
+            comments: page.comments.map((c) => ({
+              ...replace(c),
+              replies: c.replies?.map(replace),
+            })),
+          })),
+        };
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (comment: VideoComment) => {
+      const { error } = await supabase.from('comments').delete().eq('id', comment.id);
+      if (error) throw error;
+    },
+    onSuccess: (_data, comment) => {
+      // Deleting a top-level comment cascades to its replies
+      adjustFeedCommentsCount(-(1 + (comment.parent_comment_id ? 0 : comment.replies_count)));
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const postComment = useCallback(
+    async (input: PostCommentInput) => {
+      await postMutation.mutateAsync(input);
+    },
+    [postMutation]
+  );
+
+  const deleteComment = useCallback(
+    async (comment: VideoComment) => {
+      await deleteMutation.mutateAsync(comment);
+    },
+    [deleteMutation]
+  );
+
+  const loadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return {
+    comments,
+    isLoading,
+    isLoadingMore: isFetchingNextPage,
+    hasMore: hasNextPage ?? false,
+    loadMore,
+    refresh: refetch,
+    postComment,
+    isPosting: postMutation.isPending,
+    deleteComment,
+  };
+}
@@ -0,0 +1,48 @@
+// ============================================================================
+// LewReviews Mobile - Dual Player Controller Hook
+// ============================================================================
+// Drives two VideoPlayers as one: a shared play/pause state (fed to each
+// player's isActive) and a single audible side so the takes never talk over
+// each other
+// ============================================================================
+
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+
+export type DebateSide = 'take' | 'rebuttal';
+
+export function useDualPlayerController(initialAudioSide: DebateSide = 'take') {
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [audioSide, setAudioSide] = useState<DebateSide>(initialAudioSide);
+
+  // Pause both players while another screen covers this one
+  useFocusEffect(
+    useCallback(() => {
+      setIsPlaying(true);
+      return () => setIsPlaying(false);
+    }, [])
+  );
+
+  const play = useCallback(() => setIsPlaying(true), []);
+  const pause = useCallback(() => setIsPlaying(false), []);
+  const togglePlayback = useCallback(() => setIsPlaying((prev) => !prev), []);
+
+  const toggleAudioSide = useCallback(() => {
+    setAudioSide((prev) => (prev === 'take' ? 'rebuttal' : 'take'));
+  }, []);
+
+  return {
+    isPlaying,
+    play,
+    pause,
+    togglePlayback,
+    audioSide,
+    setAudioSide,
+    toggleAudioSide,
+    // Per-side props for VideoPlayer
+    playerProps: (side: DebateSide) => ({
+      isActive: isPlaying,
+      muted: audioSide !== side,
+    }),
+  };
+}
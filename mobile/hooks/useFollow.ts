@@ -131,6 +131,7 @@ export function useFollow(targetUserId: string): UseFollowReturn {
       queryClient.invalidateQueries({ queryKey: ['suggested-users'] });
       queryClient.invalidateQueries({ queryKey: ['leaderboard', 'following'] });
       queryClient.invalidateQueries({ queryKey: ['following-set'] });
+      queryClient.invalidateQueries({ queryKey: ['feed', undefined, undefined, 'following'] });
     },
   });
 
@@ -0,0 +1,104 @@
+// ============================================================================
+// LewReviews Mobile - Moderation Hooks
+// ============================================================================
+// Review queue, audit log and report resolution for moderators. Every query
+// is gated server-side by the moderator role claim; isModerator only keeps
+// other users from firing requests that would be rejected.
+// ============================================================================
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import type { ModerationAction, ModerationQueueItem, ReportResolution } from '../types';
+
+const QUEUE_LIMIT = 50;
+const LOG_LIMIT = 50;
+
+export interface ResolveReportInput {
+  reportId: string;
+  resolution: ReportResolution;
+  note?: string | null;
+  suspendDays?: number | null;
+}
+
+/**
+ * Pending reports grouped by reported video (or user), most reported first
+ */
+export function useModerationQueue() {
+  const { isModerator } = useAuth();
+
+  return useQuery({
+    queryKey: ['moderation-queue'],
+    queryFn: async (): Promise<ModerationQueueItem[]> => {
+      const { data, error } = await supabase.rpc('get_moderation_queue', {
+        queue_limit: QUEUE_LIMIT,
+      });
+      if (error) throw error;
+      return (data ?? []) as ModerationQueueItem[];
+    },
+    enabled: isModerator,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Most recent moderator actions, newest first
+ */
+export function useModerationLog() {
+  const { isModerator } = useAuth();
+
+  return useQuery({
+    queryKey: ['moderation-log'],
+    queryFn: async (): Promise<ModerationAction[]> => {
+      const { data, error } = await supabase
+        .from('moderation_actions')
+        .select(
+          'id, action, report_id, target_video_id, target_user_id, reports_closed, note, details, created_at, moderator:moderator_id (username), target_user:target_user_id (username)'
+        )
+        .order('created_at', { ascending: false })
+        .limit(LOG_LIMIT);
+      if (error) throw error;
+      return (data ?? []) as unknown as ModerationAction[];
+    },
+    enabled: isModerator,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Resolve a report (and every other pending report on the same target)
+ */
+export function useResolveReport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reportId, resolution, note, suspendDays }: ResolveReportInput) => {
+      const { data, error } = await supabase.rpc('resolve_report', {
+        target_report_id: reportId,
+        resolution,
+        note: note?.trim() || null,
+        suspend_days: suspendDays ?? null,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onMutate: async ({ reportId }) => {
+      // Drop the item right away so moderators can keep working down the queue
+      await queryClient.cancelQueries({ queryKey: ['moderation-queue'] });
+      const previous = queryClient.getQueryData<ModerationQueueItem[]>(['moderation-queue']);
+      queryClient.setQueryData<ModerationQueueItem[]>(['moderation-queue'], (old) =>
+        old?.filter((item) => item.report_id !== reportId)
+      );
+      return { previous };
+    },
+    onError: (_error, _input, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(['moderation-queue'], context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['moderation-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-log'] });
+    },
+  });
+}
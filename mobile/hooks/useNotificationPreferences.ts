@@ -0,0 +1,168 @@
+// ============================================================================
+// LewReviews Mobile - Notification Preferences Hooks
+// ============================================================================
+// Per-type switches, quiet hours and per-creator mutes. Type switches and
+// mutes stop notifications from being created; quiet hours only hold back
+// the push (see 00036_notification_preferences.sql).
+// ============================================================================
+
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import type { MutedCreator, NotificationPreferences } from '../types';
+
+// What a user without a preferences row gets
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  new_review: true,
+  response_agree: true,
+  response_disagree: true,
+  new_follower: true,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  time_zone: 'UTC',
+};
+
+const PREFERENCE_COLUMNS =
+  'new_review, response_agree, response_disagree, new_follower, quiet_hours_start, quiet_hours_end, time_zone';
+
+function deviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Current preferences, falling back to the defaults until the user saves any
+ */
+export function useNotificationPreferences() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notification-preferences', user?.id],
+    queryFn: async (): Promise<NotificationPreferences> => {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select(PREFERENCE_COLUMNS)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return (data as NotificationPreferences | null) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Save a partial change. The device time zone is written with every save so
+ * quiet hours follow the user when they travel.
+ */
+export function useUpdateNotificationPreferences() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['notification-preferences', user?.id];
+
+  return useMutation({
+    mutationFn: async (changes: Partial<NotificationPreferences>) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const current =
+        queryClient.getQueryData<NotificationPreferences>(queryKey) ?? DEFAULT_NOTIFICATION_PREFERENCES;
+
+      const { error } = await supabase.from('notification_preferences').upsert({
+        ...current,
+        ...changes,
+        time_zone: deviceTimeZone(),
+        user_id: user.id,
+      });
+      if (error) throw error;
+    },
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<NotificationPreferences>(queryKey);
+      queryClient.setQueryData<NotificationPreferences>(queryKey, (old) => ({
+        ...(old ?? DEFAULT_NOTIFICATION_PREFERENCES),
+        ...changes,
+      }));
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+}
+
+/**
+ * Creators the user has muted, newest first
+ */
+export function useMutedCreators() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['notification-mutes', user?.id],
+    queryFn: async (): Promise<MutedCreator[]> => {
+      const { data, error } = await supabase
+        .from('notification_mutes')
+        .select('muted_user_id, created_at, profile:muted_user_id (username, avatar_url)')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as unknown as MutedCreator[];
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Mute state for one creator plus an optimistic toggle
+ */
+export function useNotificationMute(creatorId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: mutes } = useMutedCreators();
+
+  const isMuted = !!mutes?.some((mute) => mute.muted_user_id === creatorId);
+
+  const toggleMute = useCallback(async () => {
+    if (!user || !creatorId || creatorId === user.id) return;
+
+    const queryKey = ['notification-mutes', user.id];
+    const previous = queryClient.getQueryData<MutedCreator[]>(queryKey);
+    queryClient.setQueryData<MutedCreator[]>(queryKey, (old = []) =>
+      isMuted
+        ? old.filter((mute) => mute.muted_user_id !== creatorId)
+        : [{ muted_user_id: creatorId, created_at: new Date().toISOString(), profile: null }, ...old]
+    );
+
+    try {
+      if (isMuted) {
+        const { error } = await supabase
+          .from('notification_mutes')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('muted_user_id', creatorId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('notification_mutes')
+          .insert({ user_id: user.id, muted_user_id: creatorId });
+        if (error) throw error;
+      }
+    } catch {
+      queryClient.setQueryData(queryKey, previous);
+    } finally {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  }, [user, creatorId, isMuted, queryClient]);
+
+  return { isMuted, toggleMute };
+}
@@ -0,0 +1,223 @@
+// ============================================================================
+// LewReviews Mobile - Notification Inbox Hooks
+// ============================================================================
+// Activity inbox: grouped notification pages, the unread count (mirrored to
+// the app icon badge), read-state mutations and a Realtime subscription that
+// refreshes both when a new notification arrives.
+// ============================================================================
+
+import { useEffect } from 'react';
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+} from '@tanstack/react-query';
+import * as Notifications from 'expo-notifications';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import type { NotificationGroup } from '../types';
+
+const PAGE_SIZE = 20;
+
+export const NOTIFICATIONS_QUERY_KEY = ['notifications'] as const;
+
+// Groups sharing a latest_at are ordered by group_key
+interface GroupCursor {
+  latestAt: string;
+  groupKey: string;
+}
+
+interface GroupPage {
+  groups: NotificationGroup[];
+  cursor: GroupCursor | null;
+}
+
+/**
+ * Inbox groups, newest first, paginated on the last group's
+ * (latest_at, group_key)
+ */
+export function useNotificationGroups() {
+  const { user } = useAuth();
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    refetch,
+    isRefetching,
+  } = useInfiniteQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, 'groups', user?.id],
+    queryFn: async ({ pageParam }): Promise<GroupPage> => {
+      const { data, error } = await supabase.rpc('get_notification_groups', {
+        page_size: PAGE_SIZE,
+        before_at: pageParam?.latestAt ?? null,
+        before_key: pageParam?.groupKey ?? null,
+      });
+      if (error) throw error;
+
+      const groups = (data ?? []) as NotificationGroup[];
+      const last = groups[groups.length - 1];
+      return {
+        groups,
+        cursor: groups.length === PAGE_SIZE ? { latestAt: last.latest_at, groupKey: last.group_key } : null,
+      };
+    },
+    initialPageParam: null as GroupCursor | null,
+    getNextPageParam: (lastPage) => lastPage.cursor,
+    enabled: !!user,
+  });
+
+  const groups = data?.pages.flatMap((page) => page.groups) ?? [];
+
+  return {
+    groups,
+    isLoading,
+    isError,
+    hasMore: !!hasNextPage,
+    loadMore: fetchNextPage,
+    isLoadingMore: isFetchingNextPage,
+    refresh: refetch,
+    isRefreshing: isRefetching,
+  };
+}
+
+/**
+ * Number of unread notifications; also sets the app icon badge
+ */
+export function useUnreadNotificationCount() {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: [...NOTIFICATIONS_QUERY_KEY, 'unread', user?.id],
+    queryFn: async (): Promise<number> => {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .is('read_at', null);
+      if (error) throw error;
+      return count ?? 0;
+    },
+    enabled: !!user,
+    staleTime: 1000 * 30,
+  });
+
+  const unreadCount = query.data ?? 0;
+
+  useEffect(() => {
+    if (query.data === undefined) return;
+    Notifications.setBadgeCountAsync(query.data).catch(() => {
+      // Badge is cosmetic; ignore platforms that refuse it
+    });
+  }, [query.data]);
+
+  return unreadCount;
+}
+
+/**
+ * Refetch the inbox and unread count whenever a notification is inserted
+ * for the signed-in user. Mount once, under the tab navigator.
+ */
+export function useNotificationsRealtime() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`notifications:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `recipient_id=eq.${user.id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
+
+// Zero unread_count on the groups containing any of the given ids
+function markGroupsRead(
+  old: InfiniteData<GroupPage> | undefined,
+  ids: Set<string> | null
+): InfiniteData<GroupPage> | undefined {
+  if (!old) return old;
+  return {
+    ...old,
+    pages: old.pages.map((page) => ({
+      ...page,
+      groups: page.groups.map((group) =>
+        !ids || group.notification_ids.some((id) => ids.has(id))
+          ? { ...group, unread_count: 0 }
+          : group
+      ),
+    })),
+  };
+}
+
+function useReadStateMutation(mutationFn: (ids: string[] | null) => Promise<number>) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const groupsKey = [...NOTIFICATIONS_QUERY_KEY, 'groups', user?.id];
+  const unreadKey = [...NOTIFICATIONS_QUERY_KEY, 'unread', user?.id];
+
+  return useMutation({
+    mutationFn,
+    onMutate: async (ids) => {
+      await queryClient.cancelQueries({ queryKey: groupsKey });
+      const previous = queryClient.getQueryData<InfiniteData<GroupPage>>(groupsKey);
+      queryClient.setQueryData<InfiniteData<GroupPage>>(groupsKey, (old) =>
+        markGroupsRead(old, ids ? new Set(ids) : null)
+      );
+      return { previous };
+    },
+    onError: (_error, _ids, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(groupsKey, context.previous);
+      }
+    },
+    onSuccess: (remaining) => {
+      // The RPC returns the new badge_count, which is the unread count
+      queryClient.setQueryData(unreadKey, remaining);
+    },
+  });
+}
+
+/**
+ * Mark specific notifications read (e.g. every id in a tapped group)
+ */
+export function useMarkNotificationsRead() {
+  return useReadStateMutation(async (ids) => {
+    const { data, error } = await supabase.rpc('mark_notifications_read', {
+      notification_ids: ids ?? [],
+    });
+    if (error) throw error;
+    return data as number;
+  });
+}
+
+/**
+ * Mark every notification read and clear the badge
+ */
+export function useMarkAllNotificationsRead() {
+  return useReadStateMutation(async () => {
+    const { data, error } = await supabase.rpc('mark_all_notifications_read');
+    if (error) throw error;
+    return data as number;
+  });
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import type { ProcessingVideo } from '../types';
+
+export const PROCESSING_VIDEOS_QUERY_KEY = ['processing-videos'];
+
+// Transcoding usually takes under a minute
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * The signed-in user's uploads that are still transcoding or failed to.
+ * Polls while anything is processing; onReady fires when a video leaves
+ * processing so callers can reload lists built from ready videos.
+ */
+export function useProcessingVideos(onReady?: () => void) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: [...PROCESSING_VIDEOS_QUERY_KEY, user?.id],
+    queryFn: async (): Promise<ProcessingVideo[]> => {
+      const { data, error } = await supabase
+        .from('videos')
+        .select('id, title, thumbnail_url, status, parent_video_id, created_at, processing_error')
+        .eq('user_id', user!.id)
+        .in('status', ['processing', 'failed'])
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as ProcessingVideo[];
+    },
+    enabled: !!user,
+    refetchInterval: (current) =>
+      current.state.data?.some((video) => video.status === 'processing') ? POLL_INTERVAL_MS : false,
+  });
+
+  // Ids seen processing on the previous fetch
+  const processingIdsRef = useRef<Set<string>>(new Set());
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+
+  useEffect(() => {
+    if (!query.data) return;
+
+    const stillProcessing = new Set(
+      query.data.filter((video) => video.status === 'processing').map((video) => video.id)
+    );
+    const failedIds = new Set(
+      query.data.filter((video) => video.status === 'failed').map((video) => video.id)
+    );
+    const becameReady = [...processingIdsRef.current].some(
+      (id) => !stillProcessing.has(id) && !failedIds.has(id)
+    );
+    processingIdsRef.current = stillProcessing;
+
+    if (becameReady) {
+      queryClient.invalidateQueries({ queryKey: ['feed'] });
+      queryClient.invalidateQueries({ queryKey: ['user-videos'] });
+      // Responses only count as votes once they're ready
+      queryClient.invalidateQueries({ queryKey: ['video-with-responses'] });
+      queryClient.invalidateQueries({ queryKey: ['video-responses'] });
+      onReadyRef.current?.();
+    }
+  }, [query.data, queryClient]);
+
+  return {
+    videos: query.data ?? [],
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Remove an upload that failed processing, along with its stored original.
+ */
+export async function discardFailedVideo(videoId: string): Promise<void> {
+  const { data } = await supabase
+    .from('videos')
+    .select('source_path')
+    .eq('id', videoId)
+    .single();
+
+  if (data?.source_path) {
+    await supabase.storage.from('videos').remove([data.source_path]);
+  }
+
+  const { error } = await supabase.from('videos').delete().eq('id', videoId);
+  if (error) throw error;
+}
@@ -13,10 +13,13 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import { useRouter } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { supabase, getCurrentUser } from '../lib/supabase';
+import type { NotificationType } from '../types';
+import { NOTIFICATIONS_QUERY_KEY } from './useNotifications';
 
 // ============================================================================
 // Notification Handler Configuration
@@ -37,8 +40,9 @@ Notifications.setNotificationHandler({
 
 interface NotificationData {
   notification_id?: string;
-  type?: 'new_review' | 'response';
-  video_id?: string;
+  type?: NotificationType;
+  video_id?: string | null;
+  sender_id?: string | null;
 }
 
 // ============================================================================
@@ -106,24 +110,13 @@ export async function registerTokenIfPermitted(): Promise<void> {
   }
 }
 
-async function clearBadgeCount(): Promise<void> {
-  const user = await getCurrentUser();
-  if (!user) return;
-
-  await Notifications.setBadgeCountAsync(0);
-
-  await supabase
-    .from('profiles')
-    .update({ badge_count: 0 })
-    .eq('id', user.id);
-}
-
 // ============================================================================
 // Listeners-Only Hook (no permission prompt)
 // ============================================================================
 
 export function usePushNotificationListeners(): void {
   const router = useRouter();
+  const queryClient = useQueryClient();
   const notificationListener = useRef<Notifications.EventSubscription | null>(null);
   const responseListener = useRef<Notifications.EventSubscription | null>(null);
   const appState = useRef(AppState.currentState);
@@ -131,8 +124,13 @@ export function usePushNotificationListeners(): void {
   const handleNotificationResponse = useCallback(
     (response: Notifications.NotificationResponse) => {
       const data = response.notification.request.content.data as NotificationData;
-      if (data?.video_id) {
+      if (data?.type === 'new_follower' && data.sender_id) {
+        router.push(`/profile/${data.sender_id}`);
+      } else if (data?.video_id) {
+        // Reviews, responses, milestones and video warnings all open the video
         router.push(`/video/${data.video_id}`);
+      } else {
+        router.push('/activity');
       }
     },
     [router]
@@ -145,7 +143,8 @@ export function usePushNotificationListeners(): void {
 
     notificationListener.current = Notifications.addNotificationReceivedListener(
       () => {
-        // Notification received in foreground
+        // Notification received in foreground — refresh the inbox and badge
+        queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
       }
     );
 
@@ -157,27 +156,27 @@ export function usePushNotificationListeners(): void {
       notificationListener.current?.remove();
       responseListener.current?.remove();
     };
-  }, [handleNotificationResponse]);
+  }, [handleNotificationResponse, queryClient]);
 
-  // Clear badge when app comes to foreground
+  // Re-sync the unread count (and with it the icon badge) when the app comes
+  // to foreground. The badge is cleared by reading notifications in Activity.
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (
         appState.current.match(/inactive|background/) &&
         nextAppState === 'active'
       ) {
-        clearBadgeCount();
+        queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
       }
       appState.current = nextAppState;
     };
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
-    clearBadgeCount();
 
     return () => {
       subscription.remove();
     };
-  }, []);
+  }, [queryClient]);
 }
 
 // ============================================================================
@@ -1,14 +1,21 @@
+import { useMemo } from 'react';
 import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
 import {
   getVideoWithResponses,
   getParentVideo,
   getVideoResponses,
+  getDebateTree,
+  buildDebateTree,
   VideoWithProfile,
   VideoResponse,
   ResponseCounts,
+  ResponseOrder,
+  DebateNode,
 } from '../lib/video';
 
 const DETAIL_STALE_TIME = 1000 * 60 * 2; // 2 minutes
+const CONSENSUS_REFRESH_MS = 1000 * 10;
 
 /**
  * Hook to fetch a video with its responses and counts
@@ -58,16 +65,18 @@ export function useParentVideo(
  */
 export function useInfiniteResponses(
   videoId: string | undefined,
-  stance: 'agree' | 'disagree' | 'all' = 'all'
+  stance: 'agree' | 'disagree' | 'all' = 'all',
+  orderBy: ResponseOrder = 'recent'
 ) {
   return useInfiniteQuery({
-    queryKey: ['video-responses', videoId, stance],
+    queryKey: ['video-responses', videoId, stance, orderBy],
     queryFn: async ({ pageParam = 0 }) => {
       if (!videoId) throw new Error('Video ID is required');
       const result = await getVideoResponses(videoId, {
         offset: pageParam,
         limit: 20,
         stance,
+        orderBy,
       });
       if (result.error) throw result.error;
       return {
@@ -83,6 +92,102 @@ export function useInfiniteResponses(
   });
 }
 
+/**
+ * Hook to keep a video's agree/disagree vote tally fresh while it is on screen.
+ * Polls feed_videos so the consensus bar follows votes cast by other viewers.
+ */
+export function useLiveConsensus(videoId: string | undefined) {
+  const query = useQuery({
+    queryKey: ['live-consensus', videoId],
+    queryFn: async () => {
+      if (!videoId) throw new Error('Video ID is required');
+      const { data, error } = await supabase
+        .from('feed_videos')
+        .select('*')
+        .eq('id', videoId)
+        .single();
+      if (error) throw error;
+      return data as VideoWithProfile;
+    },
+    enabled: !!videoId,
+    refetchInterval: CONSENSUS_REFRESH_MS,
+  });
+
+  const agree = query.data?.vote_agree_count ?? 0;
+  const disagree = query.data?.vote_disagree_count ?? 0;
+  const total = agree + disagree;
+
+  return {
+    video: query.data ?? null,
+    agree,
+    disagree,
+    total,
+    agreePercent: total > 0 ? Math.round((agree / total) * 100) : null,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
+
+/**
+ * Hook to fetch a whole debate tree for any video in it. Resolves the root from
+ * the video's root_video_id and exposes lookups for navigating the tree:
+ * ancestors of a node (root first) and a depth-first ordering of every node.
+ */
+export function useDebateTree(
+  video: Pick<VideoWithProfile, 'id' | 'root_video_id'> | null | undefined
+) {
+  const rootVideoId = video ? video.root_video_id || video.id : undefined;
+
+  const query = useQuery({
+    queryKey: ['debate-tree', rootVideoId],
+    queryFn: async () => {
+      if (!rootVideoId) throw new Error('Video ID is required');
+      const result = await getDebateTree(rootVideoId);
+      if (result.error) throw result.error;
+      return result.videos;
+    },
+    enabled: !!rootVideoId,
+    staleTime: DETAIL_STALE_TIME,
+  });
+
+  const tree = useMemo(() => {
+    const root = rootVideoId && query.data ? buildDebateTree(rootVideoId, query.data) : null;
+    const nodesById = new Map<string, DebateNode>();
+    const flattened: DebateNode[] = [];
+    const visit = (node: DebateNode) => {
+      nodesById.set(node.video.id, node);
+      flattened.push(node);
+      node.children.forEach(visit);
+    };
+    if (root) visit(root);
+    return { root, nodesById, flattened };
+  }, [rootVideoId, query.data]);
+
+  // Ancestors from the root down to (but excluding) the given video
+  const getAncestors = (videoId: string): VideoWithProfile[] => {
+    const path: VideoWithProfile[] = [];
+    let current = tree.nodesById.get(videoId)?.video.parent_video_id;
+    while (current) {
+      const node = tree.nodesById.get(current);
+      if (!node) break;
+      path.unshift(node.video);
+      current = node.video.parent_video_id;
+    }
+    return path;
+  };
+
+  return {
+    rootVideoId,
+    root: tree.root,
+    nodes: tree.flattened,
+    getNode: (videoId: string) => tree.nodesById.get(videoId) ?? null,
+    getAncestors,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    refetch: query.refetch,
+  };
+}
+
 /**
  * Combined hook for response chain data
  * Returns all data needed for displaying a video's response chain
@@ -93,6 +198,7 @@ export function useResponseChain(videoId: string | undefined) {
   // Pass parent_video_id from already-loaded video to skip the lookup query
   const parentVideoId = videoQuery.data?.video?.parent_video_id;
   const parentQuery = useParentVideo(videoId, parentVideoId);
+  const debateTree = useDebateTree(videoQuery.data?.video);
 
   const isLoading = videoQuery.isLoading || (parentVideoId ? parentQuery.isLoading : false);
   const isError = videoQuery.isError || parentQuery.isError;
@@ -114,6 +220,9 @@ export function useResponseChain(videoId: string | undefined) {
     parentVideo: parentQuery.data ?? null,
     isResponse: !!parentQuery.data,
 
+    // Whole debate this video belongs to, for navigating nested rebuttals
+    debateTree,
+
     // Loading and error states
     isLoading,
     isError,
@@ -123,9 +232,10 @@ export function useResponseChain(videoId: string | undefined) {
     refetch: () => {
       videoQuery.refetch();
       parentQuery.refetch();
+      debateTree.refetch();
     },
   };
 }
 
 // Re-export types for convenience
-export type { VideoWithProfile, VideoResponse, ResponseCounts };
+export type { VideoWithProfile, VideoResponse, ResponseCounts, DebateNode };
@@ -0,0 +1,118 @@
+// ============================================================================
+// LewReviews Mobile - Resumable Uploads Hook
+// Works through the upload outbox: uploads left unfinished by a dropped
+// connection or an app restart, then drafts queued for publishing. Runs on
+// launch, whenever the app comes back to the foreground, and periodically
+// while it stays open, so queued reviews go out once the connection is back.
+// ============================================================================
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../lib/auth';
+import { listUploadSessions, resumeUploadSessions, runUploadSession } from '../lib/resumableUpload';
+import {
+  useDraftsStore,
+  draftsHydrated,
+  deleteDraft,
+  draftUploadInput,
+  isDraftComplete,
+} from '../lib/drafts';
+import { createVideoUploadSession, invalidateUploadQueries } from './useVideoUpload';
+import { RESUMABLE_UPLOAD } from '../constants/config';
+
+let isProcessing = false;
+
+function markDraftFailed(draftId: string, error: string) {
+  const { drafts, updateDraft } = useDraftsStore.getState();
+  // A draft taken out of the outbox stays a plain draft
+  if (drafts[draftId]?.status === 'queued') {
+    updateDraft(draftId, { status: 'failed', error });
+  }
+}
+
+/**
+ * Resume paused uploads, then start queued drafts that don't have one yet.
+ * Stops as soon as an upload pauses, since everything after it would too.
+ */
+export async function processUploadOutbox(userId: string, queryClient: QueryClient): Promise<void> {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    await draftsHydrated();
+
+    const online = await resumeUploadSessions(userId, {
+      onComplete: (video, session) => {
+        if (session.draftId) deleteDraft(session.draftId);
+        invalidateUploadQueries(queryClient, video.parent_video_id);
+      },
+      onFailed: (session, error) => {
+        if (session.draftId) markDraftFailed(session.draftId, error);
+      },
+    });
+    if (!online) return;
+
+    const startedDraftIds = new Set(
+      (await listUploadSessions(userId)).map((session) => session.draftId)
+    );
+    const queued = Object.values(useDraftsStore.getState().drafts)
+      .filter((draft) => draft.userId === userId && draft.status === 'queued')
+      .filter((draft) => !startedDraftIds.has(draft.id))
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+
+    for (const draft of queued) {
+      if (!isDraftComplete(draft)) {
+        markDraftFailed(draft.id, 'Add a caption, rating and movie before posting');
+        continue;
+      }
+
+      try {
+        const session = await createVideoUploadSession({
+          userId,
+          video: draft.video,
+          thumbnailUri: draft.thumbnailUri,
+          input: draftUploadInput(draft),
+          draftId: draft.id,
+        });
+        const outcome = await runUploadSession(session.id);
+        if (outcome.status === 'paused') return;
+
+        await deleteDraft(draft.id);
+        invalidateUploadQueries(queryClient, outcome.video.parent_video_id);
+      } catch (error) {
+        markDraftFailed(draft.id, error instanceof Error ? error.message : 'Upload failed');
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+export function useResumableUploads() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const resume = () => {
+      processUploadOutbox(userId, queryClient);
+    };
+
+    resume();
+    const interval = setInterval(() => {
+      if (AppState.currentState === 'active') resume();
+    }, RESUMABLE_UPLOAD.RESUME_INTERVAL_MS);
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') resume();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [userId, queryClient]);
+}
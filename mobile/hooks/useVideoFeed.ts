@@ -3,16 +3,26 @@
 // Fetches videos from Supabase with pagination and pull-to-refresh
 // ============================================================================
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useInfiniteQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import type { FeedVideo } from '../types';
 
 const PAGE_SIZE = 10;
 
+// for_you: server-ranked; following: followed creators only; latest: chronological
+export type FeedMode = 'for_you' | 'following' | 'latest';
+
+// Server-paginated modes and the RPC backing each
+const FEED_RPCS = {
+  for_you: 'get_for_you_feed',
+  following: 'get_following_feed',
+} as const;
+
 interface UseVideoFeedOptions {
-  parentVideoId?: string; // Filter by parent video (for response chains)
-  userId?: string; // Filter by user
+  mode?: FeedMode; // Defaults to 'latest'
+  parentVideoId?: string; // Filter by parent video (for response chains, latest only)
+  userId?: string; // Filter by user (latest only)
 }
 
 interface FeedPage {
@@ -20,10 +30,32 @@ interface FeedPage {
   nextCursor: string | null;
 }
 
+interface FeedRpcResponse {
+  videos: FeedVideo[];
+  next_cursor: string | null;
+}
+
 export function useVideoFeed(options: UseVideoFeedOptions = {}) {
+  const mode = options.mode ?? 'latest';
+
   // Fetch feed videos with pagination
   const fetchVideos = useCallback(
     async ({ pageParam }: { pageParam: string | null }): Promise<FeedPage> => {
+      if (mode !== 'latest') {
+        // RPC-backed feeds: the cursor is opaque and owned by the server
+        const { data, error } = await supabase.rpc(FEED_RPCS[mode], {
+          page_cursor: pageParam,
+          limit_count: PAGE_SIZE,
+        });
+
+        if (error) {
+          throw error;
+        }
+
+        const page = data as FeedRpcResponse;
+        return { videos: page.videos || [], nextCursor: page.next_cursor };
+      }
+
       let query = supabase
         .from('feed_videos')
         .select('*')
@@ -63,7 +95,7 @@ export function useVideoFeed(options: UseVideoFeedOptions = {}) {
 
       return { videos, nextCursor };
     },
-    [options.parentVideoId, options.userId]
+    [mode, options.parentVideoId, options.userId]
   );
 
   // Use infinite query for pagination
@@ -77,15 +109,23 @@ export function useVideoFeed(options: UseVideoFeedOptions = {}) {
     refetch,
     error,
   } = useInfiniteQuery({
-    queryKey: ['feed', options.parentVideoId, options.userId],
+    queryKey: ['feed', options.parentVideoId, options.userId, mode],
     queryFn: fetchVideos,
     initialPageParam: null as string | null,
     getNextPageParam: (lastPage) => lastPage.nextCursor,
     staleTime: 1000 * 60, // 1 minute — prevents aggressive refetches on tab switches
   });
 
-  // Flatten pages into single array
-  const videos = data?.pages.flatMap((page) => page.videos) || [];
+  // Flatten pages into single array. Ranked pages can overlap when scores
+  // shift between fetches, so keep the first occurrence of each video.
+  const videos = useMemo(() => {
+    const seen = new Set<string>();
+    return (data?.pages.flatMap((page) => page.videos) || []).filter((video) => {
+      if (seen.has(video.id)) return false;
+      seen.add(video.id);
+      return true;
+    });
+  }, [data]);
 
   // Handle refresh
   const handleRefresh = useCallback(() => {
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import type { VideoInsights } from '../types';
+
+/**
+ * Fetch watch-time, completion and retention aggregates for a video.
+ * Only succeeds for the video's owner; the RPC rejects everyone else.
+ */
+export function useVideoInsights(videoId: string | undefined) {
+  return useQuery({
+    queryKey: ['video-insights', videoId],
+    queryFn: async (): Promise<VideoInsights> => {
+      const { data, error } = await supabase.rpc('get_video_insights', {
+        target_video_id: videoId!,
+      });
+      if (error) throw error;
+      return data as unknown as VideoInsights;
+    },
+    enabled: !!videoId,
+    staleTime: 1000 * 60,
+  });
+}
@@ -1,31 +1,34 @@
 // ============================================================================
 // LewReviews Mobile - Video Upload Hook
 // ============================================================================
-// Handles video picking, recording, duration extraction, compression,
-// thumbnail generation, and Supabase upload with progress tracking.
+// Handles video picking, recording, metadata probing and validation,
+// thumbnail generation, and resumable Supabase upload with progress tracking.
+// Uploads are transcoded server-side before they're published.
 // ============================================================================
 
 import { useState, useCallback } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQueryClient, QueryClient } from '@tanstack/react-query';
 import * as ImagePicker from 'expo-image-picker';
-import * as FileSystem from 'expo-file-system/legacy';
 import * as VideoThumbnails from 'expo-video-thumbnails';
 import { Camera } from 'expo-camera';
-import { supabase, getCurrentUser, getCurrentSession } from '../lib/supabase';
+import { supabase, getCurrentUser } from '../lib/supabase';
+import { createUploadSession, runUploadSession, UploadSession } from '../lib/resumableUpload';
+import { probeVideo, validateVideoMetadata } from '../lib/videoMetadata';
 import {
   VideoUploadInput,
   VideoMetadata,
   UploadProgress,
   UploadResult,
+  VideoPickResult,
   Video,
+  ReviewDraft,
 } from '../types';
 import {
-  SUPABASE_URL,
-  SUPABASE_ANON_KEY,
   STORAGE_BUCKETS,
   VIDEO_CONSTRAINTS,
   COMPRESSION_SETTINGS,
 } from '../constants/config';
+import { PROCESSING_VIDEOS_QUERY_KEY } from './useProcessingVideos';
 
 // ============================================================================
 // Types
@@ -38,11 +41,12 @@ interface UseVideoUploadReturn {
   thumbnailUri: string | null;
 
   // Actions
-  pickFromGallery: () => Promise<VideoMetadata | null>;
-  recordVideo: () => Promise<VideoMetadata | null>;
+  pickFromGallery: () => Promise<VideoPickResult>;
+  recordVideo: () => Promise<VideoPickResult>;
   extractMetadata: (uri: string) => Promise<VideoMetadata | null>;
   generateThumbnail: (uri: string) => Promise<string | null>;
-  uploadVideo: (input: VideoUploadInput) => Promise<UploadResult>;
+  uploadVideo: (input: VideoUploadInput, draft?: ReviewDraft) => Promise<UploadResult>;
+  restoreVideo: (video: VideoMetadata, thumbnailUri: string | null) => void;
   reset: () => void;
 }
 
@@ -105,64 +109,137 @@ const getVideoMimeType = (extension: string): string => {
   return mimeTypes[extension] || 'video/mp4';
 };
 
+const formatMegabytes = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(1);
+
 /**
- * Extract video metadata using expo-av
- * This extracts duration_seconds which is required by the database
+ * Refresh everything a new upload shows up in. Also used when a paused
+ * upload finishes in the background.
  */
-const extractVideoMetadata = async (uri: string): Promise<VideoMetadata | null> => {
-  try {
-    // Get file info for size
-    const fileInfo = await FileSystem.getInfoAsync(uri);
-    if (!fileInfo.exists) {
-      throw new Error('Video file does not exist');
-    }
-
-    const duration = 0;
-    const width = 0;
-    const height = 0;
-
-    return {
-      uri,
-      duration,
-      width,
-      height,
-      fileSize: fileInfo.size,
-    };
-  } catch {
-    return null;
+export const invalidateUploadQueries = (queryClient: QueryClient, parentVideoId?: string | null) => {
+  queryClient.invalidateQueries({ queryKey: PROCESSING_VIDEOS_QUERY_KEY });
+  // Invalidate all feed queries so response counts update
+  queryClient.invalidateQueries({ queryKey: ['feed'] });
+  queryClient.invalidateQueries({ queryKey: ['user-videos'] });
+  // Invalidate user stance cache so action row updates
+  queryClient.invalidateQueries({ queryKey: ['user-stances'] });
+  // If this is a response, invalidate everything affected by the new vote
+  if (parentVideoId) {
+    queryClient.invalidateQueries({ queryKey: ['video-with-responses', parentVideoId] });
+    queryClient.invalidateQueries({ queryKey: ['video-responses', parentVideoId] });
+    // Vote triggers update profile ratio + video vote counts
+    queryClient.invalidateQueries({ queryKey: ['profile'] });
+    queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
+    queryClient.invalidateQueries({ queryKey: ['suggested-users'] });
+    queryClient.invalidateQueries({ queryKey: ['has-responded', parentVideoId] });
   }
 };
 
 /**
- * Alternative metadata extraction using getInfoAsync pattern
- * This provides more reliable duration extraction
+ * Probe a video and check it against VIDEO_CONSTRAINTS
  */
-const extractVideoMetadataFromPicker = async (
-  asset: ImagePicker.ImagePickerAsset
-): Promise<VideoMetadata> => {
-  // ImagePicker provides duration in milliseconds for videos
-  const durationMs = asset.duration || 0;
-  const durationSeconds = Math.round(durationMs / 1000);
-
-  // Get file size
-  let fileSize = 0;
+const extractVideoMetadata = async (
+  uri: string,
+  mimeType?: string
+): Promise<{ metadata: VideoMetadata | null; error?: string }> => {
+  let metadata: VideoMetadata;
   try {
-    const fileInfo = await FileSystem.getInfoAsync(asset.uri);
-    if (fileInfo.exists) {
-      fileSize = fileInfo.size;
-    }
+    metadata = await probeVideo(uri, mimeType);
   } catch {
-    // Could not get file size - continue without it
+    return { metadata: null, error: 'We couldn\'t read this video. Try another one.' };
   }
+  const problem = validateVideoMetadata(metadata);
+  return problem ? { metadata: null, error: problem } : { metadata };
+};
 
-  return {
-    uri: asset.uri,
-    duration: durationSeconds,
-    width: asset.width || 0,
-    height: asset.height || 0,
-    fileSize,
-    mimeType: asset.mimeType,
+/**
+ * Build the video record for an upload and persist a resumable session for
+ * it (lib/resumableUpload.ts). The record is inserted once every byte is up.
+ */
+export const createVideoUploadSession = async ({
+  userId,
+  video,
+  thumbnailUri,
+  input,
+  draftId,
+}: {
+  userId: string;
+  video: VideoMetadata;
+  thumbnailUri: string | null;
+  input: VideoUploadInput;
+  draftId?: string;
+}): Promise<UploadSession> => {
+  // Drafts may have sat in the outbox since they were checked
+  const problem = validateVideoMetadata(video);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  // Generate filenames
+  const videoExtension = getFileExtension(video.uri, video.mimeType);
+  const videoFileName = generateFileName(userId, videoExtension);
+  const thumbnailFileName = thumbnailUri ? generateFileName(userId, 'jpg') : null;
+
+  // Public URLs are known up front; the thumbnail's is cleared again if the
+  // server refuses it
+  const { data: videoUrlData } = supabase.storage
+    .from(STORAGE_BUCKETS.VIDEOS)
+    .getPublicUrl(videoFileName);
+  const thumbnailUrl = thumbnailFileName
+    ? supabase.storage.from(STORAGE_BUCKETS.THUMBNAILS).getPublicUrl(thumbnailFileName).data.publicUrl
+    : null;
+
+  const videoRecord: Partial<Video> = {
+    user_id: userId,
+    title: input.title,
+    description: input.description || null,
+    video_url: videoUrlData.publicUrl,
+    thumbnail_url: thumbnailUrl,
+    duration_seconds: video.duration,
+    width: video.width || null,
+    height: video.height || null,
+    file_size_bytes: video.fileSize || null,
+    source_path: videoFileName,
+    status: 'processing', // The transcode worker sets 'ready' or 'failed'
+    visibility: input.visibility || 'public',
+    parent_video_id: input.parentVideoId || null,
   };
+
+  // Add agree_disagree for response videos
+  if (input.parentVideoId && input.agreeDisagree !== undefined) {
+    (videoRecord as Record<string, unknown>).agree_disagree = input.agreeDisagree;
+  }
+
+  // Add rating, movie title, and TMDB data for root videos
+  if (!input.parentVideoId) {
+    if (input.rating !== undefined) {
+      (videoRecord as Record<string, unknown>).rating = input.rating;
+    }
+    if (input.movieTitle) {
+      (videoRecord as Record<string, unknown>).movie_title = input.movieTitle;
+    }
+    if (input.tmdbId !== undefined) {
+      (videoRecord as Record<string, unknown>).tmdb_id = input.tmdbId;
+    }
+    if (input.tmdbMediaType) {
+      (videoRecord as Record<string, unknown>).tmdb_media_type = input.tmdbMediaType;
+    }
+    if (input.tmdbPosterPath) {
+      (videoRecord as Record<string, unknown>).tmdb_poster_path = input.tmdbPosterPath;
+    }
+  }
+
+  return createUploadSession({
+    userId,
+    draftId,
+    sourceUri: video.uri,
+    bucket: STORAGE_BUCKETS.VIDEOS,
+    objectName: videoFileName,
+    contentType: getVideoMimeType(videoExtension),
+    thumbnail: thumbnailUri && thumbnailFileName
+      ? { sourceUri: thumbnailUri, bucket: STORAGE_BUCKETS.THUMBNAILS, objectName: thumbnailFileName }
+      : null,
+    record: videoRecord as Record<string, unknown>,
+  });
 };
 
 // ============================================================================
@@ -200,10 +277,31 @@ export function useVideoUpload(): UseVideoUploadReturn {
     []
   );
 
+  /**
+   * Probe a picked or recorded video and select it if it can be posted
+   */
+  const selectAsset = useCallback(
+    async (asset: ImagePicker.ImagePickerAsset, selectedMessage: string): Promise<VideoPickResult> => {
+      updateProgress('extracting', 20, 'Checking video...');
+
+      const { metadata, error } = await extractVideoMetadata(asset.uri, asset.mimeType);
+      if (!metadata) {
+        updateProgress('error', 0, 'Video can\'t be posted', error);
+        return { video: null, error };
+      }
+
+      setSelectedVideo(metadata);
+      updateProgress('idle', 100, selectedMessage);
+
+      return { video: metadata };
+    },
+    [updateProgress]
+  );
+
   /**
    * Pick video from gallery
    */
-  const pickFromGallery = useCallback(async (): Promise<VideoMetadata | null> => {
+  const pickFromGallery = useCallback(async (): Promise<VideoPickResult> => {
     try {
       updateProgress('picking', 0, 'Opening gallery...');
 
@@ -211,7 +309,7 @@ export function useVideoUpload(): UseVideoUploadReturn {
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
       if (!permissionResult.granted) {
         updateProgress('error', 0, 'Permission denied', 'Media library permission is required');
-        return null;
+        return { video: null, error: 'Media library permission is required' };
       }
 
       // Launch picker
@@ -224,67 +322,21 @@ export function useVideoUpload(): UseVideoUploadReturn {
 
       if (result.canceled || !result.assets || result.assets.length === 0) {
         updateProgress('idle', 0, '');
-        return null;
-      }
-
-      const asset = result.assets[0];
-
-      updateProgress('extracting', 20, 'Extracting video metadata...');
-
-      // Extract metadata from picker result
-      const metadata = await extractVideoMetadataFromPicker(asset);
-
-      // Validate duration
-      if (metadata.duration > VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS) {
-        updateProgress(
-          'error',
-          0,
-          'Video too long',
-          `Maximum duration is ${VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS} seconds`
-        );
-        return null;
-      }
-
-      if (metadata.duration < VIDEO_CONSTRAINTS.MIN_DURATION_SECONDS && metadata.duration > 0) {
-        updateProgress(
-          'error',
-          0,
-          'Video too short',
-          `Minimum duration is ${VIDEO_CONSTRAINTS.MIN_DURATION_SECONDS} seconds`
-        );
-        return null;
-      }
-
-      // Validate file size
-      if (metadata.fileSize > VIDEO_CONSTRAINTS.MAX_FILE_SIZE_BYTES) {
-        updateProgress(
-          'error',
-          0,
-          'File too large',
-          `Maximum file size is ${VIDEO_CONSTRAINTS.MAX_FILE_SIZE_BYTES / (1024 * 1024)}MB`
-        );
-        return null;
+        return { video: null };
       }
 
-      setSelectedVideo(metadata);
-      updateProgress('idle', 100, 'Video selected');
-
-      return metadata;
+      return await selectAsset(result.assets[0], 'Video selected');
     } catch (error) {
-      updateProgress(
-        'error',
-        0,
-        'Failed to pick video',
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-      return null;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      updateProgress('error', 0, 'Failed to pick video', errorMessage);
+      return { video: null, error: errorMessage };
     }
-  }, [updateProgress]);
+  }, [updateProgress, selectAsset]);
 
   /**
    * Record video using camera
    */
-  const recordVideo = useCallback(async (): Promise<VideoMetadata | null> => {
+  const recordVideo = useCallback(async (): Promise<VideoPickResult> => {
     try {
       updateProgress('recording', 0, 'Opening camera...');
 
@@ -292,14 +344,14 @@ export function useVideoUpload(): UseVideoUploadReturn {
       const cameraPermission = await ImagePicker.requestCameraPermissionsAsync();
       if (!cameraPermission.granted) {
         updateProgress('error', 0, 'Permission denied', 'Camera permission is required');
-        return null;
+        return { video: null, error: 'Camera permission is required' };
       }
 
       // Request microphone permissions
       const micPermission = await Camera.requestMicrophonePermissionsAsync();
       if (!micPermission.granted) {
         updateProgress('error', 0, 'Permission denied', 'Microphone permission is required');
-        return null;
+        return { video: null, error: 'Microphone permission is required' };
       }
 
       // Launch camera
@@ -312,41 +364,16 @@ export function useVideoUpload(): UseVideoUploadReturn {
 
       if (result.canceled || !result.assets || result.assets.length === 0) {
         updateProgress('idle', 0, '');
-        return null;
+        return { video: null };
       }
 
-      const asset = result.assets[0];
-
-      updateProgress('extracting', 20, 'Extracting video metadata...');
-
-      // Extract metadata from picker result
-      const metadata = await extractVideoMetadataFromPicker(asset);
-
-      // Validate duration
-      if (metadata.duration > VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS) {
-        updateProgress(
-          'error',
-          0,
-          'Video too long',
-          `Maximum duration is ${VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS} seconds`
-        );
-        return null;
-      }
-
-      setSelectedVideo(metadata);
-      updateProgress('idle', 100, 'Video recorded');
-
-      return metadata;
+      return await selectAsset(result.assets[0], 'Video recorded');
     } catch (error) {
-      updateProgress(
-        'error',
-        0,
-        'Failed to record video',
-        error instanceof Error ? error.message : 'Unknown error'
-      );
-      return null;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      updateProgress('error', 0, 'Failed to record video', errorMessage);
+      return { video: null, error: errorMessage };
     }
-  }, [updateProgress]);
+  }, [updateProgress, selectAsset]);
 
   /**
    * Extract metadata from existing video URI
@@ -354,12 +381,12 @@ export function useVideoUpload(): UseVideoUploadReturn {
   const extractMetadata = useCallback(
     async (uri: string): Promise<VideoMetadata | null> => {
       updateProgress('extracting', 0, 'Extracting metadata...');
-      const metadata = await extractVideoMetadata(uri);
+      const { metadata, error } = await extractVideoMetadata(uri);
       if (metadata) {
         setSelectedVideo(metadata);
         updateProgress('idle', 100, 'Metadata extracted');
       } else {
-        updateProgress('error', 0, 'Failed to extract metadata');
+        updateProgress('error', 0, 'Video can\'t be posted', error);
       }
       return metadata;
     },
@@ -393,13 +420,17 @@ export function useVideoUpload(): UseVideoUploadReturn {
   );
 
   /**
-   * Upload video to Supabase Storage and create database record
+   * Upload video to Supabase Storage and create database record. With a
+   * draft, its saved video and thumbnail are published instead of the
+   * selection, and the draft keeps the files if the upload fails.
    */
   const uploadVideo = useCallback(
-    async (input: VideoUploadInput): Promise<UploadResult> => {
+    async (input: VideoUploadInput, draft?: ReviewDraft): Promise<UploadResult> => {
       try {
+        const video = draft?.video ?? selectedVideo;
+
         // Validate we have a selected video
-        if (!selectedVideo) {
+        if (!video) {
           return { success: false, error: 'No video selected' };
         }
 
@@ -410,171 +441,51 @@ export function useVideoUpload(): UseVideoUploadReturn {
         }
 
         // Generate thumbnail if not already done
-        let thumbUri = thumbnailUri;
+        let thumbUri = draft ? draft.thumbnailUri : thumbnailUri;
         if (!thumbUri) {
           updateProgress('generating_thumbnail', 10, 'Generating thumbnail...');
-          thumbUri = await generateThumbnail(selectedVideo.uri);
+          thumbUri = await generateThumbnail(video.uri);
         }
 
-        // ====================================================================
-        // COMPRESSION NOTE:
-        // Video compression in Expo managed workflow is limited.
-        // For production, consider:
-        // 1. expo-video-compressor (requires prebuild/native)
-        // 2. ffmpeg-kit-react-native (requires prebuild/native)
-        // 3. Server-side compression after upload
-        //
-        // Current implementation uploads original quality.
-        // See COMPRESSION.md for detailed options.
-        // ====================================================================
-
-        updateProgress('uploading', 20, 'Uploading video...');
-
-        // Get auth token for storage upload
-        const session = await getCurrentSession();
-        if (!session) {
-          throw new Error('No active session');
-        }
+        // Uploads go up at original quality; the transcode worker re-encodes
+        // them to H.264 at COMPRESSION_SETTINGS and re-probes duration and
+        // dimensions (see COMPRESSION.md)
 
-        // Generate filename
-        const videoExtension = getFileExtension(selectedVideo.uri, selectedVideo.mimeType);
-        const videoFileName = generateFileName(user.id, videoExtension);
-
-        // Upload video using FileSystem.uploadAsync (native file transfer, avoids empty blob issues)
-        const videoUploadUrl = `${SUPABASE_URL}/storage/v1/object/${STORAGE_BUCKETS.VIDEOS}/${videoFileName}`;
-        const videoUploadResult = await FileSystem.uploadAsync(videoUploadUrl, selectedVideo.uri, {
-          httpMethod: 'POST',
-          uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
-          headers: {
-            'Authorization': `Bearer ${session.access_token}`,
-            'apikey': SUPABASE_ANON_KEY,
-            'Content-Type': getVideoMimeType(videoExtension),
-          },
-        });
+        updateProgress('uploading', 0, 'Preparing upload...');
 
-        if (videoUploadResult.status < 200 || videoUploadResult.status >= 300) {
-          throw new Error(`Video upload failed: ${videoUploadResult.body}`);
-        }
-
-        updateProgress('uploading', 60, 'Uploading thumbnail...');
-
-        // Upload thumbnail if available
-        let thumbnailUrl: string | null = null;
-        if (thumbUri) {
-          try {
-            const thumbnailFileName = generateFileName(user.id, 'jpg');
-
-            const thumbUploadUrl = `${SUPABASE_URL}/storage/v1/object/${STORAGE_BUCKETS.THUMBNAILS}/${thumbnailFileName}`;
-            const thumbUploadResult = await FileSystem.uploadAsync(thumbUploadUrl, thumbUri, {
-              httpMethod: 'POST',
-              uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
-              headers: {
-                'Authorization': `Bearer ${session.access_token}`,
-                'apikey': SUPABASE_ANON_KEY,
-                'Content-Type': 'image/jpeg',
-              },
-            });
-
-            if (thumbUploadResult.status >= 200 && thumbUploadResult.status < 300) {
-              const { data: thumbUrlData } = supabase.storage
-                .from(STORAGE_BUCKETS.THUMBNAILS)
-                .getPublicUrl(thumbnailFileName);
-
-              thumbnailUrl = thumbUrlData.publicUrl;
-            }
-          } catch {
-            // Thumbnail upload failed, continuing without it
-          }
-        }
-
-        // Get public URL for video
-        const { data: videoUrlData } = supabase.storage
-          .from(STORAGE_BUCKETS.VIDEOS)
-          .getPublicUrl(videoFileName);
-
-        updateProgress('creating_record', 80, 'Creating video record...');
-
-        // Create video record in database
-        const videoRecord: Partial<Video> = {
-          user_id: user.id,
-          title: input.title,
-          description: null,
-          video_url: videoUrlData.publicUrl,
-          thumbnail_url: thumbnailUrl,
-          duration_seconds: selectedVideo.duration || null,
-          width: selectedVideo.width || null,
-          height: selectedVideo.height || null,
-          file_size_bytes: selectedVideo.fileSize || null,
-          status: 'processing', // Will be updated to 'ready' after server processing
-          visibility: input.visibility || 'public',
-          parent_video_id: input.parentVideoId || null,
-        };
-
-        // Add agree_disagree for response videos
-        if (input.parentVideoId && input.agreeDisagree !== undefined) {
-          (videoRecord as Record<string, unknown>).agree_disagree = input.agreeDisagree;
-        }
+        const uploadSession = await createVideoUploadSession({
+          userId: user.id,
+          video,
+          thumbnailUri: thumbUri,
+          input,
+          draftId: draft?.id,
+        });
 
-        // Add rating, movie title, and TMDB data for root videos
-        if (!input.parentVideoId) {
-          if (input.rating !== undefined) {
-            (videoRecord as Record<string, unknown>).rating = input.rating;
-          }
-          if (input.movieTitle) {
-            (videoRecord as Record<string, unknown>).movie_title = input.movieTitle;
-          }
-          if (input.tmdbId !== undefined) {
-            (videoRecord as Record<string, unknown>).tmdb_id = input.tmdbId;
+        const outcome = await runUploadSession(uploadSession.id, (bytesUploaded, totalBytes) => {
+          if (bytesUploaded >= totalBytes) {
+            updateProgress('creating_record', 100, 'Creating video record...');
+            return;
           }
-          if (input.tmdbMediaType) {
-            (videoRecord as Record<string, unknown>).tmdb_media_type = input.tmdbMediaType;
-          }
-          if (input.tmdbPosterPath) {
-            (videoRecord as Record<string, unknown>).tmdb_poster_path = input.tmdbPosterPath;
-          }
-        }
-
-        const { data: insertedVideo, error: insertError } = await supabase
-          .from('videos')
-          .insert(videoRecord)
-          .select()
-          .single();
+          setProgress({
+            stage: 'uploading',
+            progress: Math.floor((bytesUploaded / totalBytes) * 100),
+            message: `Uploading video... ${formatMegabytes(bytesUploaded)} of ${formatMegabytes(totalBytes)} MB`,
+            bytesUploaded,
+            totalBytes,
+          });
+        });
 
-        if (insertError) {
-          throw new Error(`Failed to create video record: ${insertError.message}`);
+        if (outcome.status === 'paused') {
+          updateProgress('idle', 0, 'Upload paused');
+          return { success: true, paused: true };
         }
 
-        // Update status to ready (in production, this would be done by server after processing)
-        const { data: updatedVideo, error: updateError } = await supabase
-          .from('videos')
-          .update({ status: 'ready', published_at: new Date().toISOString() })
-          .eq('id', insertedVideo.id)
-          .select()
-          .single();
-
-        // Status update error is non-critical
-
-        updateProgress('complete', 100, 'Upload complete!');
-
-        // Invalidate all feed queries so response counts update
-        queryClient.invalidateQueries({ queryKey: ['feed'] });
-        queryClient.invalidateQueries({ queryKey: ['user-videos'] });
-        // Invalidate user stance cache so action row updates
-        queryClient.invalidateQueries({ queryKey: ['user-stances'] });
-        // If this is a response, invalidate everything affected by the new vote
-        if (input.parentVideoId) {
-          queryClient.invalidateQueries({ queryKey: ['video-with-responses', input.parentVideoId] });
-          queryClient.invalidateQueries({ queryKey: ['video-responses', input.parentVideoId] });
-          // Vote triggers update profile ratio + video vote counts
-          queryClient.invalidateQueries({ queryKey: ['profile'] });
-          queryClient.invalidateQueries({ queryKey: ['leaderboard'] });
-          queryClient.invalidateQueries({ queryKey: ['suggested-users'] });
-          queryClient.invalidateQueries({ queryKey: ['has-responded', input.parentVideoId] });
-        }
+        updateProgress('complete', 100, 'Uploaded! Processing your video...');
+        invalidateUploadQueries(queryClient, input.parentVideoId);
 
         return {
           success: true,
-          video: updatedVideo || insertedVideo,
+          video: outcome.video,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -585,6 +496,15 @@ export function useVideoUpload(): UseVideoUploadReturn {
     [selectedVideo, thumbnailUri, generateThumbnail, updateProgress, queryClient]
   );
 
+  /**
+   * Load a saved video back in, e.g. when editing a draft
+   */
+  const restoreVideo = useCallback((video: VideoMetadata, thumbUri: string | null) => {
+    setSelectedVideo(video);
+    setThumbnailUri(thumbUri);
+    setProgress({ stage: 'idle', progress: 0, message: '' });
+  }, []);
+
   return {
     // State
     progress,
@@ -597,6 +517,7 @@ export function useVideoUpload(): UseVideoUploadReturn {
     extractMetadata,
     generateThumbnail,
     uploadVideo,
+    restoreVideo,
     reset,
   };
 }
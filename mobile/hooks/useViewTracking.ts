@@ -0,0 +1,76 @@
+// ============================================================================
+// LewReviews Mobile - useViewTracking Hook
+// Measures playback of the active video and queues qualified views
+// ============================================================================
+
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import type { VideoPlayer } from 'expo-video';
+import { isQualifiedView, queueView, flushViews } from '../lib/viewTracking';
+import { VIEW_TRACKING } from '../constants/config';
+
+const SAMPLE_INTERVAL_MS = 250;
+
+/**
+ * Hook to measure playback of the active video and report qualified views.
+ * A watch session runs while the video is active and ends when it scrolls
+ * away, unmounts or the app is backgrounded.
+ */
+export function useViewTracking(
+  videoId: string | undefined,
+  player: VideoPlayer | null,
+  isActive: boolean
+) {
+  const watchSecondsRef = useRef(0);
+  const maxPositionRef = useRef(0);
+  const durationRef = useRef(0);
+
+  useEffect(() => {
+    if (!videoId || !player || !isActive) return;
+
+    const endSession = () => {
+      const watchSeconds = watchSecondsRef.current;
+      if (isQualifiedView(watchSeconds, durationRef.current)) {
+        queueView({
+          video_id: videoId,
+          watch_seconds: watchSeconds,
+          max_position_seconds: maxPositionRef.current,
+          completed:
+            durationRef.current > 0 &&
+            maxPositionRef.current / durationRef.current >= VIEW_TRACKING.COMPLETION_FRACTION,
+        });
+      }
+      watchSecondsRef.current = 0;
+      maxPositionRef.current = 0;
+    };
+
+    let lastSampleAt = Date.now();
+    const interval = setInterval(() => {
+      const now = Date.now();
+      // Only count wall time while actually playing; cap gaps from JS stalls
+      if (player.playing) {
+        watchSecondsRef.current += Math.min(now - lastSampleAt, SAMPLE_INTERVAL_MS * 4) / 1000;
+        if (player.duration > 0) {
+          durationRef.current = player.duration;
+          maxPositionRef.current = Math.max(maxPositionRef.current, player.currentTime);
+        }
+      }
+      lastSampleAt = now;
+    }, SAMPLE_INTERVAL_MS);
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'background') {
+        endSession();
+        flushViews();
+      } else if (nextState === 'active') {
+        lastSampleAt = Date.now();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+      endSession();
+    };
+  }, [videoId, player, isActive]);
+}
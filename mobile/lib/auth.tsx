@@ -7,6 +7,7 @@ import * as Linking from 'expo-linking';
 import { supabase } from './supabase';
 import { clearPushToken } from '../hooks/usePushNotifications';
 import type { AuthError, User, Session } from '@supabase/supabase-js';
+import type { AccountStanding } from '../types';
 
 // ============================================================================
 // Types
@@ -18,6 +19,13 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   isPasswordRecovery: boolean;
+  // Role claim in app_metadata (set server-side); RLS enforces it, this only gates UI
+  isModerator: boolean;
+  // Suspended/banned accounts can browse but every content write is refused by RLS
+  accountStanding: AccountStanding | null;
+  isSuspended: boolean;
+  isBanned: boolean;
+  refreshAccountStanding: () => Promise<void>;
   clearPasswordRecovery: () => void;
   signInWithEmail: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signUpWithEmail: (email: string, password: string) => Promise<{ error: AuthError | null }>;
@@ -39,6 +47,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isPasswordRecovery, setIsPasswordRecovery] = useState(false);
+  const [accountStanding, setAccountStanding] = useState<AccountStanding | null>(null);
 
   const handleDeepLink = useCallback(async (url: string) => {
     const parsed = Linking.parse(url);
@@ -102,6 +111,37 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, [handleDeepLink]);
 
+  const userId = user?.id;
+
+  const refreshAccountStanding = useCallback(async () => {
+    if (!userId) {
+      setAccountStanding(null);
+      return;
+    }
+    const { data, error } = await supabase.rpc('get_account_standing');
+    // Keep the last known standing on transient failures
+    if (!error && data) {
+      setAccountStanding(data as AccountStanding);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshAccountStanding();
+  }, [refreshAccountStanding]);
+
+  // Lift the suspension locally the moment it ends
+  const suspendedUntil = accountStanding?.suspended_until ?? null;
+  useEffect(() => {
+    if (!suspendedUntil) return;
+    const remaining = new Date(suspendedUntil).getTime() - Date.now();
+    // setTimeout can't wait longer than ~24.8 days; a later refresh picks it up
+    if (remaining <= 0 || remaining > 2 ** 31 - 1) return;
+    const timer = setTimeout(() => {
+      refreshAccountStanding();
+    }, remaining + 1000);
+    return () => clearTimeout(timer);
+  }, [suspendedUntil, refreshAccountStanding]);
+
   const signInWithEmail = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     return { error };
@@ -129,6 +169,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
     isLoading,
     isAuthenticated: !!session,
     isPasswordRecovery,
+    isModerator: session?.user.app_metadata?.role === 'moderator',
+    accountStanding,
+    isSuspended: !!suspendedUntil && new Date(suspendedUntil).getTime() > Date.now(),
+    isBanned: !!accountStanding?.banned_at,
+    refreshAccountStanding,
     clearPasswordRecovery,
     signInWithEmail,
     signUpWithEmail,
@@ -0,0 +1,110 @@
+// ============================================================================
+// LewReviews Mobile - Deep Links
+// ============================================================================
+// Maps inbound lewreviews:// and https://lewreviews.app URLs onto app routes
+// and holds a link opened while signed out until login completes
+// ============================================================================
+
+import { LINKING } from '../constants/config';
+
+// Fallback route for links to unknown, removed or blocked content
+export const LINK_UNAVAILABLE_PATH = '/link-unavailable';
+
+// Content routes a shared link can open, keyed by the URL's first path segment.
+// `v` is the short form used by web previews.
+const CONTENT_ROUTES = new Map<string, string>([
+  ['video', 'video'],
+  ['v', 'video'],
+  ['profile', 'profile'],
+  ['replies', 'replies'],
+]);
+
+let pendingDeepLink: string | null = null;
+
+/**
+ * Split a URL or bare path into path segments, accepting the custom scheme,
+ * the web host (with or without www) and plain paths from expo-router.
+ * Returns null for URLs on other hosts.
+ */
+function getPathSegments(url: string): string[] | null {
+  let path = url.trim();
+
+  const schemePrefix = `${LINKING.SCHEME}://`;
+  if (path.startsWith(schemePrefix)) {
+    path = path.slice(schemePrefix.length);
+  } else if (/^https?:\/\//i.test(path)) {
+    const withoutProtocol = path.replace(/^https?:\/\//i, '');
+    const slashIndex = withoutProtocol.indexOf('/');
+    const host = (slashIndex === -1 ? withoutProtocol : withoutProtocol.slice(0, slashIndex)).toLowerCase();
+    if (host !== LINKING.WEB_HOST && host !== `www.${LINKING.WEB_HOST}`) {
+      return null;
+    }
+    path = slashIndex === -1 ? '' : withoutProtocol.slice(slashIndex);
+  }
+
+  // Query and fragment are not part of the route (auth tokens travel in the fragment)
+  path = path.split(/[?#]/)[0];
+
+  return path
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment));
+}
+
+/**
+ * Resolve an inbound URL to the app path expo-router should open.
+ * Content links map to their route (malformed ones to the fallback screen);
+ * anything else, such as auth callbacks, is returned unchanged for expo-router
+ * to match or send to +not-found.
+ */
+export function resolveDeepLinkPath(url: string): string {
+  const segments = getPathSegments(url);
+  if (segments === null || segments.length === 0) {
+    return segments === null ? url : '/';
+  }
+
+  const [first, id, ...rest] = segments;
+
+  const route = CONTENT_ROUTES.get(first);
+  if (!route) {
+    return url;
+  }
+  if (!id || rest.length > 0) {
+    return LINK_UNAVAILABLE_PATH;
+  }
+
+  return `/${route}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Whether an app path is a shareable content route worth reopening after login
+ */
+export function isContentLinkPath(pathname: string): boolean {
+  const [first, id] = pathname.split('/').filter(Boolean);
+  return !!id && [...CONTENT_ROUTES.values()].includes(first);
+}
+
+/**
+ * Remember a content path opened while signed out
+ */
+export function setPendingDeepLink(pathname: string): void {
+  pendingDeepLink = pathname;
+}
+
+/**
+ * Take the pending content path (if any), clearing it
+ */
+export function consumePendingDeepLink(): string | null {
+  const path = pendingDeepLink;
+  pendingDeepLink = null;
+  return path;
+}
+
+/**
+ * Public https link for a piece of content, used when sharing. Videos use the
+ * short `v/` form, which the web host serves as an Open Graph preview page.
+ */
+export function buildShareUrl(kind: 'video' | 'profile' | 'replies', id: string): string {
+  const segment = kind === 'video' ? 'v' : kind;
+  return `${LINKING.WEB_URL}/${segment}/${encodeURIComponent(id)}`;
+}
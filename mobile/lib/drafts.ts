@@ -0,0 +1,210 @@
+// ============================================================================
+// LewReviews Mobile - Review Drafts
+// Reviews kept on the device: saved to finish later, or queued in the
+// outbox to publish once there's a connection. Each draft owns a copy of
+// its video and thumbnail under documentDirectory/drafts/, so a failed
+// upload or a cleared picker cache never loses the recording. File paths
+// are saved relative to documentDirectory (lib/localFiles.ts). Publishing
+// goes through the resumable sessions in lib/resumableUpload.ts.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { discardDraftUploads } from './resumableUpload';
+import { fromStoredPath, toStoredPath } from './localFiles';
+import type {
+  DraftStatus,
+  ReviewDraft,
+  TmdbSearchResult,
+  VideoMetadata,
+  VideoRating,
+  VideoUploadInput,
+} from '../types';
+
+const DRAFTS_DIR = `${FileSystem.documentDirectory}drafts/`;
+
+interface DraftsState {
+  drafts: Record<string, ReviewDraft>;
+  putDraft: (draft: ReviewDraft) => void;
+  updateDraft: (id: string, changes: Partial<Omit<ReviewDraft, 'id' | 'userId'>>) => void;
+  removeDraft: (id: string) => void;
+}
+
+// Drafts hold full URIs in memory and relative paths in AsyncStorage
+function mapDraftFiles(
+  drafts: Record<string, ReviewDraft>,
+  mapPath: (path: string) => string
+): Record<string, ReviewDraft> {
+  return Object.fromEntries(
+    Object.entries(drafts).map(([id, draft]) => [
+      id,
+      {
+        ...draft,
+        video: { ...draft.video, uri: mapPath(draft.video.uri) },
+        thumbnailUri: draft.thumbnailUri ? mapPath(draft.thumbnailUri) : null,
+      },
+    ])
+  );
+}
+
+export const useDraftsStore = create<DraftsState>()(
+  persist(
+    (set) => ({
+      drafts: {},
+      putDraft: (draft) =>
+        set((state) => ({ drafts: { ...state.drafts, [draft.id]: draft } })),
+      updateDraft: (id, changes) =>
+        set((state) => {
+          const draft = state.drafts[id];
+          if (!draft) return state;
+          return { drafts: { ...state.drafts, [id]: { ...draft, ...changes, updatedAt: Date.now() } } };
+        }),
+      removeDraft: (id) =>
+        set((state) => {
+          const drafts = { ...state.drafts };
+          delete drafts[id];
+          return { drafts };
+        }),
+    }),
+    {
+      name: 'lewreviews.drafts',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ drafts: mapDraftFiles(state.drafts, toStoredPath) }),
+      merge: (persisted, current) => ({
+        ...current,
+        drafts: mapDraftFiles((persisted as Partial<DraftsState> | undefined)?.drafts ?? {}, fromStoredPath),
+      }),
+    }
+  )
+);
+
+/**
+ * Resolves once drafts have been loaded from AsyncStorage.
+ */
+export function draftsHydrated(): Promise<void> {
+  if (useDraftsStore.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = useDraftsStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+export interface DraftInput {
+  id?: string;
+  userId: string;
+  video: VideoMetadata;
+  thumbnailUri: string | null;
+  title: string;
+  description: string;
+  rating: VideoRating | null;
+  movieTitle: string;
+  tmdbSelection: TmdbSearchResult | null;
+}
+
+async function deleteFiles(uris: (string | null)[]): Promise<void> {
+  for (const uri of uris) {
+    if (uri) {
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined);
+    }
+  }
+}
+
+// Files already in DRAFTS_DIR are reused as they are
+async function keepFile(uri: string, name: string): Promise<string> {
+  if (uri.startsWith(DRAFTS_DIR)) return uri;
+
+  await FileSystem.makeDirectoryAsync(DRAFTS_DIR, { intermediates: true });
+  const target = `${DRAFTS_DIR}${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}-${name}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+}
+
+/**
+ * Create or update a draft, copying its files into drafts storage.
+ */
+export async function saveDraft(input: DraftInput, status: DraftStatus = 'draft'): Promise<ReviewDraft> {
+  const id = input.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+  const existing = useDraftsStore.getState().drafts[id];
+
+  const extension = input.video.uri.match(/\.(\w+)$/)?.[1] ?? 'mp4';
+  const videoUri = await keepFile(input.video.uri, `video.${extension}`);
+  const thumbnailUri = input.thumbnailUri ? await keepFile(input.thumbnailUri, 'thumbnail.jpg') : null;
+
+  if (existing) {
+    // An earlier upload carries the old caption and rating
+    await discardDraftUploads(id);
+    // Re-recorded or re-picked since the last save
+    await deleteFiles(
+      [existing.video.uri, existing.thumbnailUri].filter((uri) => uri !== videoUri && uri !== thumbnailUri)
+    );
+  }
+
+  const now = Date.now();
+  const draft: ReviewDraft = {
+    id,
+    userId: input.userId,
+    video: { ...input.video, uri: videoUri },
+    thumbnailUri,
+    title: input.title,
+    description: input.description,
+    rating: input.rating,
+    movieTitle: input.movieTitle,
+    tmdbSelection: input.tmdbSelection,
+    status,
+    error: null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  useDraftsStore.getState().putDraft(draft);
+  return draft;
+}
+
+/**
+ * Delete a draft with its files, stopping its upload if one is running.
+ */
+export async function deleteDraft(id: string): Promise<void> {
+  const draft = useDraftsStore.getState().drafts[id];
+  useDraftsStore.getState().removeDraft(id);
+  await discardDraftUploads(id);
+  if (draft) {
+    await deleteFiles([draft.video.uri, draft.thumbnailUri]);
+  }
+}
+
+/**
+ * Put a draft in the outbox; useResumableUploads publishes it.
+ */
+export function queueDraft(id: string): void {
+  useDraftsStore.getState().updateDraft(id, { status: 'queued', error: null });
+}
+
+/**
+ * Take a draft back out of the outbox, dropping any partial upload.
+ */
+export async function unqueueDraft(id: string): Promise<void> {
+  useDraftsStore.getState().updateDraft(id, { status: 'draft' });
+  await discardDraftUploads(id);
+}
+
+/**
+ * Whether a draft has everything a review needs to be posted.
+ */
+export function isDraftComplete(draft: ReviewDraft): boolean {
+  return !!draft.title.trim() && draft.rating !== null && !!draft.movieTitle.trim();
+}
+
+export function draftUploadInput(draft: ReviewDraft): VideoUploadInput {
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim() || undefined,
+    rating: draft.rating ?? undefined,
+    movieTitle: draft.movieTitle.trim(),
+    tmdbId: draft.tmdbSelection?.id,
+    tmdbMediaType: draft.tmdbSelection?.media_type,
+    tmdbPosterPath: draft.tmdbSelection?.poster_path ?? undefined,
+  };
+}
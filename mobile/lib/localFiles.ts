@@ -0,0 +1,34 @@
+// ============================================================================
+// LewReviews Mobile - Local Files
+// Drafts and upload sessions keep their files under documentDirectory. The
+// directory's absolute path isn't stable (iOS moves the app container on
+// updates and restores), so stored paths are relative to it and rebuilt
+// into full URIs when read back.
+// ============================================================================
+
+import * as FileSystem from 'expo-file-system/legacy';
+
+// Folders the app keeps files in, for URIs saved before paths were relative
+const LEGACY_FILE_PATTERN = /\/((?:drafts|uploads)\/[^/]+)$/;
+
+/**
+ * Path to store for a file URI: relative when it's under documentDirectory,
+ * unchanged otherwise.
+ */
+export function toStoredPath(uri: string): string {
+  const root = FileSystem.documentDirectory;
+  return root && uri.startsWith(root) ? uri.slice(root.length) : uri;
+}
+
+/**
+ * Full URI for a stored path. Absolute URIs from older versions that point
+ * into drafts/ or uploads/ are moved onto the current documentDirectory.
+ */
+export function fromStoredPath(path: string): string {
+  const root = FileSystem.documentDirectory ?? '';
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(path)) {
+    return `${root}${path}`;
+  }
+  const legacy = root && !path.startsWith(root) ? path.match(LEGACY_FILE_PATTERN) : null;
+  return legacy ? `${root}${legacy[1]}` : path;
+}
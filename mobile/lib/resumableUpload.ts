@@ -0,0 +1,577 @@
+// ============================================================================
+// LewReviews Mobile - Resumable Uploads
+// Sends videos to Supabase Storage with the TUS protocol
+// (/storage/v1/upload/resumable) in 6MB chunks. Each session is kept in
+// AsyncStorage together with the video record it creates, so an upload cut
+// off by a dropped connection or an app restart carries on from the last
+// byte the server acknowledged. The thumbnail goes up with the same session
+// so an upload started offline still gets one. File paths are stored
+// relative to documentDirectory (lib/localFiles.ts).
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { File } from 'expo-file-system';
+import { fetch } from 'expo/fetch';
+import { supabase, getCurrentSession } from './supabase';
+import { fromStoredPath, toStoredPath } from './localFiles';
+import { SUPABASE_URL, SUPABASE_ANON_KEY, RESUMABLE_UPLOAD } from '../constants/config';
+import type { Video } from '../types';
+
+const SESSIONS_KEY = 'lewreviews.upload_sessions';
+const UPLOADS_DIR = `${FileSystem.documentDirectory}uploads/`;
+const TUS_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+const TUS_VERSION = '1.0.0';
+
+export interface UploadSession {
+  id: string;
+  userId: string;
+  // Draft being published (lib/drafts.ts); the draft owns the files
+  draftId: string | null;
+  // Private copy of the video; picker files live in a cache the OS may clear
+  fileUri: string;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  size: number;
+  // TUS upload resource, once created
+  uploadUrl: string | null;
+  // Bytes the server has acknowledged
+  offset: number;
+  // Uploaded to the thumbnails bucket after the video; null once done
+  thumbnail: { fileUri: string; bucket: string; objectName: string } | null;
+  // Inserted into videos once every byte is up
+  record: Record<string, unknown>;
+  createdAt: number;
+}
+
+export type UploadProgressListener = (bytesUploaded: number, totalBytes: number) => void;
+
+export type UploadOutcome =
+  | { status: 'complete'; video: Video }
+  | { status: 'paused'; error: string };
+
+// A failure that waiting can fix: offline, timeouts, 5xx, signed out
+class UploadInterrupted extends Error {}
+
+const runs = new Map<string, Promise<UploadOutcome>>();
+const listeners = new Map<string, UploadProgressListener>();
+let storeQueue: Promise<unknown> = Promise.resolve();
+let isResuming = false;
+
+// ============================================================================
+// Session store
+// ============================================================================
+
+// Sessions hold full URIs in memory and relative paths in AsyncStorage
+function mapSessionFiles(
+  sessions: Record<string, UploadSession>,
+  mapPath: (path: string) => string
+): Record<string, UploadSession> {
+  return Object.fromEntries(
+    Object.entries(sessions).map(([id, session]) => [
+      id,
+      {
+        ...session,
+        fileUri: mapPath(session.fileUri),
+        thumbnail: session.thumbnail ? { ...session.thumbnail, fileUri: mapPath(session.thumbnail.fileUri) } : null,
+      },
+    ])
+  );
+}
+
+async function readSessions(): Promise<Record<string, UploadSession>> {
+  try {
+    const stored = await AsyncStorage.getItem(SESSIONS_KEY);
+    return stored ? mapSessionFiles(JSON.parse(stored), fromStoredPath) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Writes are chained so concurrent uploads can't overwrite each other
+function updateSessions(mutate: (sessions: Record<string, UploadSession>) => void): Promise<void> {
+  const next = storeQueue.then(async () => {
+    const sessions = await readSessions();
+    mutate(sessions);
+    await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(mapSessionFiles(sessions, toStoredPath)));
+  });
+  storeQueue = next.catch(() => undefined);
+  return next;
+}
+
+// Returns false when the session was discarded mid-upload, so a running
+// upload can't bring it back
+async function saveSession(session: UploadSession, create = false): Promise<boolean> {
+  let saved = false;
+  await updateSessions((sessions) => {
+    if (!create && !sessions[session.id]) return;
+    sessions[session.id] = { ...session };
+    saved = true;
+  });
+  return saved;
+}
+
+/**
+ * Upload sessions that haven't finished yet, oldest first.
+ */
+export async function listUploadSessions(userId: string): Promise<UploadSession[]> {
+  const sessions = await readSessions();
+  return Object.values(sessions)
+    .filter((session) => session.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Forget sessions and delete their local copies. Partial uploads expire on
+ * the server by themselves, and a run in progress stops at its next chunk.
+ */
+async function discardSessions(matches: (session: UploadSession) => boolean): Promise<void> {
+  const removed: UploadSession[] = [];
+  await updateSessions((sessions) => {
+    for (const session of Object.values(sessions)) {
+      if (matches(session)) {
+        removed.push(session);
+        delete sessions[session.id];
+      }
+    }
+  });
+
+  // Drafts keep their files until the draft itself goes
+  const files = removed
+    .filter((session) => !session.draftId)
+    .flatMap((session) => [session.fileUri, session.thumbnail?.fileUri]);
+  for (const fileUri of files) {
+    if (fileUri) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true }).catch(() => undefined);
+    }
+  }
+}
+
+export function discardUploadSession(sessionId: string): Promise<void> {
+  return discardSessions((session) => session.id === sessionId);
+}
+
+export function discardDraftUploads(draftId: string): Promise<void> {
+  return discardSessions((session) => session.draftId === draftId);
+}
+
+/**
+ * Persist a session for a video, copying the files somewhere durable
+ * unless they belong to a draft. Nothing is sent until runUploadSession.
+ */
+export async function createUploadSession(input: {
+  userId: string;
+  draftId?: string;
+  sourceUri: string;
+  bucket: string;
+  objectName: string;
+  contentType: string;
+  thumbnail: { sourceUri: string; bucket: string; objectName: string } | null;
+  record: Record<string, unknown>;
+}): Promise<UploadSession> {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+  let fileUri = input.sourceUri;
+  let thumbnailUri = input.thumbnail?.sourceUri ?? null;
+  if (!input.draftId) {
+    await FileSystem.makeDirectoryAsync(UPLOADS_DIR, { intermediates: true });
+    fileUri = `${UPLOADS_DIR}${id}.${input.objectName.split('.').pop()}`;
+    await FileSystem.copyAsync({ from: input.sourceUri, to: fileUri });
+    if (thumbnailUri) {
+      const thumbnailCopy = `${UPLOADS_DIR}${id}.jpg`;
+      await FileSystem.copyAsync({ from: thumbnailUri, to: thumbnailCopy });
+      thumbnailUri = thumbnailCopy;
+    }
+  }
+
+  const info = await FileSystem.getInfoAsync(fileUri);
+  if (!info.exists || info.size === 0) {
+    if (!input.draftId) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    }
+    throw new Error('Could not read the video file');
+  }
+
+  const session: UploadSession = {
+    id,
+    userId: input.userId,
+    draftId: input.draftId ?? null,
+    fileUri,
+    bucket: input.bucket,
+    objectName: input.objectName,
+    contentType: input.contentType,
+    size: info.size,
+    uploadUrl: null,
+    offset: 0,
+    thumbnail: input.thumbnail && thumbnailUri
+      ? { fileUri: thumbnailUri, bucket: input.thumbnail.bucket, objectName: input.thumbnail.objectName }
+      : null,
+    record: input.record,
+    createdAt: Date.now(),
+  };
+  await saveSession(session, true);
+  return session;
+}
+
+// ============================================================================
+// TUS requests
+// ============================================================================
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const encodeMetadata = (metadata: Record<string, string>): string =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+
+/**
+ * Send one TUS request, retrying network errors, timeouts, 429 and 5xx
+ * with backoff. Any other response is returned for the caller to judge.
+ */
+async function tusRequest(
+  url: string,
+  method: 'POST' | 'HEAD' | 'PATCH',
+  headers: Record<string, string>,
+  body?: Uint8Array<ArrayBuffer>
+) {
+  let lastError = 'Network request failed';
+
+  for (let attempt = 0; ; attempt++) {
+    // Fetched per request: a 100MB upload can outlive an access token
+    const session = await getCurrentSession();
+    if (!session) {
+      throw new UploadInterrupted('Sign in to finish uploading');
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), RESUMABLE_UPLOAD.REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          apikey: SUPABASE_ANON_KEY,
+          'Tus-Resumable': TUS_VERSION,
+          ...headers,
+        },
+        body,
+        signal: controller.signal,
+      });
+      if (response.status < 500 && response.status !== 429) {
+        return response;
+      }
+      lastError = `Storage responded with ${response.status}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : lastError;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (attempt >= RESUMABLE_UPLOAD.RETRY_DELAYS_MS.length) {
+      throw new UploadInterrupted(lastError);
+    }
+    await delay(RESUMABLE_UPLOAD.RETRY_DELAYS_MS[attempt]);
+  }
+}
+
+async function createUpload(session: UploadSession): Promise<string> {
+  const response = await tusRequest(TUS_ENDPOINT, 'POST', {
+    'Upload-Length': String(session.size),
+    'Upload-Metadata': encodeMetadata({
+      bucketName: session.bucket,
+      objectName: session.objectName,
+      contentType: session.contentType,
+      cacheControl: '3600',
+    }),
+    'x-upsert': 'false',
+  });
+
+  if (response.status !== 201) {
+    throw new Error(`Video upload failed: ${await response.text()}`);
+  }
+
+  const location = response.headers.get('Location');
+  if (!location) {
+    throw new Error('Video upload failed: no upload URL returned');
+  }
+  return location.startsWith('http') ? location : `${SUPABASE_URL}${location}`;
+}
+
+// The server's offset for an upload, or null once it has expired
+async function fetchOffset(uploadUrl: string): Promise<number | null> {
+  const response = await tusRequest(uploadUrl, 'HEAD', {});
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  const offset = Number(response.headers.get('Upload-Offset'));
+  if (!response.ok || !Number.isFinite(offset)) {
+    throw new Error(`Video upload failed: could not resume (${response.status})`);
+  }
+  return offset;
+}
+
+// Whether the whole video is already in storage. Finishing an upload
+// removes its TUS resource, so when the last chunk landed but the app died
+// before saving the offset, the upload looks expired and creating it again
+// would clash with the object.
+async function isStoredInFull(session: UploadSession): Promise<boolean> {
+  const { data, error } = await supabase.storage.from(session.bucket).info(session.objectName);
+  if (error) {
+    // Storage answered, so the object just isn't there
+    if (error.status !== undefined && error.status < 500) {
+      return false;
+    }
+    throw new UploadInterrupted(error.message);
+  }
+  return data.size === session.size;
+}
+
+// Sends the chunk at session.offset; returns the new offset, or null once
+// the upload has expired
+async function uploadChunk(session: UploadSession, uploadUrl: string): Promise<number | null> {
+  const length = Math.min(RESUMABLE_UPLOAD.CHUNK_SIZE_BYTES, session.size - session.offset);
+  const handle = new File(session.fileUri).open();
+  let chunk: Uint8Array<ArrayBuffer>;
+  try {
+    handle.offset = session.offset;
+    chunk = handle.readBytes(length);
+  } finally {
+    handle.close();
+  }
+
+  const response = await tusRequest(
+    uploadUrl,
+    'PATCH',
+    {
+      'Upload-Offset': String(session.offset),
+      'Content-Type': 'application/offset+octet-stream',
+    },
+    chunk
+  );
+
+  if (response.status === 204) {
+    return Number(response.headers.get('Upload-Offset'));
+  }
+  // An earlier PATCH landed without us hearing back: ask where to continue
+  if (response.status === 409) {
+    return fetchOffset(uploadUrl);
+  }
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  throw new Error(`Video upload failed: ${await response.text()}`);
+}
+
+// ============================================================================
+// Running sessions
+// ============================================================================
+
+// Like the video, a dropped connection pauses the upload; a thumbnail the
+// server refuses is skipped rather than failing the review
+async function uploadThumbnail(session: UploadSession): Promise<void> {
+  const thumbnail = session.thumbnail;
+  if (!thumbnail) return;
+
+  let status = 0;
+  if (new File(thumbnail.fileUri).exists) {
+    const auth = await getCurrentSession();
+    if (!auth) {
+      throw new UploadInterrupted('Sign in to finish uploading');
+    }
+    try {
+      const result = await FileSystem.uploadAsync(
+        `${SUPABASE_URL}/storage/v1/object/${thumbnail.bucket}/${thumbnail.objectName}`,
+        thumbnail.fileUri,
+        {
+          httpMethod: 'POST',
+          uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+          headers: {
+            Authorization: `Bearer ${auth.access_token}`,
+            apikey: SUPABASE_ANON_KEY,
+            'Content-Type': 'image/jpeg',
+            'x-upsert': 'true',
+          },
+        }
+      );
+      status = result.status;
+    } catch (error) {
+      throw new UploadInterrupted(error instanceof Error ? error.message : 'Network request failed');
+    }
+    if (status >= 500 || status === 429) {
+      throw new UploadInterrupted(`Storage responded with ${status}`);
+    }
+  }
+
+  if (status < 200 || status >= 300) {
+    session.record = { ...session.record, thumbnail_url: null };
+  }
+  if (!session.draftId) {
+    await FileSystem.deleteAsync(thumbnail.fileUri, { idempotent: true }).catch(() => undefined);
+  }
+  session.thumbnail = null;
+}
+
+async function createVideoRecord(session: UploadSession): Promise<Video> {
+  // The insert may have gone through on a run whose response was lost
+  const { data: existing, error: lookupError } = await supabase
+    .from('videos')
+    .select('*')
+    .eq('user_id', session.userId)
+    .eq('source_path', session.objectName)
+    .maybeSingle();
+  if (lookupError && !lookupError.code) {
+    throw new UploadInterrupted(lookupError.message);
+  }
+  if (existing) {
+    return existing as Video;
+  }
+
+  const { data, error } = await supabase
+    .from('videos')
+    .insert(session.record)
+    .select()
+    .single();
+
+  if (error) {
+    // PostgREST errors carry a code; network failures don't
+    if (!error.code) {
+      throw new UploadInterrupted(error.message);
+    }
+    await supabase.storage.from(session.bucket).remove([session.objectName]);
+    throw new Error(`Failed to create video record: ${error.message}`);
+  }
+  return data as Video;
+}
+
+async function performUpload(sessionId: string): Promise<UploadOutcome> {
+  const session = (await readSessions())[sessionId];
+  if (!session) {
+    throw new Error('Upload not found');
+  }
+
+  const report = () => listeners.get(sessionId)?.(session.offset, session.size);
+
+  try {
+    if (!new File(session.fileUri).exists) {
+      throw new Error('The video is no longer on this device');
+    }
+
+    report();
+    let needsSync = session.uploadUrl !== null;
+
+    while (session.offset < session.size) {
+      if (!session.uploadUrl) {
+        session.uploadUrl = await createUpload(session);
+        session.offset = 0;
+        needsSync = false;
+        if (!(await saveSession(session))) {
+          throw new Error('Upload cancelled');
+        }
+      }
+
+      const nextOffset = needsSync
+        ? await fetchOffset(session.uploadUrl)
+        : await uploadChunk(session, session.uploadUrl);
+      needsSync = false;
+
+      if (nextOffset === null) {
+        if (await isStoredInFull(session)) {
+          session.offset = session.size;
+        } else {
+          // Expired (Supabase keeps uploads for 24 hours): start over
+          session.uploadUrl = null;
+          session.offset = 0;
+        }
+      } else {
+        session.offset = nextOffset;
+      }
+      if (!(await saveSession(session))) {
+        throw new Error('Upload cancelled');
+      }
+      report();
+    }
+
+    if (session.thumbnail) {
+      await uploadThumbnail(session);
+      if (!(await saveSession(session))) {
+        throw new Error('Upload cancelled');
+      }
+    }
+
+    const video = await createVideoRecord(session);
+    await discardUploadSession(sessionId);
+    return { status: 'complete', video };
+  } catch (error) {
+    if (error instanceof UploadInterrupted) {
+      return { status: 'paused', error: error.message };
+    }
+    await discardUploadSession(sessionId);
+    throw error;
+  }
+}
+
+/**
+ * Upload a session's remaining bytes and create its video record.
+ * Resolves 'paused' when the connection gave out; the session is kept for
+ * resumeUploadSessions. Other failures discard the session and throw.
+ * Calling it for a session that's already running joins that run.
+ */
+export function runUploadSession(
+  sessionId: string,
+  onProgress?: UploadProgressListener
+): Promise<UploadOutcome> {
+  if (onProgress) {
+    listeners.set(sessionId, onProgress);
+  }
+
+  let run = runs.get(sessionId);
+  if (!run) {
+    run = performUpload(sessionId).finally(() => {
+      runs.delete(sessionId);
+      listeners.delete(sessionId);
+    });
+    runs.set(sessionId, run);
+  }
+  return run;
+}
+
+/**
+ * Resume the user's unfinished uploads one at a time. Stops at the first
+ * one that pauses again, since the rest would hit the same connection;
+ * resolves false in that case.
+ */
+export async function resumeUploadSessions(
+  userId: string,
+  callbacks: {
+    onComplete?: (video: Video, session: UploadSession) => void;
+    onFailed?: (session: UploadSession, error: string) => void;
+  } = {}
+): Promise<boolean> {
+  if (isResuming) return true;
+  isResuming = true;
+
+  try {
+    for (const session of await listUploadSessions(userId)) {
+      if (runs.has(session.id)) continue;
+
+      if (Date.now() - session.createdAt > RESUMABLE_UPLOAD.MAX_SESSION_AGE_MS) {
+        await discardUploadSession(session.id);
+        callbacks.onFailed?.(session, 'Upload expired');
+        continue;
+      }
+
+      try {
+        const outcome = await runUploadSession(session.id);
+        if (outcome.status === 'paused') return false;
+        callbacks.onComplete?.(outcome.video, session);
+      } catch (error) {
+        // Not retryable; the session has been discarded
+        callbacks.onFailed?.(session, error instanceof Error ? error.message : 'Upload failed');
+      }
+    }
+    return true;
+  } finally {
+    isResuming = false;
+  }
+}
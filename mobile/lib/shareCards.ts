@@ -0,0 +1,26 @@
+// ============================================================================
+// LewReviews Mobile - Share Cards
+// ============================================================================
+// Debate card images rendered by the share-card edge function and cached in
+// the share-cards bucket. Link previews for shared videos point at these.
+// ============================================================================
+
+import { SUPABASE_URL } from '../constants/config';
+
+/**
+ * Edge function URL that redirects to a video's current debate card PNG
+ */
+export function getShareCardUrl(videoId: string): string {
+  return `${SUPABASE_URL}/functions/v1/share-card?videoId=${encodeURIComponent(videoId)}`;
+}
+
+/**
+ * Render (or refresh) a video's card ahead of time so the link preview is
+ * ready by the time the recipient opens the share. Failures are ignored;
+ * the preview renders the card on demand instead.
+ */
+export function prefetchShareCard(videoId: string): void {
+  fetch(`${getShareCardUrl(videoId)}&format=json`).catch(() => {
+    // Best effort
+  });
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { CHAIN_CONSTRAINTS, HLS_RENDITIONS, STORAGE_BUCKETS } from '../constants/config';
 
 // Types for video responses
 export interface Video {
@@ -10,11 +11,12 @@ export interface Video {
   title: string;
   description: string | null;
   video_url: string;
+  playback_url?: string | null;
   thumbnail_url: string | null;
   duration_seconds: number | null;
   width: number | null;
   height: number | null;
-  status: 'processing' | 'ready' | 'failed' | 'deleted';
+  status: 'processing' | 'ready' | 'under_review' | 'failed' | 'deleted';
   visibility: 'public' | 'unlisted' | 'private';
   views_count: number;
   likes_count: number;
@@ -49,6 +51,125 @@ export interface VideoResponse extends VideoWithProfile {
   agree_disagree: boolean;
 }
 
+export type ResponseOrder = 'recent' | 'engagement';
+
+// A video in a debate tree with its rebuttals nested underneath
+export interface DebateNode {
+  video: VideoWithProfile;
+  children: DebateNode[];
+}
+
+// Cap on how many videos a single debate tree fetch returns
+const DEBATE_TREE_LIMIT = 500;
+
+// Server's response depth limit; the bundled default until loadMaxResponseDepth succeeds
+let maxResponseDepth: number = CHAIN_CONSTRAINTS.MAX_DEPTH;
+
+/**
+ * Fetch the deepest chain_depth the server accepts responses at
+ * (max_response_depth, 00029). Called at startup and before posting;
+ * keeps the last known value when the request fails.
+ */
+export async function loadMaxResponseDepth(): Promise<number> {
+  const { data, error } = await supabase.rpc('max_response_depth');
+  if (!error && typeof data === 'number') {
+    maxResponseDepth = data;
+  }
+  return maxResponseDepth;
+}
+
+/**
+ * Remove a video's HLS renditions from storage. The ladder only has the
+ * renditions the source was large enough for; removing missing files is a no-op.
+ */
+export async function removeVideoStreams(video: {
+  id: string;
+  user_id: string;
+  playback_url?: string | null;
+}): Promise<void> {
+  if (!video.playback_url) return;
+
+  const dir = `${video.user_id}/${video.id}`;
+  const paths = [
+    `${dir}/master.m3u8`,
+    ...HLS_RENDITIONS.flatMap((name) => [`${dir}/${name}/index.m3u8`, `${dir}/${name}/stream.ts`]),
+  ];
+  await supabase.storage.from(STORAGE_BUCKETS.VIDEO_STREAMS).remove(paths);
+}
+
+/**
+ * Pick the video a new response should target. Rebuttals go to the video itself
+ * unless it already sits at the maximum chain depth, in which case they join
+ * the same level of the debate by targeting its parent.
+ */
+export function getResponseTargetId(video: {
+  id: string;
+  parent_video_id: string | null;
+  chain_depth?: number | null;
+}): string {
+  if ((video.chain_depth ?? 0) >= maxResponseDepth && video.parent_video_id) {
+    return video.parent_video_id;
+  }
+  return video.id;
+}
+
+/**
+ * Fetch every visible video in a debate (the root and all nested responses),
+ * ordered by depth then time. Videos whose parent is hidden from the viewer
+ * are dropped along with their subtree when the tree is built.
+ */
+export async function getDebateTree(rootVideoId: string): Promise<{
+  videos: VideoWithProfile[];
+  error: Error | null;
+}> {
+  try {
+    const { data, error } = await supabase
+      .from('feed_videos')
+      .select('*')
+      .or(`id.eq.${rootVideoId},root_video_id.eq.${rootVideoId}`)
+      .order('chain_depth', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(DEBATE_TREE_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+
+    return { videos: (data || []) as VideoWithProfile[], error: null };
+  } catch (error) {
+    return { videos: [], error: error as Error };
+  }
+}
+
+/**
+ * Nest a flat debate list (as returned by getDebateTree) under its root
+ */
+export function buildDebateTree(
+  rootVideoId: string,
+  videos: VideoWithProfile[]
+): DebateNode | null {
+  const nodes = new Map<string, DebateNode>();
+  for (const video of videos) {
+    nodes.set(video.id, { video, children: [] });
+  }
+
+  const root = nodes.get(rootVideoId);
+  if (!root) return null;
+
+  // Rows arrive ordered by depth, so parents are always attached before children
+  for (const video of videos) {
+    if (video.id === rootVideoId || !video.parent_video_id) continue;
+    const parent = nodes.get(video.parent_video_id);
+    if (parent) {
+      parent.children.push(nodes.get(video.id)!);
+    } else {
+      nodes.delete(video.id);
+    }
+  }
+
+  return root;
+}
+
 /**
  * Fetch a video by ID with its responses (direct children only for MVP)
  */
@@ -185,19 +306,30 @@ export async function getVideoResponses(
     limit?: number;
     offset?: number;
     stance?: 'agree' | 'disagree' | 'all';
+    orderBy?: ResponseOrder;
   } = {}
 ): Promise<{
   responses: VideoResponse[];
   hasMore: boolean;
   error: Error | null;
 }> {
-  const { limit = 20, offset = 0, stance = 'all' } = options;
+  const { limit = 20, offset = 0, stance = 'all', orderBy = 'recent' } = options;
 
   try {
     let query = supabase
       .from('feed_videos')
       .select('*')
-      .eq('parent_video_id', videoId)
+      .eq('parent_video_id', videoId);
+
+    // Engagement = rebuttals, then comments, then views; newest breaks ties
+    if (orderBy === 'engagement') {
+      query = query
+        .order('responses_count', { ascending: false })
+        .order('comments_count', { ascending: false })
+        .order('views_count', { ascending: false });
+    }
+
+    query = query
       .order('created_at', { ascending: false })
       .range(offset, offset + limit);
 
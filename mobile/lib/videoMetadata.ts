@@ -0,0 +1,127 @@
+// ============================================================================
+// LewReviews Mobile - Video Metadata
+// Probes local videos with a muted, never-played expo-video player:
+// duration, dimensions, rotation, codec and audio, checked against
+// VIDEO_CONSTRAINTS before anything is uploaded. validate_video_write
+// (00042) enforces the same limits on the server.
+// ============================================================================
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { createVideoPlayer } from 'expo-video';
+import type { SourceLoadEventPayload } from 'expo-video';
+import { VIDEO_CONSTRAINTS } from '../constants/config';
+import type { VideoMetadata } from '../types';
+
+const PROBE_TIMEOUT_MS = 15000;
+
+// Extensions the picker may hand us besides SUPPORTED_FORMATS
+const EXTRA_EXTENSIONS = ['m4v', '3gp'];
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+function waitForSource(player: ReturnType<typeof createVideoPlayer>): Promise<SourceLoadEventPayload> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error('Timed out reading the video'));
+    }, PROBE_TIMEOUT_MS);
+    const loadSubscription = player.addListener('sourceLoad', (payload) => {
+      cleanup();
+      resolve(payload);
+    });
+    const statusSubscription = player.addListener('statusChange', ({ status, error }) => {
+      if (status === 'error') {
+        cleanup();
+        reject(new Error(error?.message ?? 'Could not read the video'));
+      }
+    });
+    const cleanup = () => {
+      clearTimeout(timer);
+      loadSubscription.remove();
+      statusSubscription.remove();
+    };
+  });
+}
+
+/**
+ * Read a local video's metadata. Throws when the file can't be opened as
+ * a video at all.
+ */
+export async function probeVideo(uri: string, mimeType?: string): Promise<VideoMetadata> {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    throw new Error('Video file does not exist');
+  }
+
+  const player = createVideoPlayer({ uri });
+  player.muted = true;
+
+  try {
+    const source = await waitForSource(player);
+    const track = source.availableVideoTracks[0] ?? null;
+    const codedWidth = track?.size.width ?? 0;
+    const codedHeight = track?.size.height ?? 0;
+
+    // Tracks report their coded size; decoded frames come out upright. If
+    // the orientations differ the video is shown turned by 90 degrees
+    // (90 and 270 look the same from here).
+    let rotation = 0;
+    try {
+      const [frame] = await player.generateThumbnailsAsync(0);
+      if (frame && codedWidth !== codedHeight && frame.width > frame.height !== codedWidth > codedHeight) {
+        rotation = 90;
+      }
+    } catch {
+      // Keep the coded orientation
+    }
+
+    return {
+      uri,
+      duration: Math.round(source.duration),
+      width: rotation ? codedHeight : codedWidth,
+      height: rotation ? codedWidth : codedHeight,
+      fileSize: info.size,
+      mimeType,
+      rotation,
+      codec: track?.mimeType ?? null,
+      // iOS only lists audio tracks that have media selection options, so
+      // an empty list there doesn't mean the video is silent
+      hasAudio: source.availableAudioTracks.length > 0 ? true : Platform.OS === 'android' ? false : null,
+      hasVideoTrack: track !== null,
+    };
+  } finally {
+    player.release();
+  }
+}
+
+/**
+ * Why a video can't be posted, or null when it's within VIDEO_CONSTRAINTS.
+ */
+export function validateVideoMetadata(metadata: VideoMetadata): string | null {
+  const extension = metadata.uri.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+  const supported: readonly string[] = VIDEO_CONSTRAINTS.SUPPORTED_FORMATS;
+  if (extension && !supported.includes(extension) && !EXTRA_EXTENSIONS.includes(extension)) {
+    return `.${extension} files aren't supported. Use MP4, MOV, AVI or WebM.`;
+  }
+  if (metadata.mimeType && !metadata.mimeType.startsWith('video/')) {
+    return 'That file isn\'t a video.';
+  }
+  // Drafts saved before probing existed have no hasVideoTrack
+  if (metadata.hasVideoTrack === false || metadata.width <= 0 || metadata.height <= 0) {
+    return 'This file has no picture we can read. Try another video.';
+  }
+  if (metadata.duration < VIDEO_CONSTRAINTS.MIN_DURATION_SECONDS) {
+    return `This video is ${metadata.duration} second${metadata.duration === 1 ? '' : 's'} long. Reviews need at least ${VIDEO_CONSTRAINTS.MIN_DURATION_SECONDS} seconds.`;
+  }
+  if (metadata.duration > VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS) {
+    return `This video is ${formatDuration(metadata.duration)} long. Reviews can be up to ${formatDuration(VIDEO_CONSTRAINTS.MAX_DURATION_SECONDS)}.`;
+  }
+  if (metadata.fileSize > VIDEO_CONSTRAINTS.MAX_FILE_SIZE_BYTES) {
+    return `This video is ${formatMegabytes(metadata.fileSize)}. The limit is ${formatMegabytes(VIDEO_CONSTRAINTS.MAX_FILE_SIZE_BYTES)}.`;
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+// ============================================================================
+// LewReviews Mobile - View Tracking
+// Queues qualified views and flushes them in batches to record_video_views.
+// The server dedupes per user/device/video/day, so re-reporting is harmless.
+// ============================================================================
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { VIEW_TRACKING } from '../constants/config';
+
+const DEVICE_ID_KEY = 'lewreviews.device_id';
+
+export interface QualifiedView {
+  video_id: string;
+  watch_seconds: number;
+  max_position_seconds: number;
+  completed: boolean;
+}
+
+let pendingViews: QualifiedView[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+let deviceIdPromise: Promise<string> | null = null;
+
+// Stable per-install identifier; generated once and kept in AsyncStorage
+function getDeviceId(): Promise<string> {
+  if (!deviceIdPromise) {
+    deviceIdPromise = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(DEVICE_ID_KEY);
+        if (stored) return stored;
+      } catch {
+        // Fall through and generate a new id
+      }
+      const generated = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 12)}`;
+      try {
+        await AsyncStorage.setItem(DEVICE_ID_KEY, generated);
+      } catch {
+        // Id still works for this session
+      }
+      return generated;
+    })();
+  }
+  return deviceIdPromise;
+}
+
+/**
+ * Whether a watch session counts as a view: a minimum amount of playback,
+ * or a minimum share of the video for clips shorter than that.
+ */
+export function isQualifiedView(watchSeconds: number, durationSeconds: number): boolean {
+  if (watchSeconds >= VIEW_TRACKING.MIN_WATCH_SECONDS) return true;
+  return durationSeconds > 0 && watchSeconds / durationSeconds >= VIEW_TRACKING.MIN_WATCH_FRACTION;
+}
+
+/**
+ * Queue a qualified view. Repeat views of the same video are merged locally
+ * so a batch carries one entry per video.
+ */
+export function queueView(view: QualifiedView): void {
+  const existing = pendingViews.find((v) => v.video_id === view.video_id);
+  if (existing) {
+    existing.watch_seconds += view.watch_seconds;
+    existing.max_position_seconds = Math.max(existing.max_position_seconds, view.max_position_seconds);
+    existing.completed = existing.completed || view.completed;
+  } else {
+    pendingViews.push({ ...view });
+  }
+
+  if (pendingViews.length >= VIEW_TRACKING.MAX_BATCH_SIZE) {
+    flushViews();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushViews, VIEW_TRACKING.FLUSH_INTERVAL_MS);
+  }
+}
+
+/**
+ * Send pending views to the server. Failed batches are put back for the
+ * next flush unless the user is signed out.
+ */
+export async function flushViews(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (isFlushing || pendingViews.length === 0) return;
+
+  isFlushing = true;
+  const batch = pendingViews.splice(0, VIEW_TRACKING.MAX_BATCH_SIZE);
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const deviceId = await getDeviceId();
+    const { error } = await supabase.rpc('record_video_views', {
+      views: batch.map((v) => ({
+        ...v,
+        watch_seconds: Math.round(v.watch_seconds * 100) / 100,
+        max_position_seconds: Math.round(v.max_position_seconds * 100) / 100,
+      })),
+      device_id: deviceId,
+    });
+    if (error) throw error;
+  } catch {
+    // Put the batch back ahead of newer views, bounded so a long outage
+    // cannot grow the queue without limit
+    pendingViews = [...batch, ...pendingViews].slice(0, VIEW_TRACKING.MAX_BATCH_SIZE * 2);
+  } finally {
+    isFlushing = false;
+    if (pendingViews.length > 0 && !flushTimer) {
+      flushTimer = setTimeout(flushViews, VIEW_TRACKING.FLUSH_INTERVAL_MS);
+    }
+  }
+}
@@ -3,7 +3,7 @@
 // ============================================================================
 
 // Video status enum matching database
-export type VideoStatus = 'processing' | 'ready' | 'failed' | 'deleted';
+export type VideoStatus = 'processing' | 'ready' | 'under_review' | 'failed' | 'deleted';
 
 // Video visibility enum matching database
 export type VideoVisibility = 'public' | 'unlisted' | 'private';
@@ -36,6 +36,8 @@ export interface Video {
   title: string;
   description: string | null;
   video_url: string;
+  // HLS master playlist; players fall back to video_url when it's null
+  playback_url?: string | null;
   thumbnail_url: string | null;
   duration_seconds: number | null;
   width: number | null;
@@ -46,6 +48,7 @@ export interface Video {
   views_count: number;
   likes_count: number;
   responses_count: number;
+  comments_count?: number;
   created_at: string;
   updated_at: string;
   published_at: string | null;
@@ -59,8 +62,19 @@ export interface Video {
   tmdb_id?: number | null;
   tmdb_media_type?: 'movie' | 'tv' | null;
   tmdb_poster_path?: string | null;
+  // Original upload path and last transcoding error (owner only)
+  source_path?: string | null;
+  processing_error?: string | null;
 }
 
+// Owner's upload that is still transcoding or failed to (see 00040)
+export type ProcessingVideo = Pick<
+  Video,
+  'id' | 'title' | 'thumbnail_url' | 'status' | 'parent_video_id' | 'created_at'
+> & {
+  processing_error: string | null;
+};
+
 // Feed video with user info (from view)
 export interface FeedVideo extends Video {
   username: string;
@@ -108,6 +122,7 @@ export interface TmdbSearchResult {
 // Video upload input
 export interface VideoUploadInput {
   title: string;
+  description?: string;
   parentVideoId?: string;
   agreeDisagree?: boolean;
   rating?: VideoRating;
@@ -122,10 +137,14 @@ export interface VideoUploadInput {
 export interface VideoMetadata {
   uri: string;
   duration: number; // in seconds
-  width: number;
+  width: number; // as displayed, after rotation
   height: number;
   fileSize: number;
   mimeType?: string;
+  rotation: number; // 0 or 90
+  codec: string | null;
+  hasAudio: boolean | null; // null when the platform can't tell
+  hasVideoTrack: boolean;
 }
 
 // Upload progress state
@@ -134,6 +153,35 @@ export interface UploadProgress {
   progress: number; // 0-100
   message: string;
   error?: string;
+  bytesUploaded?: number;
+  totalBytes?: number;
+}
+
+// Review saved on the device (lib/drafts.ts). 'queued' drafts are in the
+// outbox and publish as soon as there's a connection
+export type DraftStatus = 'draft' | 'queued' | 'failed';
+
+export interface ReviewDraft {
+  id: string;
+  userId: string;
+  video: VideoMetadata; // uri is the draft's own copy
+  thumbnailUri: string | null;
+  title: string;
+  description: string;
+  rating: VideoRating | null;
+  movieTitle: string;
+  tmdbSelection: TmdbSearchResult | null;
+  status: DraftStatus;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Outcome of picking or recording a video. No video and no error means
+// the user cancelled
+export interface VideoPickResult {
+  video: VideoMetadata | null;
+  error?: string;
 }
 
 // Upload result
@@ -141,6 +189,8 @@ export interface UploadResult {
   success: boolean;
   video?: Video;
   error?: string;
+  // The connection dropped; the upload resumes on its own later
+  paused?: boolean;
 }
 
 // Follow type
@@ -168,6 +218,25 @@ export interface FollowListUser {
   avatar_url: string | null;
 }
 
+// Text comment with author info. Top-level comments carry their loaded
+// replies; replies never nest further.
+export interface VideoComment {
+  id: string;
+  video_id: string;
+  user_id: string;
+  parent_comment_id: string | null;
+  body: string;
+  agree_disagree: boolean | null;
+  replies_count: number;
+  created_at: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  replies?: VideoComment[];
+  // Set on optimistic entries until the server confirms the insert
+  isPending?: boolean;
+}
+
 // Bookmark type
 export interface Bookmark {
   id: string;
@@ -175,3 +244,150 @@ export interface Bookmark {
   video_id: string;
   created_at: string;
 }
+
+// Bookmarked video as shown in the profile Saved tab
+export interface SavedVideo {
+  id: string;
+  thumbnail_url: string | null;
+  views_count: number;
+  created_at: string;
+  rating: VideoRating | null;
+  movie_title: string | null;
+  tmdb_id: number | null;
+  tmdb_media_type: 'movie' | 'tv' | null;
+  tmdb_poster_path: string | null;
+  saved_at: string;
+}
+
+// Saved videos reviewing the same title (key/title null for untagged videos)
+export interface SavedVideoGroup {
+  key: string | null;
+  title: string | null;
+  posterPath: string | null;
+  mediaType: 'movie' | 'tv' | null;
+  videos: SavedVideo[];
+}
+
+// Point on a video's retention curve (share of views reaching position_seconds)
+export interface RetentionPoint {
+  position_seconds: number;
+  retention: number;
+}
+
+// Owner-only watch analytics from get_video_insights
+export interface VideoInsights {
+  views: number;
+  unique_viewers: number;
+  total_watch_seconds: number;
+  avg_watch_seconds: number;
+  completion_rate: number;
+  duration_seconds: number | null;
+  retention: RetentionPoint[];
+}
+
+// Caller's own moderation standing, from get_account_standing
+// (suspended_until is null once a suspension has run out)
+export interface AccountStanding {
+  suspended_until: string | null;
+  banned_at: string | null;
+  warnings_count: number;
+}
+
+// Report lifecycle (reviewed = upheld with a warning only)
+export type ReportStatus = 'pending' | 'reviewed' | 'resolved' | 'rejected';
+
+// Moderator decision passed to resolve_report
+export type ReportResolution = 'hide_video' | 'warn_user' | 'suspend_user' | 'reject';
+
+// Pending reports grouped by target, from get_moderation_queue
+export interface ModerationQueueItem {
+  report_id: string;
+  reported_video_id: string | null;
+  reported_user_id: string | null;
+  report_count: number;
+  reasons: string[];
+  details: string[];
+  first_reported_at: string;
+  last_reported_at: string;
+  video_title: string | null;
+  video_url: string | null;
+  thumbnail_url: string | null;
+  video_status: VideoStatus | null;
+  username: string | null;
+  avatar_url: string | null;
+  suspended_until: string | null;
+  warnings_count: number | null;
+}
+
+// Audit log action; auto_review is logged by the report threshold trigger
+export type ModerationActionType = ReportResolution | 'auto_review';
+
+// Audit log entry with the acting moderator's username (null for auto_review)
+export interface ModerationAction {
+  id: string;
+  action: ModerationActionType;
+  report_id: string | null;
+  target_video_id: string | null;
+  target_user_id: string | null;
+  reports_closed: number;
+  note: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  moderator: { username: string } | null;
+  target_user: { username: string } | null;
+}
+
+// Notification kinds (moderation = warning sent by resolve_report;
+// agree_milestone / hot_take are sent by the vote count trigger)
+export type NotificationType =
+  | 'new_review'
+  | 'response'
+  | 'moderation'
+  | 'new_follower'
+  | 'agree_milestone'
+  | 'hot_take';
+
+// Sender shown in an inbox group's avatar stack
+export interface NotificationActor {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+// One Activity inbox row from get_notification_groups. For responses,
+// video_id is the video being responded to and agree_disagree the stance.
+export interface NotificationGroup {
+  group_key: string;
+  type: NotificationType;
+  video_id: string | null;
+  agree_disagree: boolean | null;
+  notification_ids: string[];
+  actor_count: number;
+  actors: NotificationActor[];
+  title: string;
+  body: string;
+  latest_at: string;
+  unread_count: number;
+}
+
+// Row in notification_preferences; quiet hours are local "HH:MM:SS" times
+// in time_zone, either both set or both null
+export interface NotificationPreferences {
+  new_review: boolean;
+  response_agree: boolean;
+  response_disagree: boolean;
+  new_follower: boolean;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  time_zone: string;
+}
+
+// Creator the user muted notifications from
+export interface MutedCreator {
+  muted_user_id: string;
+  created_at: string;
+  profile: {
+    username: string;
+    avatar_url: string | null;
+  } | null;
+}
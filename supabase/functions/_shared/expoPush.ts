@@ -0,0 +1,189 @@
+// ============================================================================
+// Expo Push Delivery
+// Shared by the push (send) and push-receipts (receipts + retries) functions.
+// Queue state lives on notifications; see 00038_push_delivery.sql.
+//
+// Set EXPO_PUSH_API_URL to point delivery at a mock Expo server, e.g.
+// http://host.docker.internal:4010/--/api/v2/push (push/mock-expo.ts)
+// ============================================================================
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const EXPO_PUSH_API_URL = (
+  Deno.env.get("EXPO_PUSH_API_URL") ?? "https://exp.host/--/api/v2/push"
+).replace(/\/$/, "");
+
+// Expo accepts at most 100 messages per send and 1000 ids per receipt lookup
+const SEND_BATCH_SIZE = 100;
+const RECEIPT_BATCH_SIZE = 1000;
+
+// Batches per invocation, so one call can't run past the function timeout
+const MAX_SEND_BATCHES = 10;
+
+interface ClaimedPush {
+  notification_id: string;
+  push_token: string;
+  title: string;
+  body: string;
+  type: string;
+  video_id: string | null;
+  sender_id: string | null;
+  badge: number;
+}
+
+interface ClaimedReceipt {
+  notification_id: string;
+  ticket_id: string;
+}
+
+interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: "default";
+  badge?: number;
+}
+
+// Ticket or receipt; errors carry the machine-readable code in details.error
+interface ExpoPushStatus {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+export interface DeliveryResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+}
+
+export interface ReceiptResult {
+  checked: number;
+  delivered: number;
+  failed: number;
+}
+
+async function postToExpo<T>(path: string, body: unknown): Promise<T> {
+  const accessToken = Deno.env.get("EXPO_ACCESS_TOKEN");
+  const response = await fetch(`${EXPO_PUSH_API_URL}/${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Expo ${path} failed with ${response.status}: ${await response.text()}`);
+  }
+
+  const result = await response.json();
+  return result.data as T;
+}
+
+function errorCode(status: ExpoPushStatus): string {
+  return status.details?.error ?? "Unknown";
+}
+
+/**
+ * Send every due notification, up to MAX_SEND_BATCHES batches of 100.
+ * A failed request is recorded as RequestFailed for each of its messages,
+ * which schedules them for retry.
+ */
+export async function deliverPendingPushes(supabase: SupabaseClient): Promise<DeliveryResult> {
+  const result: DeliveryResult = { claimed: 0, sent: 0, failed: 0 };
+
+  for (let batch = 0; batch < MAX_SEND_BATCHES; batch++) {
+    const { data, error } = await supabase.rpc("claim_push_batch", {
+      batch_size: SEND_BATCH_SIZE,
+    });
+    if (error) throw error;
+
+    const claimed = (data ?? []) as ClaimedPush[];
+    if (claimed.length === 0) break;
+    result.claimed += claimed.length;
+
+    const messages: ExpoPushMessage[] = claimed.map((push) => ({
+      to: push.push_token,
+      title: push.title,
+      body: push.body,
+      sound: "default",
+      badge: push.badge,
+      data: {
+        notification_id: push.notification_id,
+        type: push.type,
+        video_id: push.video_id,
+        sender_id: push.sender_id,
+      },
+    }));
+
+    let tickets: Record<string, unknown>[];
+    try {
+      // Tickets come back in message order
+      const statuses = await postToExpo<ExpoPushStatus[]>("send", messages);
+      tickets = claimed.map((push, index) => {
+        const status = statuses[index];
+        if (status?.status === "ok" && status.id) {
+          result.sent++;
+          return { id: push.notification_id, ticket_id: status.id };
+        }
+        result.failed++;
+        return { id: push.notification_id, error: status ? errorCode(status) : "Unknown" };
+      });
+    } catch {
+      result.failed += claimed.length;
+      tickets = claimed.map((push) => ({ id: push.notification_id, error: "RequestFailed" }));
+    }
+
+    const { error: recordError } = await supabase.rpc("record_push_tickets", { tickets });
+    if (recordError) throw recordError;
+
+    if (claimed.length < SEND_BATCH_SIZE) break;
+  }
+
+  return result;
+}
+
+/**
+ * Check receipts for tickets that are due. Receipts Expo doesn't have yet
+ * are left for the next run.
+ */
+export async function processPushReceipts(supabase: SupabaseClient): Promise<ReceiptResult> {
+  const result: ReceiptResult = { checked: 0, delivered: 0, failed: 0 };
+
+  const { data, error } = await supabase.rpc("claim_push_receipts", {
+    batch_size: RECEIPT_BATCH_SIZE,
+  });
+  if (error) throw error;
+
+  const claimed = (data ?? []) as ClaimedReceipt[];
+  if (claimed.length === 0) return result;
+  result.checked = claimed.length;
+
+  const statuses = await postToExpo<Record<string, ExpoPushStatus>>("getReceipts", {
+    ids: claimed.map((receipt) => receipt.ticket_id),
+  });
+
+  const receipts = claimed
+    .filter((receipt) => statuses[receipt.ticket_id])
+    .map((receipt) => {
+      const status = statuses[receipt.ticket_id];
+      if (status.status === "ok") {
+        result.delivered++;
+        return { id: receipt.notification_id, status: "ok" };
+      }
+      result.failed++;
+      return { id: receipt.notification_id, status: "error", error: errorCode(status) };
+    });
+
+  if (receipts.length > 0) {
+    const { error: recordError } = await supabase.rpc("record_push_receipts", { receipts });
+    if (recordError) throw recordError;
+  }
+
+  return result;
+}
@@ -0,0 +1,88 @@
+// ============================================================================
+// Notification Fan-out Edge Function
+// Triggered by webhook on notification_fanout_jobs INSERT, and on a schedule
+// (every minute) with the push webhook secret to resume large or failed jobs.
+// Each process_fanout_job call notifies one chunk of a creator's followers in
+// its own transaction; see 00039_notification_fanout_jobs.sql.
+// ============================================================================
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { deliverPendingPushes } from "../_shared/expoPush.ts";
+
+const CHUNK_SIZE = 500;
+
+// Chunks per invocation, so one call can't run past the function timeout;
+// the scheduled run picks up whatever is left
+const MAX_CHUNKS = 20;
+
+interface FanoutChunkResult {
+  job_id: string;
+  video_id: string;
+  processed?: number;
+  notified?: number;
+  digested?: number;
+  done?: boolean;
+  error?: string;
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    const webhookSecret = Deno.env.get("PUSH_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      return new Response(
+        JSON.stringify({ error: "PUSH_WEBHOOK_SECRET is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${webhookSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const fanout = { chunks: 0, notified: 0, digested: 0, completed: 0, failed: 0 };
+
+    for (let chunk = 0; chunk < MAX_CHUNKS; chunk++) {
+      const { data, error } = await supabase.rpc("process_fanout_job", {
+        chunk_size: CHUNK_SIZE,
+      });
+      if (error) throw error;
+
+      const result = data as FanoutChunkResult | null;
+      if (!result) break;
+
+      fanout.chunks++;
+      if (result.error) {
+        // Backed off by the RPC; move on to other jobs
+        fanout.failed++;
+        continue;
+      }
+      fanout.notified += result.notified ?? 0;
+      fanout.digested += result.digested ?? 0;
+      if (result.done) fanout.completed++;
+    }
+
+    // Send what this run queued rather than waiting on the per-row webhooks
+    const pushes = fanout.notified > 0
+      ? await deliverPendingPushes(supabase)
+      : null;
+
+    return new Response(
+      JSON.stringify({ success: true, fanout, pushes }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: "Internal error", details: String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,48 @@
+// ============================================================================
+// Push Receipts Edge Function
+// Run on a schedule (every 5 minutes) with the push webhook secret:
+// checks Expo receipts for sent pushes, clears DeviceNotRegistered tokens,
+// then re-sends notifications whose retry backoff has passed
+// ============================================================================
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { deliverPendingPushes, processPushReceipts } from "../_shared/expoPush.ts";
+
+Deno.serve(async (req: Request) => {
+  try {
+    const webhookSecret = Deno.env.get("PUSH_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      return new Response(
+        JSON.stringify({ error: "PUSH_WEBHOOK_SECRET is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${webhookSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Receipts first, then anything whose retry backoff has passed
+    const receipts = await processPushReceipts(supabase);
+    const retries = await deliverPendingPushes(supabase);
+
+    return new Response(
+      JSON.stringify({ success: true, receipts, retries }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: "Internal error", details: String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,192 @@
+// ============================================================================
+// Push Delivery Test
+// Drives deliverPendingPushes and processPushReceipts against mock-expo.ts
+// and a local stack: batching, DeviceNotRegistered token cleanup and retry
+// backoff (00038_push_delivery.sql).
+//
+//   supabase start
+//   SUPABASE_URL=http://127.0.0.1:54321 SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno test --allow-net --allow-env supabase/functions/push/delivery.test.ts
+//
+// Skipped without SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. Don't serve
+// the push functions at the same time, they would drain the queue too.
+// ============================================================================
+
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { startMockExpo } from "./mock-expo.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// More than one send batch for a single recipient
+const OK_PUSHES = 150;
+const MINUTE_MS = 60 * 1000;
+
+interface PushRow {
+  id: string;
+  push_status: string;
+  push_attempts: number;
+  push_error: string | null;
+  push_next_attempt_at: string;
+}
+
+Deno.test({
+  name: "push delivery batches sends, clears dead tokens and backs off",
+  ignore: !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY,
+  async fn(t) {
+    const mock = startMockExpo(0, () => {});
+    // expoPush.ts reads the API URL when it is loaded
+    Deno.env.set("EXPO_PUSH_API_URL", mock.url);
+    const { deliverPendingPushes, processPushReceipts } = await import("../_shared/expoPush.ts");
+
+    const supabase = createClient(SUPABASE_URL!, SUPABASE_SERVICE_ROLE_KEY!, {
+      auth: { persistSession: false },
+    });
+    const userIds: string[] = [];
+
+    const createRecipient = async (token: string) => {
+      const { data, error } = await supabase.auth.admin.createUser({
+        email: `push-test-${crypto.randomUUID()}@example.com`,
+        email_confirm: true,
+      });
+      if (error) throw error;
+      userIds.push(data.user.id);
+
+      const { error: profileError } = await supabase
+        .from("profiles")
+        .update({ expo_push_token: token, push_enabled: true })
+        .eq("id", data.user.id);
+      if (profileError) throw profileError;
+      return data.user.id;
+    };
+
+    const queue = async (recipientId: string, count: number) => {
+      const rows = Array.from({ length: count }, (_, i) => ({
+        recipient_id: recipientId,
+        type: "moderation",
+        title: "Push test",
+        body: `Push ${i + 1}`,
+      }));
+      const { data, error } = await supabase.from("notifications").insert(rows).select("id");
+      if (error) throw error;
+      return data.map((row) => row.id as string);
+    };
+
+    const pushRows = async (ids: string[]) => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("id, push_status, push_attempts, push_error, push_next_attempt_at")
+        .in("id", ids);
+      if (error) throw error;
+      return data as PushRow[];
+    };
+
+    const pushRow = async (id: string) => (await pushRows([id]))[0];
+
+    const tokenOf = async (userId: string) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("expo_push_token")
+        .eq("id", userId)
+        .single();
+      if (error) throw error;
+      return data.expo_push_token as string | null;
+    };
+
+    // Skip the wait for receipts or the next retry
+    const makeDue = async (ids: string[]) => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ push_next_attempt_at: new Date().toISOString() })
+        .in("id", ids);
+      if (error) throw error;
+    };
+
+    const minutesUntil = (row: PushRow) =>
+      (new Date(row.push_next_attempt_at).getTime() - Date.now()) / MINUTE_MS;
+
+    try {
+      const okUser = await createRecipient(`ExponentPushToken[ok-${crypto.randomUUID()}]`);
+      const goneUser = await createRecipient(`ExponentPushToken[gone]-${crypto.randomUUID()}`);
+      const unregisteredUser = await createRecipient(`ExponentPushToken[unregistered]-${crypto.randomUUID()}`);
+      const limitedUser = await createRecipient(`ExponentPushToken[ratelimited]-${crypto.randomUUID()}`);
+
+      const okIds = await queue(okUser, OK_PUSHES);
+      const [goneId] = await queue(goneUser, 1);
+      const [unregisteredId] = await queue(unregisteredUser, 1);
+      const [limitedId] = await queue(limitedUser, 1);
+
+      await t.step("sends in batches of at most 100", async () => {
+        const result = await deliverPendingPushes(supabase);
+
+        assert(result.claimed >= OK_PUSHES + 3);
+        assert(mock.sendBatches.length >= 2);
+        assert(mock.sendBatches.every((size) => size <= 100));
+        assertEquals(mock.sendBatches.reduce((sum, size) => sum + size, 0), result.claimed);
+
+        const rows = await pushRows(okIds);
+        assertEquals(rows.filter((row) => row.push_status === "sent").length, OK_PUSHES);
+      });
+
+      await t.step("a DeviceNotRegistered ticket fails the push and clears the token", async () => {
+        const row = await pushRow(goneId);
+        assertEquals(row.push_status, "failed");
+        assertEquals(row.push_error, "DeviceNotRegistered");
+        assertEquals(await tokenOf(goneUser), null);
+      });
+
+      await t.step("a rate limited push is retried after a minute", async () => {
+        const row = await pushRow(limitedId);
+        assertEquals(row.push_status, "pending");
+        assertEquals(row.push_attempts, 1);
+        assertEquals(row.push_error, "MessageRateExceeded");
+        const wait = minutesUntil(row);
+        assert(wait > 0.5 && wait <= 1.5, `expected about 1 minute, got ${wait}`);
+      });
+
+      await t.step("a DeviceNotRegistered receipt fails the push and clears the token", async () => {
+        await makeDue([...okIds, unregisteredId]);
+        const result = await processPushReceipts(supabase);
+        assert(result.checked >= OK_PUSHES + 1);
+
+        const row = await pushRow(unregisteredId);
+        assertEquals(row.push_status, "failed");
+        assertEquals(row.push_error, "DeviceNotRegistered");
+        assertEquals(await tokenOf(unregisteredUser), null);
+
+        const rows = await pushRows(okIds);
+        assertEquals(rows.filter((okRow) => okRow.push_status === "delivered").length, OK_PUSHES);
+        assert((await tokenOf(okUser)) !== null);
+      });
+
+      await t.step("retries back off and give up after the last attempt", async () => {
+        await makeDue([limitedId]);
+        await deliverPendingPushes(supabase);
+
+        let row = await pushRow(limitedId);
+        assertEquals(row.push_status, "pending");
+        assertEquals(row.push_attempts, 2);
+        const wait = minutesUntil(row);
+        assert(wait > 1.5 && wait <= 2.5, `expected about 2 minutes, got ${wait}`);
+
+        for (let attempt = 3; attempt <= 5; attempt++) {
+          await makeDue([limitedId]);
+          await deliverPendingPushes(supabase);
+        }
+
+        row = await pushRow(limitedId);
+        assertEquals(row.push_status, "failed");
+        assertEquals(row.push_attempts, 5);
+        assertEquals(row.push_error, "MessageRateExceeded");
+        // Rate limiting says nothing about the device
+        assert((await tokenOf(limitedUser)) !== null);
+      });
+    } finally {
+      for (const id of userIds) {
+        await supabase.auth.admin.deleteUser(id);
+      }
+      await mock.close();
+    }
+  },
+});
@@ -1,10 +1,18 @@
 // ============================================================================
 // Push Notification Edge Function
-// Triggered by webhook on notifications INSERT
+// Drains the notifications push queue (00038) with deliverPendingPushes:
+// every due row, in batches of up to 100 per Expo request. The webhook on
+// notifications INSERT only wakes it up; push-receipts, scheduled every
+// 5 minutes, drains the queue again after checking receipts, which picks
+// up retries and anything a missed webhook left behind.
+// Type switches and mutes are applied when the notification is queued;
+// push settings, tokens and quiet hours when it is claimed for sending
+// (claim_push_batch).
 // ============================================================================
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "jsr:@supabase/supabase-js@2";
+import { deliverPendingPushes } from "../_shared/expoPush.ts";
 
 interface NotificationPayload {
   type: "INSERT";
@@ -23,15 +31,6 @@ interface NotificationPayload {
   };
 }
 
-interface ExpoPushMessage {
-  to: string;
-  title: string;
-  body: string;
-  data?: Record<string, unknown>;
-  sound?: "default";
-  badge?: number;
-}
-
 Deno.serve(async (req: Request) => {
   try {
     const webhookSecret = Deno.env.get("PUSH_WEBHOOK_SECRET");
@@ -59,93 +58,16 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    const notification = payload.record;
-
-    // Skip if already sent
-    if (notification.sent_at) {
-      return new Response(JSON.stringify({ skipped: true, reason: "already_sent" }), {
-        headers: { "Content-Type": "application/json" },
-      });
-    }
-
-    // Create Supabase client with service role
+    // The webhook only signals that the queue has work; whatever is due,
+    // including this row and any retries, goes out in batches
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Get recipient's push token and settings
-    const { data: profile, error: profileError } = await supabase
-      .from("profiles")
-      .select("expo_push_token, push_enabled, badge_count")
-      .eq("id", notification.recipient_id)
-      .single();
-
-    if (profileError || !profile) {
-      return new Response(
-        JSON.stringify({ error: "Recipient not found", details: profileError }),
-        { status: 404, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    // Check if push is enabled and token exists
-    if (!profile.push_enabled || !profile.expo_push_token) {
-      // Mark as sent anyway to avoid retries
-      await supabase
-        .from("notifications")
-        .update({ sent_at: new Date().toISOString() })
-        .eq("id", notification.id);
-
-      return new Response(
-        JSON.stringify({ skipped: true, reason: "push_disabled_or_no_token" }),
-        { headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    // Increment badge count
-    const newBadgeCount = (profile.badge_count || 0) + 1;
-
-    // Build push message
-    const pushMessage: ExpoPushMessage = {
-      to: profile.expo_push_token,
-      title: notification.title,
-      body: notification.body,
-      sound: "default",
-      badge: newBadgeCount,
-      data: {
-        notification_id: notification.id,
-        type: notification.type,
-        video_id: notification.video_id,
-      },
-    };
-
-    // Send to Expo Push API
-    const expoResponse = await fetch("https://exp.host/--/api/v2/push/send", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-        ...(Deno.env.get("EXPO_ACCESS_TOKEN")
-          ? { Authorization: `Bearer ${Deno.env.get("EXPO_ACCESS_TOKEN")}` }
-          : {}),
-      },
-      body: JSON.stringify(pushMessage),
-    });
-
-    const expoResult = await expoResponse.json();
-
-    // Update notification as sent and increment badge
-    await supabase
-      .from("notifications")
-      .update({ sent_at: new Date().toISOString() })
-      .eq("id", notification.id);
-
-    await supabase
-      .from("profiles")
-      .update({ badge_count: newBadgeCount })
-      .eq("id", notification.recipient_id);
+    const result = await deliverPendingPushes(supabase);
 
     return new Response(
-      JSON.stringify({ success: true, expo_result: expoResult }),
+      JSON.stringify({ success: true, ...result }),
       { headers: { "Content-Type": "application/json" } }
     );
   } catch (error) {
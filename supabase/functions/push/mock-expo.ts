@@ -0,0 +1,110 @@
+// ============================================================================
+// Mock Expo Push API for local delivery testing (not deployed)
+//
+//   deno run --allow-net --allow-env supabase/functions/push/mock-expo.ts
+//
+// Then serve the functions with
+//   EXPO_PUSH_API_URL=http://host.docker.internal:4010/--/api/v2/push
+//
+// delivery.test.ts starts it in-process instead.
+//
+// Outcomes are picked by the push token:
+//   ...[unregistered]  ticket ok, receipt DeviceNotRegistered
+//   ...[gone]          ticket error DeviceNotRegistered
+//   ...[ratelimited]   ticket error MessageRateExceeded
+//   anything else      ticket ok, receipt ok
+// Like Expo, more than 100 messages in one send is rejected.
+// ============================================================================
+
+const MAX_SEND_BATCH = 100;
+
+interface MockMessage {
+  to: string;
+  title: string;
+  body: string;
+}
+
+export interface MockExpo {
+  // Base URL to use as EXPO_PUSH_API_URL
+  url: string;
+  // Messages per send request, in order
+  sendBatches: number[];
+  // Ticket ids per getReceipts request, in order
+  receiptLookups: number[];
+  close: () => Promise<void>;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function receiptFor(token: string) {
+  if (token.includes("[unregistered]")) {
+    return { status: "error", message: "Not registered", details: { error: "DeviceNotRegistered" } };
+  }
+  return { status: "ok" };
+}
+
+/**
+ * Serve the mock on the given port (0 picks a free one). Without onListen,
+ * Deno prints the address.
+ */
+export function startMockExpo(port = 0, onListen?: (addr: Deno.NetAddr) => void): MockExpo {
+  // ticket id -> token it was issued for
+  const tickets = new Map<string, string>();
+  const sendBatches: number[] = [];
+  const receiptLookups: number[] = [];
+
+  const ticketFor = (message: MockMessage) => {
+    if (message.to.includes("[gone]")) {
+      return { status: "error", message: "Not registered", details: { error: "DeviceNotRegistered" } };
+    }
+    if (message.to.includes("[ratelimited]")) {
+      return { status: "error", message: "Rate exceeded", details: { error: "MessageRateExceeded" } };
+    }
+    const id = crypto.randomUUID();
+    tickets.set(id, message.to);
+    return { status: "ok", id };
+  };
+
+  const server = Deno.serve(onListen ? { port, onListen } : { port }, async (req: Request) => {
+    const { pathname } = new URL(req.url);
+
+    if (req.method === "POST" && pathname.endsWith("/push/send")) {
+      const body = await req.json();
+      const messages: MockMessage[] = Array.isArray(body) ? body : [body];
+      sendBatches.push(messages.length);
+      if (messages.length > MAX_SEND_BATCH) {
+        return json({ errors: [{ code: "PUSH_TOO_MANY_NOTIFICATIONS" }] }, 400);
+      }
+      return json({ data: messages.map(ticketFor) });
+    }
+
+    if (req.method === "POST" && pathname.endsWith("/push/getReceipts")) {
+      const { ids } = (await req.json()) as { ids: string[] };
+      receiptLookups.push(ids.length);
+      const data: Record<string, unknown> = {};
+      for (const id of ids) {
+        const token = tickets.get(id);
+        if (token) data[id] = receiptFor(token);
+      }
+      return json({ data });
+    }
+
+    return json({ error: "Not found" }, 404);
+  });
+
+  return {
+    url: `http://localhost:${server.addr.port}/--/api/v2/push`,
+    sendBatches,
+    receiptLookups,
+    close: () => server.shutdown(),
+  };
+}
+
+if (import.meta.main) {
+  startMockExpo(Number(Deno.env.get("MOCK_EXPO_PORT") ?? 4010));
+}
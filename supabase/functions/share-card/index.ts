@@ -0,0 +1,278 @@
+// ============================================================================
+// Share Card Edge Function
+// Renders a 1200x630 PNG debate card for a video and caches it in the
+// share-cards bucket. GET ?videoId=<uuid> redirects to the cached image.
+// Link preview crawlers call this without auth, so deploy with --no-verify-jwt
+// ============================================================================
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { Image, TextLayout } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+
+const BUCKET = "share-cards";
+// Bump when the layout changes so cached cards are re-rendered
+const CARD_VERSION = 1;
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const THUMB_WIDTH = 472;
+const PADDING = 56;
+
+const FONT_URL = Deno.env.get("SHARE_CARD_FONT_URL") ??
+  "https://cdn.jsdelivr.net/fontsource/fonts/inter@latest/latin-700-normal.ttf";
+
+// Mirrors RATING_LABELS in mobile/types/index.ts
+const RATING_LABELS: Record<number, string> = {
+  1: "Trash",
+  2: "Meh",
+  3: "Mid",
+  4: "Fire",
+  5: "Epic",
+};
+
+const COLORS = {
+  background: Image.rgbaToColor(0, 0, 0, 255),
+  brand: Image.rgbaToColor(255, 45, 85, 255),
+  text: Image.rgbaToColor(255, 255, 255, 255),
+  muted: Image.rgbaToColor(255, 255, 255, 140),
+  track: Image.rgbaToColor(255, 255, 255, 40),
+  agree: Image.rgbaToColor(52, 199, 89, 255),
+  disagree: Image.rgbaToColor(255, 59, 48, 255),
+  placeholder: Image.rgbaToColor(28, 28, 30, 255),
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CardVideo {
+  id: string;
+  title: string;
+  movie_title: string | null;
+  rating: number | null;
+  thumbnail_url: string | null;
+  vote_agree_count: number | null;
+  vote_disagree_count: number | null;
+}
+
+let fontPromise: Promise<Uint8Array> | null = null;
+
+// Fetched once per isolate
+function loadFont(): Promise<Uint8Array> {
+  if (!fontPromise) {
+    fontPromise = fetch(FONT_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Font download failed (${res.status})`);
+        return res.arrayBuffer();
+      })
+      .then((buffer) => new Uint8Array(buffer))
+      .catch((error) => {
+        fontPromise = null;
+        throw error;
+      });
+  }
+  return fontPromise;
+}
+
+async function loadThumbnail(url: string | null): Promise<Image | null> {
+  if (!url) return null;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const decoded = await Image.decode(new Uint8Array(await res.arrayBuffer()));
+    return decoded instanceof Image ? decoded : null;
+  } catch {
+    // Unsupported format (e.g. webp) - render the card without it
+    return null;
+  }
+}
+
+async function renderCard(video: CardVideo): Promise<Uint8Array> {
+  const [font, thumbnail] = await Promise.all([
+    loadFont(),
+    loadThumbnail(video.thumbnail_url),
+  ]);
+
+  const card = new Image(CARD_WIDTH, CARD_HEIGHT);
+  card.fill(COLORS.background);
+
+  if (thumbnail) {
+    card.composite(thumbnail.cover(THUMB_WIDTH, CARD_HEIGHT), 0, 0);
+  } else {
+    card.drawBox(1, 1, THUMB_WIDTH, CARD_HEIGHT, COLORS.placeholder);
+  }
+
+  const textX = THUMB_WIDTH + PADDING;
+  const textWidth = CARD_WIDTH - textX - PADDING;
+
+  card.composite(Image.renderText(font, 28, "LEWREVIEWS", COLORS.brand), textX, PADDING);
+
+  const heading = video.movie_title || video.title;
+  const headingImage = Image.renderText(
+    font,
+    60,
+    heading,
+    COLORS.text,
+    new TextLayout({ maxWidth: textWidth, maxHeight: 220, wrapStyle: "word" }),
+  );
+  card.composite(headingImage, textX, PADDING + 60);
+
+  const ratingLabel = video.rating ? RATING_LABELS[video.rating] : null;
+  if (ratingLabel) {
+    card.composite(
+      Image.renderText(font, 40, `Rated ${ratingLabel}`, COLORS.brand),
+      textX,
+      PADDING + 60 + headingImage.height + 24,
+    );
+  }
+
+  // Agree/disagree split bar along the bottom of the text column
+  const agreeVotes = video.vote_agree_count ?? 0;
+  const disagreeVotes = video.vote_disagree_count ?? 0;
+  const total = agreeVotes + disagreeVotes;
+  const barY = CARD_HEIGHT - PADDING - 28;
+  const labelY = barY - 56;
+
+  if (total > 0) {
+    const agreePercent = Math.round((agreeVotes / total) * 100);
+    const agreeWidth = Math.round((textWidth * agreeVotes) / total);
+    card.composite(
+      Image.renderText(font, 32, `${agreePercent}% agree`, COLORS.agree),
+      textX,
+      labelY,
+    );
+    const disagreeLabel = Image.renderText(font, 32, `${100 - agreePercent}% disagree`, COLORS.disagree);
+    card.composite(disagreeLabel, textX + textWidth - disagreeLabel.width, labelY);
+
+    if (agreeWidth > 0) {
+      card.drawBox(textX + 1, barY + 1, agreeWidth, 28, COLORS.agree);
+    }
+    if (agreeWidth < textWidth) {
+      card.drawBox(textX + agreeWidth + 1, barY + 1, textWidth - agreeWidth, 28, COLORS.disagree);
+    }
+  } else {
+    card.composite(
+      Image.renderText(font, 32, "No takes yet - agree or disagree on camera", COLORS.muted),
+      textX,
+      labelY,
+    );
+    card.drawBox(textX + 1, barY + 1, textWidth, 28, COLORS.track);
+  }
+
+  return await card.encode();
+}
+
+// Cached cards are keyed by everything drawn from live data, so a new vote or
+// rating edit produces a new file name instead of serving a stale card
+function cacheKey(video: CardVideo): string {
+  return [
+    `v${CARD_VERSION}`,
+    video.rating ?? 0,
+    video.vote_agree_count ?? 0,
+    video.vote_disagree_count ?? 0,
+  ].join("-") + ".png";
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const videoId = url.searchParams.get("videoId");
+
+    if (!videoId || !UUID_PATTERN.test(videoId)) {
+      return new Response(JSON.stringify({ error: "Missing or invalid videoId" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Read through the public feed view so only public, ready videos get cards
+    const supabasePublic = createClient(supabaseUrl, supabaseAnonKey);
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: video, error: videoError } = await supabasePublic
+      .from("feed_videos")
+      .select("id, title, movie_title, rating, thumbnail_url, vote_agree_count, vote_disagree_count")
+      .eq("id", videoId)
+      .maybeSingle<CardVideo>();
+
+    if (videoError) {
+      throw new Error(videoError.message);
+    }
+
+    if (!video) {
+      return new Response(JSON.stringify({ error: "Video not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const fileName = cacheKey(video);
+    const path = `${video.id}/${fileName}`;
+
+    const { data: existing, error: listError } = await supabaseAdmin.storage
+      .from(BUCKET)
+      .list(video.id);
+
+    if (listError) {
+      throw new Error(listError.message);
+    }
+
+    if (!existing?.some((file) => file.name === fileName)) {
+      const png = await renderCard(video);
+
+      const { error: uploadError } = await supabaseAdmin.storage
+        .from(BUCKET)
+        .upload(path, png, { contentType: "image/png", upsert: true });
+
+      if (uploadError) {
+        throw new Error(uploadError.message);
+      }
+
+      // Drop cards for older counts; a failed cleanup only leaves dead files
+      const stale = (existing ?? [])
+        .filter((file) => file.name !== fileName)
+        .map((file) => `${video.id}/${file.name}`);
+      if (stale.length > 0) {
+        await supabaseAdmin.storage.from(BUCKET).remove(stale);
+      }
+    }
+
+    const { data: publicUrl } = supabaseAdmin.storage.from(BUCKET).getPublicUrl(path);
+
+    if (url.searchParams.get("format") === "json") {
+      return new Response(JSON.stringify({ url: publicUrl.publicUrl }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        ...corsHeaders,
+        Location: publicUrl.publicUrl,
+        // Counts change, so let crawlers re-check every few minutes
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: "Failed to render share card",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,233 @@
+// ============================================================================
+// Transcode Edge Function
+// Triggered by webhook on videos INSERT, and on a schedule (every minute)
+// with the push webhook secret for retries. Claims processing videos and
+// hands each to the FFmpeg transcoder at TRANSCODER_URL (supabase/transcoder),
+// then publishes the H.264 output and HLS ladder with the probed metadata or
+// records the failure; see 00040_video_transcoding.sql, 00041 and 00042.
+// ============================================================================
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// Mirrors COMPRESSION_SETTINGS in mobile/constants/config.ts
+const COMPRESSION_SETTINGS = {
+  VIDEO_BITRATE: "2M",
+  AUDIO_BITRATE: "128k",
+  MAX_WIDTH: 1080,
+  MAX_HEIGHT: 1920,
+} as const;
+
+// Adaptive ladder by short side; the transcoder skips renditions larger
+// than the source. Names mirror HLS_RENDITIONS in mobile/constants/config.ts
+const HLS_RENDITIONS = [
+  { name: "360p", short_side: 360, video_bitrate: "600k" },
+  { name: "540p", short_side: 540, video_bitrate: "1200k" },
+  { name: "720p", short_side: 720, video_bitrate: "1600k" },
+  { name: "1080p", short_side: 1080, video_bitrate: COMPRESSION_SETTINGS.VIDEO_BITRATE },
+] as const;
+
+const VIDEOS_BUCKET = "videos";
+const STREAMS_BUCKET = "video-streams";
+
+// Stop claiming new videos after this long so the function can't time out
+// mid-transcode; the scheduled run picks up the rest
+const TIME_BUDGET_MS = 60_000;
+const TRANSCODE_TIMEOUT_MS = 300_000;
+
+// Long enough for the transcoder to fetch the source and upload the output
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+interface TranscodeJob {
+  video_id: string;
+  user_id: string;
+  source_path: string;
+  attempt: number;
+}
+
+interface TranscodeOutput {
+  duration_seconds: number;
+  width: number;
+  height: number;
+  file_size_bytes: number;
+  hls_renditions?: string[];
+  hls_error?: string;
+}
+
+interface WebhookPayload {
+  type?: string;
+  table?: string;
+  record?: { status?: string };
+}
+
+Deno.serve(async (req: Request) => {
+  try {
+    const webhookSecret = Deno.env.get("PUSH_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      return new Response(
+        JSON.stringify({ error: "PUSH_WEBHOOK_SECRET is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${webhookSecret}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const transcoderUrl = Deno.env.get("TRANSCODER_URL")?.replace(/\/$/, "");
+    if (!transcoderUrl) {
+      return new Response(
+        JSON.stringify({ error: "TRANSCODER_URL is not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    const transcoderSecret = Deno.env.get("TRANSCODER_SECRET");
+
+    // Webhook calls for rows that aren't uploads (seeded or admin inserts)
+    // have nothing to do; scheduled calls have no body
+    const payload: WebhookPayload = await req.json().catch(() => ({}));
+    if (payload.type === "INSERT" && payload.record?.status !== "processing") {
+      return new Response(JSON.stringify({ skipped: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const storage = supabase.storage.from(VIDEOS_BUCKET);
+    const streams = supabase.storage.from(STREAMS_BUCKET);
+
+    // Retries overwrite whatever an earlier attempt left behind
+    const signUpload = async (bucket: typeof storage, path: string) => {
+      const { data, error } = await bucket.createSignedUploadUrl(path, { upsert: true });
+      if (error || !data) {
+        throw new Error(`Could not sign upload for ${path}: ${error?.message}`);
+      }
+      return data.signedUrl;
+    };
+
+    const result = { ready: 0, retrying: 0, failed: 0 };
+    const startedAt = Date.now();
+
+    while (Date.now() - startedAt < TIME_BUDGET_MS) {
+      const { data, error } = await supabase.rpc("claim_transcode_job");
+      if (error) throw error;
+
+      const job = ((data ?? []) as TranscodeJob[])[0];
+      if (!job) break;
+
+      const outputPath = `${job.user_id}/${job.video_id}.mp4`;
+
+      try {
+        const { data: source, error: sourceError } = await storage.createSignedUrl(
+          job.source_path,
+          SIGNED_URL_TTL_SECONDS
+        );
+        if (sourceError || !source) {
+          throw new Error(`Source unavailable: ${sourceError?.message ?? job.source_path}`);
+        }
+
+        const uploadUrl = await signUpload(storage, outputPath);
+
+        const hlsDir = `${job.user_id}/${job.video_id}`;
+        const masterPath = `${hlsDir}/master.m3u8`;
+        const hls = {
+          master_upload_url: await signUpload(streams, masterPath),
+          renditions: await Promise.all(
+            HLS_RENDITIONS.map(async (rendition) => ({
+              ...rendition,
+              playlist_upload_url: await signUpload(streams, `${hlsDir}/${rendition.name}/index.m3u8`),
+              segments_upload_url: await signUpload(streams, `${hlsDir}/${rendition.name}/stream.ts`),
+            }))
+          ),
+        };
+
+        const response = await fetch(`${transcoderUrl}/transcode`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(transcoderSecret ? { Authorization: `Bearer ${transcoderSecret}` } : {}),
+          },
+          body: JSON.stringify({
+            input_url: source.signedUrl,
+            upload_url: uploadUrl,
+            video_bitrate: COMPRESSION_SETTINGS.VIDEO_BITRATE,
+            audio_bitrate: COMPRESSION_SETTINGS.AUDIO_BITRATE,
+            max_width: COMPRESSION_SETTINGS.MAX_WIDTH,
+            max_height: COMPRESSION_SETTINGS.MAX_HEIGHT,
+            hls,
+          }),
+          signal: AbortSignal.timeout(TRANSCODE_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          const details = await response.text();
+          // 422: the upload itself is unusable, so don't retry it
+          const { data: status, error: failError } = await supabase.rpc("fail_transcode", {
+            target_video_id: job.video_id,
+            error_message: `Transcoder returned ${response.status}: ${details}`,
+            retryable: response.status !== 422,
+          });
+          if (failError) throw failError;
+          if (status === "failed") result.failed++;
+          else result.retrying++;
+          continue;
+        }
+
+        const output: TranscodeOutput = await response.json();
+        const { data: publicUrl } = storage.getPublicUrl(outputPath);
+        // Without a ladder the video still plays from the MP4
+        const playbackUrl = output.hls_renditions?.length
+          ? streams.getPublicUrl(masterPath).data.publicUrl
+          : null;
+
+        const { data: published, error: completeError } = await supabase.rpc("complete_transcode", {
+          target_video_id: job.video_id,
+          output_url: publicUrl.publicUrl,
+          probed_duration_seconds: output.duration_seconds,
+          probed_width: output.width,
+          probed_height: output.height,
+          output_size_bytes: output.file_size_bytes,
+          output_playback_url: playbackUrl,
+        });
+        if (completeError) throw completeError;
+        // Rejected by the duration/dimension limits (00042); the original
+        // stays so the owner's failed upload can still be inspected
+        if (!published) {
+          result.failed++;
+          continue;
+        }
+        result.ready++;
+
+        // The original is no longer referenced once the video is ready
+        if (job.source_path !== outputPath) {
+          await storage.remove([job.source_path]);
+        }
+      } catch (error) {
+        const { data: status, error: failError } = await supabase.rpc("fail_transcode", {
+          target_video_id: job.video_id,
+          error_message: String(error),
+          retryable: true,
+        });
+        if (failError) throw failError;
+        if (status === "failed") result.failed++;
+        else result.retrying++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: "Internal error", details: String(error) }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+});
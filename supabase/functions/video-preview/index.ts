@@ -0,0 +1,243 @@
+// ============================================================================
+// Video Preview Edge Function
+// Serves a lightweight HTML page for shared links (lewreviews.app/v/<videoId>)
+// with Open Graph tags for chat/social unfurls and smart-banner metadata that
+// hands off to the app. Supabase only serves text/html from custom domains,
+// so lewreviews.app/v/* is routed here. Deploy with --no-verify-jwt
+// ============================================================================
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+const WEB_URL = "https://lewreviews.app";
+const APP_SCHEME = "lewreviews";
+const APP_NAME = "LewReviews";
+const ANDROID_PACKAGE = "com.lewreviews.app";
+const APP_STORE_ID = Deno.env.get("APP_STORE_ID") ?? "6759807404";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Mirrors RATING_LABELS in mobile/types/index.ts
+const RATING_LABELS: Record<number, string> = {
+  1: "Trash",
+  2: "Meh",
+  3: "Mid",
+  4: "Fire",
+  5: "Epic",
+};
+
+interface PreviewVideo {
+  id: string;
+  title: string;
+  description: string | null;
+  video_url: string;
+  thumbnail_url: string | null;
+  movie_title: string | null;
+  rating: number | null;
+  agree_disagree: boolean | null;
+  parent_video_id: string | null;
+  username: string;
+}
+
+const PREVIEW_COLUMNS =
+  "id, title, description, video_url, thumbnail_url, movie_title, rating, agree_disagree, parent_video_id";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Accepts .../v/<id>, .../video/<id> or ?id=<id>
+function parseVideoId(url: URL): string | null {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const index = segments.findIndex((segment) => segment === "v" || segment === "video");
+  const candidate = index >= 0 ? segments[index + 1] : url.searchParams.get("id");
+  return candidate && UUID_PATTERN.test(candidate) ? candidate : null;
+}
+
+// Public videos come from feed_videos; unlisted ones are only reachable by id,
+// so they are read from videos where RLS allows ready unlisted rows. Both
+// paths keep the block filter and hide processing/failed/deleted videos.
+async function loadVideo(videoId: string): Promise<PreviewVideo | null> {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!
+  );
+
+  const { data: publicVideo, error: publicError } = await supabase
+    .from("feed_videos")
+    .select(`${PREVIEW_COLUMNS}, username`)
+    .eq("id", videoId)
+    .maybeSingle<PreviewVideo>();
+
+  if (publicError) {
+    throw new Error(publicError.message);
+  }
+  if (publicVideo) {
+    return publicVideo;
+  }
+
+  const { data: unlisted, error: unlistedError } = await supabase
+    .from("videos")
+    .select(`${PREVIEW_COLUMNS}, profiles!inner(username)`)
+    .eq("id", videoId)
+    .eq("visibility", "unlisted")
+    .eq("status", "ready")
+    .maybeSingle();
+
+  if (unlistedError) {
+    throw new Error(unlistedError.message);
+  }
+  if (!unlisted) {
+    return null;
+  }
+
+  const { profiles, ...video } = unlisted as Omit<PreviewVideo, "username"> & {
+    profiles: { username: string };
+  };
+  return { ...video, username: profiles.username };
+}
+
+function describe(video: PreviewVideo): string {
+  if (video.description) {
+    return video.description;
+  }
+  if (video.parent_video_id && video.agree_disagree !== null) {
+    return `@${video.username} ${video.agree_disagree ? "agrees" : "disagrees"} on ${APP_NAME}. Watch the debate and add your take.`;
+  }
+  const rating = video.rating ? RATING_LABELS[video.rating] : null;
+  const verdict = rating ? ` rates it ${rating}.` : "";
+  return `@${video.username}${verdict || " shared a review."} Agree or disagree on ${APP_NAME}.`;
+}
+
+function renderPage(video: PreviewVideo): string {
+  const pageUrl = `${WEB_URL}/v/${video.id}`;
+  const appUrl = `${APP_SCHEME}://video/${video.id}`;
+  const title = video.movie_title ? `${video.movie_title}: ${video.title}` : video.title;
+  const description = describe(video);
+
+  const tags: string[] = [
+    `<meta property="og:site_name" content="${APP_NAME}">`,
+    `<meta property="og:type" content="video.other">`,
+    `<meta property="og:url" content="${escapeHtml(pageUrl)}">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(description)}">`,
+    `<meta property="og:video" content="${escapeHtml(video.video_url)}">`,
+    `<meta property="og:video:secure_url" content="${escapeHtml(video.video_url)}">`,
+    `<meta property="og:video:type" content="video/mp4">`,
+    `<meta name="twitter:card" content="summary_large_image">`,
+    `<meta name="twitter:title" content="${escapeHtml(title)}">`,
+    `<meta name="twitter:description" content="${escapeHtml(description)}">`,
+    // iOS Safari smart banner; app-argument reopens this video in the app
+    `<meta name="apple-itunes-app" content="app-id=${APP_STORE_ID}, app-argument=${escapeHtml(pageUrl)}">`,
+    // App Links hand-off for Android and in-app browsers
+    `<meta property="al:ios:url" content="${escapeHtml(appUrl)}">`,
+    `<meta property="al:ios:app_store_id" content="${APP_STORE_ID}">`,
+    `<meta property="al:ios:app_name" content="${APP_NAME}">`,
+    `<meta property="al:android:url" content="${escapeHtml(appUrl)}">`,
+    `<meta property="al:android:package" content="${ANDROID_PACKAGE}">`,
+    `<meta property="al:android:app_name" content="${APP_NAME}">`,
+    `<meta property="al:web:should_fallback" content="true">`,
+  ];
+
+  if (video.thumbnail_url) {
+    tags.push(
+      `<meta property="og:image" content="${escapeHtml(video.thumbnail_url)}">`,
+      `<meta name="twitter:image" content="${escapeHtml(video.thumbnail_url)}">`
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} | ${APP_NAME}</title>
+<meta name="description" content="${escapeHtml(description)}">
+<link rel="canonical" href="${escapeHtml(pageUrl)}">
+${tags.join("\n")}
+<style>
+body{margin:0;background:#000;color:#fff;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;display:flex;min-height:100vh;align-items:center;justify-content:center}
+main{max-width:420px;padding:24px;text-align:center}
+video{width:100%;max-height:70vh;border-radius:16px;background:#111}
+h1{font-size:20px;margin:16px 0 8px}
+p{color:rgba(255,255,255,.6);font-size:15px;margin:0 0 20px}
+a{display:inline-block;background:#ff2d55;color:#fff;text-decoration:none;font-weight:600;padding:12px 24px;border-radius:24px}
+</style>
+</head>
+<body>
+<main>
+<video src="${escapeHtml(video.video_url)}"${video.thumbnail_url ? ` poster="${escapeHtml(video.thumbnail_url)}"` : ""} controls playsinline></video>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(description)}</p>
+<a href="${escapeHtml(appUrl)}">Open in ${APP_NAME}</a>
+</main>
+</body>
+</html>`;
+}
+
+function renderUnavailablePage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Video unavailable | ${APP_NAME}</title>
+<meta property="og:site_name" content="${APP_NAME}">
+<meta property="og:title" content="Video unavailable">
+<meta name="apple-itunes-app" content="app-id=${APP_STORE_ID}">
+<style>
+body{margin:0;background:#000;color:#fff;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;display:flex;min-height:100vh;align-items:center;justify-content:center;text-align:center}
+p{color:rgba(255,255,255,.6)}
+</style>
+</head>
+<body>
+<main>
+<h1>Video unavailable</h1>
+<p>This video was removed, made private, or never existed.</p>
+</main>
+</body>
+</html>`;
+}
+
+function htmlResponse(body: string, status: number): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      // Unfurlers cache aggressively anyway; keep edits/removals visible within minutes
+      "Cache-Control": status === 200 ? "public, max-age=300" : "no-store",
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { "Content-Type": "application/json", Allow: "GET, HEAD" },
+    });
+  }
+
+  try {
+    const videoId = parseVideoId(new URL(req.url));
+    if (!videoId) {
+      return htmlResponse(renderUnavailablePage(), 404);
+    }
+
+    const video = await loadVideo(videoId);
+    if (!video) {
+      return htmlResponse(renderUnavailablePage(), 404);
+    }
+
+    return htmlResponse(renderPage(video), 200);
+  } catch (error) {
+    console.error("Video preview failed:", error instanceof Error ? error.message : String(error));
+    return htmlResponse(renderUnavailablePage(), 500);
+  }
+});
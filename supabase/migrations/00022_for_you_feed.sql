@@ -0,0 +1,133 @@
+-- ============================================================================
+-- For You Feed Ranking
+-- ============================================================================
+
+-- Ranks root videos for the calling user and returns one page of feed_videos
+-- rows as JSON along with an opaque cursor for the next page.
+--
+-- score = engagement * affinity * recency
+--   engagement: 1 + ln(1 + responses) + 0.5 * ln(1 + votes)
+--               + polarity * ln(1 + votes), where polarity is 1 for an even
+--               agree/disagree split and 0 for a unanimous one
+--   affinity:   1 + 0.5 if the viewer follows the creator
+--               + 0.25 * ln(1 + viewer's past votes on the creator's videos),
+--               halved when the viewer has already taken a stance on the video
+--   recency:    halves every 24 hours since the video was created
+--
+-- The cursor pins the snapshot time used for recency so scores stay stable
+-- while paging, and keys on (score, id) so ties never drop rows.
+CREATE OR REPLACE FUNCTION public.get_for_you_feed(
+    page_cursor TEXT DEFAULT NULL,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    page_size INTEGER := LEAST(GREATEST(COALESCE(limit_count, 10), 1), 50);
+    snapshot_at TIMESTAMPTZ := NOW();
+    last_score DOUBLE PRECISION;
+    last_id UUID;
+    cursor_data JSONB;
+    page JSONB;
+    last_row JSONB;
+    next_cursor TEXT;
+BEGIN
+    IF page_cursor IS NOT NULL THEN
+        BEGIN
+            cursor_data := convert_from(decode(page_cursor, 'base64'), 'UTF8')::jsonb;
+            snapshot_at := to_timestamp((cursor_data->>'t')::double precision);
+            last_score := (cursor_data->>'s')::double precision;
+            last_id := (cursor_data->>'i')::uuid;
+        EXCEPTION WHEN others THEN
+            RAISE EXCEPTION 'Invalid feed cursor';
+        END;
+    END IF;
+
+    WITH creator_affinity AS (
+        SELECT v.user_id AS creator_id, COUNT(*) AS votes_count
+        FROM public.video_votes vv
+        JOIN public.videos v ON v.id = vv.video_id
+        WHERE vv.user_id = viewer_id
+        GROUP BY v.user_id
+    ),
+    scored AS (
+        SELECT
+            fv.*,
+            (
+                (
+                    1
+                    + ln(1 + fv.responses_count)
+                    + 0.5 * ln(1 + fv.vote_agree_count + fv.vote_disagree_count)
+                    + CASE
+                        WHEN fv.vote_agree_count + fv.vote_disagree_count > 0 THEN
+                            (1 - abs(fv.vote_agree_count - fv.vote_disagree_count)::double precision
+                                / (fv.vote_agree_count + fv.vote_disagree_count))
+                            * ln(1 + fv.vote_agree_count + fv.vote_disagree_count)
+                        ELSE 0
+                      END
+                )
+                * (
+                    1
+                    + CASE WHEN f.id IS NOT NULL THEN 0.5 ELSE 0 END
+                    + 0.25 * ln(1 + COALESCE(ca.votes_count, 0))
+                )
+                * CASE WHEN own_vote.id IS NOT NULL THEN 0.5 ELSE 1 END
+                * power(0.5, EXTRACT(EPOCH FROM (snapshot_at - fv.created_at)) / 86400.0)
+            )::double precision AS feed_score
+        FROM public.feed_videos fv
+        LEFT JOIN public.follows f
+            ON f.follower_id = viewer_id AND f.following_id = fv.user_id
+        LEFT JOIN creator_affinity ca
+            ON ca.creator_id = fv.user_id
+        LEFT JOIN public.video_votes own_vote
+            ON own_vote.user_id = viewer_id AND own_vote.video_id = fv.id
+        WHERE fv.parent_video_id IS NULL
+          AND fv.created_at <= snapshot_at
+          AND fv.created_at > snapshot_at - INTERVAL '30 days'
+    ),
+    ranked AS (
+        SELECT *
+        FROM scored
+        WHERE last_id IS NULL
+           OR (scored.feed_score, scored.id) < (last_score, last_id)
+        ORDER BY scored.feed_score DESC, scored.id DESC
+        LIMIT page_size
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(ranked) ORDER BY ranked.feed_score DESC, ranked.id DESC), '[]'::jsonb)
+    INTO page
+    FROM ranked;
+
+    IF jsonb_array_length(page) = page_size THEN
+        last_row := page->(page_size - 1);
+        next_cursor := encode(
+            convert_to(
+                jsonb_build_object(
+                    't', EXTRACT(EPOCH FROM snapshot_at),
+                    's', (last_row->>'feed_score')::double precision,
+                    'i', last_row->>'id'
+                )::text,
+                'UTF8'
+            ),
+            'base64'
+        );
+        -- base64 output wraps long lines; keep the cursor a single token
+        next_cursor := replace(next_cursor, E'\n', '');
+    END IF;
+
+    RETURN jsonb_build_object('videos', page, 'next_cursor', next_cursor);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_for_you_feed(TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_for_you_feed(TEXT, INTEGER) IS
+'Returns one page of engagement-ranked root videos for the caller as {videos, next_cursor}.';
+
+-- Candidate scan for the ranking window: recent public root videos.
+CREATE INDEX IF NOT EXISTS idx_videos_root_feed
+    ON public.videos(created_at DESC)
+    WHERE parent_video_id IS NULL AND status = 'ready' AND visibility = 'public';
@@ -0,0 +1,85 @@
+-- ============================================================================
+-- Following Feed
+-- ============================================================================
+
+-- Chronological root videos from creators the caller follows. Pages key on
+-- (created_at, id) so videos sharing a timestamp are never skipped, and the
+-- cursor is opaque to match get_for_you_feed.
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+    page_cursor TEXT DEFAULT NULL,
+    limit_count INTEGER DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    page_size INTEGER := LEAST(GREATEST(COALESCE(limit_count, 10), 1), 50);
+    last_created_at TIMESTAMPTZ;
+    last_id UUID;
+    cursor_data JSONB;
+    page JSONB;
+    last_row JSONB;
+    next_cursor TEXT;
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF page_cursor IS NOT NULL THEN
+        BEGIN
+            cursor_data := convert_from(decode(page_cursor, 'base64'), 'UTF8')::jsonb;
+            last_created_at := (cursor_data->>'c')::timestamptz;
+            last_id := (cursor_data->>'i')::uuid;
+        EXCEPTION WHEN others THEN
+            RAISE EXCEPTION 'Invalid feed cursor';
+        END;
+    END IF;
+
+    WITH page_rows AS (
+        SELECT fv.*
+        FROM public.follows f
+        JOIN public.feed_videos fv ON fv.user_id = f.following_id
+        WHERE f.follower_id = viewer_id
+          AND fv.parent_video_id IS NULL
+          AND (
+              last_id IS NULL
+              OR (fv.created_at, fv.id) < (last_created_at, last_id)
+          )
+        ORDER BY fv.created_at DESC, fv.id DESC
+        LIMIT page_size
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(page_rows) ORDER BY page_rows.created_at DESC, page_rows.id DESC), '[]'::jsonb)
+    INTO page
+    FROM page_rows;
+
+    IF jsonb_array_length(page) = page_size THEN
+        last_row := page->(page_size - 1);
+        next_cursor := replace(
+            encode(
+                convert_to(
+                    jsonb_build_object('c', last_row->>'created_at', 'i', last_row->>'id')::text,
+                    'UTF8'
+                ),
+                'base64'
+            ),
+            E'\n',
+            ''
+        );
+    END IF;
+
+    RETURN jsonb_build_object('videos', page, 'next_cursor', next_cursor);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_following_feed(TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_following_feed(TEXT, INTEGER) IS
+'Returns one page of root videos from creators the caller follows as {videos, next_cursor}.';
+
+-- Per-creator keyset scan used by the following feed.
+CREATE INDEX IF NOT EXISTS idx_videos_following_feed
+    ON public.videos(user_id, created_at DESC, id DESC)
+    WHERE parent_video_id IS NULL AND status = 'ready' AND visibility = 'public';
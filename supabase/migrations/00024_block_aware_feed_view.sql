@@ -0,0 +1,47 @@
+-- ============================================================================
+-- Block-Aware Feed View
+-- ============================================================================
+
+-- feed_videos runs with its owner's privileges, so the block-aware videos
+-- policies from 00019 never applied to it and clients had to filter blocked
+-- creators after fetching. Apply the same check inside the view so every
+-- query path (feeds, discover, replies, RPCs) gets full, consistent pages.
+DROP VIEW IF EXISTS feed_videos;
+
+CREATE VIEW feed_videos AS
+SELECT
+    v.id,
+    v.user_id,
+    v.parent_video_id,
+    v.root_video_id,
+    v.chain_depth,
+    v.agree_disagree,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration_seconds,
+    v.views_count,
+    v.likes_count,
+    v.responses_count,
+    v.vote_agree_count,
+    v.vote_disagree_count,
+    v.rating,
+    v.movie_title,
+    v.tmdb_id,
+    v.tmdb_media_type,
+    v.tmdb_poster_path,
+    v.created_at,
+    v.published_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+FROM videos v
+JOIN profiles p ON v.user_id = p.id
+WHERE v.status = 'ready'::video_status
+  AND v.visibility = 'public'::video_visibility
+  AND (
+      auth.uid() IS NULL
+      OR auth.uid() = v.user_id
+      OR NOT public.users_are_blocked(auth.uid(), v.user_id)
+  );
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Bookmarks
+-- ============================================================================
+
+-- Saved videos. Bookmarks are private: only their owner can read or change
+-- them, and only videos the owner can currently access may be saved.
+CREATE TABLE IF NOT EXISTS public.bookmarks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT bookmarks_unique_user_video UNIQUE (user_id, video_id)
+);
+
+-- Saved list: newest first per user, video_id breaks ties for the keyset cursor
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created
+    ON public.bookmarks(user_id, created_at DESC, video_id DESC);
+CREATE INDEX IF NOT EXISTS idx_bookmarks_video_id
+    ON public.bookmarks(video_id);
+
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own bookmarks"
+    ON public.bookmarks
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can bookmark accessible videos"
+    ON public.bookmarks
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+    );
+
+CREATE POLICY "Users can delete own bookmarks"
+    ON public.bookmarks
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- No update policy - bookmarks are only created/deleted
+
+COMMENT ON TABLE public.bookmarks IS 'Private per-user saved videos';
@@ -0,0 +1,133 @@
+-- ============================================================================
+-- Qualified View Tracking
+-- ============================================================================
+
+-- One row per viewer, device, video and UTC day. The client only reports a
+-- view once it qualifies (watched long enough), so the first row of the day
+-- bumps videos.views_count and later reports only add watch time.
+CREATE TABLE IF NOT EXISTS public.video_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    view_date DATE NOT NULL DEFAULT (NOW() AT TIME ZONE 'UTC')::date,
+    watch_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    completed BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT video_views_device_id_length CHECK (char_length(device_id) BETWEEN 1 AND 64),
+    CONSTRAINT video_views_watch_seconds_non_negative CHECK (watch_seconds >= 0),
+    CONSTRAINT video_views_unique_daily UNIQUE (video_id, user_id, device_id, view_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_views_video_date
+    ON public.video_views(video_id, view_date);
+CREATE INDEX IF NOT EXISTS idx_video_views_user_id
+    ON public.video_views(user_id);
+
+-- No client policies: rows are only written through record_video_views and
+-- read by server-side aggregates.
+ALTER TABLE public.video_views ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.video_views IS 'Deduplicated qualified views with accumulated watch time';
+
+-- Records a batch of qualified views for the caller.
+-- views: [{ "video_id": uuid, "watch_seconds": number, "completed": boolean }]
+-- Returns the number of new daily views counted.
+CREATE OR REPLACE FUNCTION public.record_video_views(
+    views JSONB,
+    device_id TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    view_item JSONB;
+    target_video_id UUID;
+    target_duration INTEGER;
+    item_watch_seconds NUMERIC;
+    item_completed BOOLEAN;
+    inserted_id UUID;
+    counted INTEGER := 0;
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF record_video_views.device_id IS NULL
+       OR char_length(record_video_views.device_id) NOT BETWEEN 1 AND 64 THEN
+        RAISE EXCEPTION 'Invalid device id';
+    END IF;
+
+    IF jsonb_typeof(views) <> 'array' OR jsonb_array_length(views) > 50 THEN
+        RAISE EXCEPTION 'views must be an array of at most 50 entries';
+    END IF;
+
+    FOR view_item IN SELECT * FROM jsonb_array_elements(views)
+    LOOP
+        BEGIN
+            target_video_id := (view_item->>'video_id')::uuid;
+            item_watch_seconds := GREATEST(COALESCE((view_item->>'watch_seconds')::numeric, 0), 0);
+            item_completed := COALESCE((view_item->>'completed')::boolean, FALSE);
+        EXCEPTION WHEN others THEN
+            CONTINUE;
+        END;
+
+        SELECT v.duration_seconds INTO target_duration
+        FROM public.videos v
+        WHERE v.id = target_video_id
+          AND v.status = 'ready'
+          AND v.visibility IN ('public', 'unlisted')
+          AND v.user_id <> viewer_id
+          AND NOT public.users_are_blocked(viewer_id, v.user_id);
+
+        -- Skip missing, unplayable, own and blocked videos
+        IF NOT FOUND THEN
+            CONTINUE;
+        END IF;
+
+        -- Clamp a single report to a few loops of the video to limit inflation
+        IF target_duration IS NOT NULL AND target_duration > 0 THEN
+            item_watch_seconds := LEAST(item_watch_seconds, target_duration * 5);
+        ELSE
+            item_watch_seconds := LEAST(item_watch_seconds, 600);
+        END IF;
+
+        inserted_id := NULL;
+        INSERT INTO public.video_views (video_id, user_id, device_id, watch_seconds, completed)
+        VALUES (target_video_id, viewer_id, record_video_views.device_id, item_watch_seconds, item_completed)
+        ON CONFLICT ON CONSTRAINT video_views_unique_daily DO NOTHING
+        RETURNING id INTO inserted_id;
+
+        IF inserted_id IS NOT NULL THEN
+            UPDATE public.videos
+            SET views_count = views_count + 1
+            WHERE id = target_video_id;
+            counted := counted + 1;
+        ELSE
+            UPDATE public.video_views vv
+            SET watch_seconds = vv.watch_seconds + item_watch_seconds,
+                completed = vv.completed OR item_completed,
+                updated_at = NOW()
+            WHERE vv.video_id = target_video_id
+              AND vv.user_id = viewer_id
+              AND vv.device_id = record_video_views.device_id
+              AND vv.view_date = (NOW() AT TIME ZONE 'UTC')::date;
+        END IF;
+    END LOOP;
+
+    RETURN counted;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_video_views(JSONB, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.record_video_views(JSONB, TEXT) IS
+'Counts each qualified view once per user/device/video/day and accumulates watch time.';
+
+-- The bare counter let any client inflate views; all counting now goes
+-- through record_video_views.
+REVOKE EXECUTE ON FUNCTION public.increment_video_views(UUID) FROM PUBLIC, anon, authenticated;
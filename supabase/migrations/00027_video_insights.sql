@@ -0,0 +1,193 @@
+-- ============================================================================
+-- Video Insights
+-- ============================================================================
+
+-- Furthest playback position reached in each daily view, used to build the
+-- retention curve. Looping playback keeps the maximum, not the last position.
+ALTER TABLE public.video_views
+    ADD COLUMN IF NOT EXISTS max_position_seconds NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.video_views
+    DROP CONSTRAINT IF EXISTS video_views_max_position_non_negative;
+ALTER TABLE public.video_views
+    ADD CONSTRAINT video_views_max_position_non_negative CHECK (max_position_seconds >= 0);
+
+-- Same as 00026, plus an optional max_position_seconds per view.
+-- views: [{ "video_id": uuid, "watch_seconds": number, "completed": boolean,
+--           "max_position_seconds": number }]
+CREATE OR REPLACE FUNCTION public.record_video_views(
+    views JSONB,
+    device_id TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    view_item JSONB;
+    target_video_id UUID;
+    target_duration INTEGER;
+    item_watch_seconds NUMERIC;
+    item_max_position NUMERIC;
+    item_completed BOOLEAN;
+    inserted_id UUID;
+    counted INTEGER := 0;
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF record_video_views.device_id IS NULL
+       OR char_length(record_video_views.device_id) NOT BETWEEN 1 AND 64 THEN
+        RAISE EXCEPTION 'Invalid device id';
+    END IF;
+
+    IF jsonb_typeof(views) <> 'array' OR jsonb_array_length(views) > 50 THEN
+        RAISE EXCEPTION 'views must be an array of at most 50 entries';
+    END IF;
+
+    FOR view_item IN SELECT * FROM jsonb_array_elements(views)
+    LOOP
+        BEGIN
+            target_video_id := (view_item->>'video_id')::uuid;
+            item_watch_seconds := GREATEST(COALESCE((view_item->>'watch_seconds')::numeric, 0), 0);
+            item_max_position := GREATEST(COALESCE((view_item->>'max_position_seconds')::numeric, 0), 0);
+            item_completed := COALESCE((view_item->>'completed')::boolean, FALSE);
+        EXCEPTION WHEN others THEN
+            CONTINUE;
+        END;
+
+        SELECT v.duration_seconds INTO target_duration
+        FROM public.videos v
+        WHERE v.id = target_video_id
+          AND v.status = 'ready'
+          AND v.visibility IN ('public', 'unlisted')
+          AND v.user_id <> viewer_id
+          AND NOT public.users_are_blocked(viewer_id, v.user_id);
+
+        -- Skip missing, unplayable, own and blocked videos
+        IF NOT FOUND THEN
+            CONTINUE;
+        END IF;
+
+        -- Clamp a single report to a few loops of the video to limit inflation
+        IF target_duration IS NOT NULL AND target_duration > 0 THEN
+            item_watch_seconds := LEAST(item_watch_seconds, target_duration * 5);
+            item_max_position := LEAST(item_max_position, target_duration);
+        ELSE
+            item_watch_seconds := LEAST(item_watch_seconds, 600);
+            item_max_position := LEAST(item_max_position, 600);
+        END IF;
+
+        inserted_id := NULL;
+        INSERT INTO public.video_views (video_id, user_id, device_id, watch_seconds, max_position_seconds, completed)
+        VALUES (target_video_id, viewer_id, record_video_views.device_id, item_watch_seconds, item_max_position, item_completed)
+        ON CONFLICT ON CONSTRAINT video_views_unique_daily DO NOTHING
+        RETURNING id INTO inserted_id;
+
+        IF inserted_id IS NOT NULL THEN
+            UPDATE public.videos
+            SET views_count = views_count + 1
+            WHERE id = target_video_id;
+            counted := counted + 1;
+        ELSE
+            UPDATE public.video_views vv
+            SET watch_seconds = vv.watch_seconds + item_watch_seconds,
+                max_position_seconds = GREATEST(vv.max_position_seconds, item_max_position),
+                completed = vv.completed OR item_completed,
+                updated_at = NOW()
+            WHERE vv.video_id = target_video_id
+              AND vv.user_id = viewer_id
+              AND vv.device_id = record_video_views.device_id
+              AND vv.view_date = (NOW() AT TIME ZONE 'UTC')::date;
+        END IF;
+    END LOOP;
+
+    RETURN counted;
+END;
+$$;
+
+-- Owner-only aggregates for one video. The retention curve splits the video
+-- into up to 20 equal buckets (one per second for short clips) and reports
+-- the share of views that reached the start of each bucket.
+CREATE OR REPLACE FUNCTION public.get_video_insights(target_video_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    target_owner_id UUID;
+    target_duration INTEGER;
+    bucket_count INTEGER;
+    summary JSONB;
+    retention JSONB;
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT v.user_id, v.duration_seconds
+    INTO target_owner_id, target_duration
+    FROM public.videos v
+    WHERE v.id = target_video_id;
+
+    IF target_owner_id IS NULL OR target_owner_id <> viewer_id THEN
+        RAISE EXCEPTION 'Not authorized to view insights for this video';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'views', COUNT(*),
+        'unique_viewers', COUNT(DISTINCT vv.user_id),
+        'total_watch_seconds', COALESCE(SUM(vv.watch_seconds), 0),
+        'avg_watch_seconds', COALESCE(ROUND(AVG(vv.watch_seconds), 2), 0),
+        'completion_rate', COALESCE(ROUND(AVG(CASE WHEN vv.completed THEN 1 ELSE 0 END), 4), 0)
+    )
+    INTO summary
+    FROM public.video_views vv
+    WHERE vv.video_id = target_video_id;
+
+    IF target_duration IS NOT NULL AND target_duration > 0 THEN
+        bucket_count := LEAST(target_duration, 20);
+
+        SELECT COALESCE(jsonb_agg(
+            jsonb_build_object(
+                'position_seconds', b.position_seconds,
+                'retention', b.retention
+            )
+            ORDER BY b.position_seconds
+        ), '[]'::jsonb)
+        INTO retention
+        FROM (
+            SELECT
+                ROUND(g * target_duration::numeric / bucket_count, 2) AS position_seconds,
+                COALESCE(ROUND(AVG(
+                    CASE
+                        WHEN vv.completed
+                          OR vv.max_position_seconds >= g * target_duration::numeric / bucket_count
+                        THEN 1 ELSE 0
+                    END
+                ), 4), 0) AS retention
+            FROM generate_series(0, bucket_count - 1) AS g
+            LEFT JOIN public.video_views vv ON vv.video_id = target_video_id
+            GROUP BY g
+        ) b;
+    ELSE
+        retention := '[]'::jsonb;
+    END IF;
+
+    RETURN summary || jsonb_build_object(
+        'duration_seconds', target_duration,
+        'retention', retention
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_video_insights(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_video_insights(UUID) IS
+'Returns view count, average watch time, completion rate and retention curve for a video owned by the caller.';
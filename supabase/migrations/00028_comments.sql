@@ -0,0 +1,223 @@
+-- ============================================================================
+-- Text Comments
+-- ============================================================================
+
+-- Text comments on videos. A top-level comment may carry a stance (agree /
+-- disagree) without recording a video response; replies thread one level
+-- deep under a top-level comment and carry no stance of their own.
+CREATE TABLE IF NOT EXISTS public.comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    parent_comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    agree_disagree BOOLEAN,
+    replies_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT comments_body_length CHECK (char_length(btrim(body)) BETWEEN 1 AND 500),
+    CONSTRAINT comments_reply_has_no_stance CHECK (parent_comment_id IS NULL OR agree_disagree IS NULL)
+);
+
+-- Top-level comments newest first (id breaks ties for the keyset cursor),
+-- replies oldest first
+CREATE INDEX IF NOT EXISTS idx_comments_video_created
+    ON public.comments(video_id, created_at DESC, id DESC)
+    WHERE parent_comment_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_parent_created
+    ON public.comments(parent_comment_id, created_at)
+    WHERE parent_comment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_user_id
+    ON public.comments(user_id);
+
+ALTER TABLE public.videos
+    ADD COLUMN IF NOT EXISTS comments_count INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- Write validation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.validate_comment_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    parent_record public.comments%ROWTYPE;
+BEGIN
+    IF NOT public.can_access_video(NEW.video_id, NEW.user_id) THEN
+        RAISE EXCEPTION 'Cannot comment on an inaccessible video';
+    END IF;
+
+    IF NEW.parent_comment_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT *
+    INTO parent_record
+    FROM public.comments
+    WHERE id = NEW.parent_comment_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Parent comment not found';
+    END IF;
+
+    IF parent_record.video_id <> NEW.video_id THEN
+        RAISE EXCEPTION 'Replies must be on the same video as their parent';
+    END IF;
+
+    IF parent_record.parent_comment_id IS NOT NULL THEN
+        RAISE EXCEPTION 'Replies may only target top-level comments';
+    END IF;
+
+    IF public.users_are_blocked(NEW.user_id, parent_record.user_id) THEN
+        RAISE EXCEPTION 'Cannot interact with a blocked user';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_comment_write_trigger ON public.comments;
+CREATE TRIGGER validate_comment_write_trigger
+    BEFORE INSERT ON public.comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_comment_write();
+
+-- ============================================================================
+-- Denormalized counters
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.update_comment_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE public.videos
+        SET comments_count = comments_count + 1
+        WHERE id = NEW.video_id;
+
+        IF NEW.parent_comment_id IS NOT NULL THEN
+            UPDATE public.comments
+            SET replies_count = replies_count + 1
+            WHERE id = NEW.parent_comment_id;
+        END IF;
+
+        RETURN NEW;
+    ELSIF TG_OP = 'DELETE' THEN
+        UPDATE public.videos
+        SET comments_count = GREATEST(0, comments_count - 1)
+        WHERE id = OLD.video_id;
+
+        IF OLD.parent_comment_id IS NOT NULL THEN
+            UPDATE public.comments
+            SET replies_count = GREATEST(0, replies_count - 1)
+            WHERE id = OLD.parent_comment_id;
+        END IF;
+
+        RETURN OLD;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_comment_counts_trigger ON public.comments;
+CREATE TRIGGER update_comment_counts_trigger
+    AFTER INSERT OR DELETE ON public.comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_comment_counts();
+
+-- ============================================================================
+-- Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+
+-- Readable with the video, hiding comments from blocked users either way
+CREATE POLICY "Comments are viewable when video is accessible and not blocked"
+    ON public.comments
+    FOR SELECT
+    USING (
+        public.can_access_video(video_id, auth.uid())
+        AND (
+            auth.uid() IS NULL
+            OR auth.uid() = user_id
+            OR NOT public.users_are_blocked(auth.uid(), user_id)
+        )
+    );
+
+CREATE POLICY "Users can comment on accessible videos"
+    ON public.comments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+    );
+
+-- Authors can remove their comments; video owners can remove any on their video
+CREATE POLICY "Authors and video owners can delete comments"
+    ON public.comments
+    FOR DELETE
+    USING (
+        auth.uid() = user_id
+        OR EXISTS (
+            SELECT 1 FROM public.videos v
+            WHERE v.id = comments.video_id
+              AND v.user_id = auth.uid()
+        )
+    );
+
+-- No update policy - comments are only created/deleted
+
+COMMENT ON TABLE public.comments IS 'Text comments on videos with optional stance, threaded one level deep';
+
+-- ============================================================================
+-- Feed view: expose comments_count
+-- ============================================================================
+
+-- Same as 00024 plus comments_count; the block filter must stay in place.
+DROP VIEW IF EXISTS feed_videos;
+
+CREATE VIEW feed_videos AS
+SELECT
+    v.id,
+    v.user_id,
+    v.parent_video_id,
+    v.root_video_id,
+    v.chain_depth,
+    v.agree_disagree,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration_seconds,
+    v.views_count,
+    v.likes_count,
+    v.responses_count,
+    v.comments_count,
+    v.vote_agree_count,
+    v.vote_disagree_count,
+    v.rating,
+    v.movie_title,
+    v.tmdb_id,
+    v.tmdb_media_type,
+    v.tmdb_poster_path,
+    v.created_at,
+    v.published_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+FROM videos v
+JOIN profiles p ON v.user_id = p.id
+WHERE v.status = 'ready'::video_status
+  AND v.visibility = 'public'::video_visibility
+  AND (
+      auth.uid() IS NULL
+      OR auth.uid() = v.user_id
+      OR NOT public.users_are_blocked(auth.uid(), v.user_id)
+  );
@@ -0,0 +1,223 @@
+-- ============================================================================
+-- Nested Debate Threads
+-- ============================================================================
+
+-- Maximum chain depth a response may be posted at. Configurable per database
+-- (ALTER DATABASE postgres SET app.max_response_depth = '4') and clamped to
+-- the chain_depth_limit constraint on videos. Defaults to that limit.
+CREATE OR REPLACE FUNCTION public.max_response_depth()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT LEAST(
+        10,
+        GREATEST(1, COALESCE(NULLIF(current_setting('app.max_response_depth', true), '')::INTEGER, 10))
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.max_response_depth() TO anon, authenticated;
+
+COMMENT ON FUNCTION public.max_response_depth() IS 'Deepest chain_depth a response video may be posted at (app.max_response_depth, 1-10)';
+
+-- ============================================================================
+-- Chain info: root and depth come from the immediate parent
+-- ============================================================================
+
+-- Runs as definer so the parent is resolved even when RLS would hide it from
+-- the inserting user; validate_video_write decides whether the target is allowed.
+CREATE OR REPLACE FUNCTION public.set_video_chain_info()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    parent_root UUID;
+    parent_depth INTEGER;
+BEGIN
+    IF NEW.parent_video_id IS NOT NULL THEN
+        SELECT root_video_id, chain_depth INTO parent_root, parent_depth
+        FROM public.videos
+        WHERE id = NEW.parent_video_id;
+
+        -- Every response in a debate points at the same root video
+        NEW.root_video_id := COALESCE(parent_root, NEW.parent_video_id);
+        NEW.chain_depth := COALESCE(parent_depth, 0) + 1;
+    ELSE
+        NEW.root_video_id := NULL;
+        NEW.chain_depth := 0;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Write validation: allow rebuttals to responses up to the configured depth
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.validate_video_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    parent_record public.videos%ROWTYPE;
+    root_owner_id UUID;
+BEGIN
+    IF NEW.parent_video_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        -- Moving a response would leave root_video_id/chain_depth of its subtree stale
+        IF NEW.parent_video_id IS DISTINCT FROM OLD.parent_video_id THEN
+            RAISE EXCEPTION 'Response target cannot be changed';
+        END IF;
+
+        -- The parent was checked when the response was posted. It may have
+        -- gone under review or been hidden since, which must not block
+        -- counter updates, comments or transcoding on its responses.
+        RETURN NEW;
+    END IF;
+
+    SELECT *
+    INTO parent_record
+    FROM public.videos
+    WHERE id = NEW.parent_video_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Parent video not found';
+    END IF;
+
+    -- Depth is only checked when posting so lowering the limit keeps old threads editable
+    IF parent_record.chain_depth + 1 > public.max_response_depth() THEN
+        RAISE EXCEPTION 'Response chain is too deep';
+    END IF;
+
+    IF parent_record.status <> 'ready' OR parent_record.visibility <> 'public' THEN
+        RAISE EXCEPTION 'Responses may only target public ready videos';
+    END IF;
+
+    IF public.users_are_blocked(NEW.user_id, parent_record.user_id) THEN
+        RAISE EXCEPTION 'Cannot interact with a blocked user';
+    END IF;
+
+    IF parent_record.root_video_id IS NOT NULL THEN
+        SELECT user_id INTO root_owner_id
+        FROM public.videos
+        WHERE id = parent_record.root_video_id;
+
+        IF root_owner_id IS NOT NULL AND public.users_are_blocked(NEW.user_id, root_owner_id) THEN
+            RAISE EXCEPTION 'Cannot interact with a blocked user';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Vote sync: a response's stance is a vote on its immediate parent
+-- ============================================================================
+
+-- Recomputes one user's response-derived vote on a video from their latest
+-- public, ready response to it. Removes the vote when no such response is left
+-- (or the video itself is gone) and never records a vote on the user's own video.
+CREATE OR REPLACE FUNCTION public.resync_response_vote(target_user_id UUID, target_video_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    target_owner_id UUID;
+    latest_stance BOOLEAN;
+BEGIN
+    SELECT user_id INTO target_owner_id
+    FROM public.videos
+    WHERE id = target_video_id;
+
+    IF target_owner_id IS NULL OR target_owner_id = target_user_id THEN
+        DELETE FROM public.video_votes
+        WHERE user_id = target_user_id
+          AND video_id = target_video_id;
+        RETURN;
+    END IF;
+
+    SELECT r.agree_disagree INTO latest_stance
+    FROM public.videos r
+    WHERE r.parent_video_id = target_video_id
+      AND r.user_id = target_user_id
+      AND r.agree_disagree IS NOT NULL
+      AND r.status = 'ready'
+      AND r.visibility = 'public'
+    ORDER BY r.created_at DESC
+    LIMIT 1;
+
+    IF latest_stance IS NULL THEN
+        DELETE FROM public.video_votes
+        WHERE user_id = target_user_id
+          AND video_id = target_video_id;
+    ELSE
+        INSERT INTO public.video_votes (user_id, video_id, vote)
+        VALUES (target_user_id, target_video_id, latest_stance)
+        ON CONFLICT (user_id, video_id)
+        DO UPDATE SET vote = EXCLUDED.vote, updated_at = NOW()
+        WHERE public.video_votes.vote IS DISTINCT FROM EXCLUDED.vote;
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_response_stance_to_votes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.parent_video_id IS NOT NULL THEN
+            PERFORM public.resync_response_vote(NEW.user_id, NEW.parent_video_id);
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        -- Counter updates on videos are frequent; only stance-relevant changes resync
+        IF NEW.parent_video_id IS NOT DISTINCT FROM OLD.parent_video_id
+           AND NEW.agree_disagree IS NOT DISTINCT FROM OLD.agree_disagree
+           AND NEW.status IS NOT DISTINCT FROM OLD.status
+           AND NEW.visibility IS NOT DISTINCT FROM OLD.visibility THEN
+            RETURN NEW;
+        END IF;
+
+        IF OLD.parent_video_id IS NOT NULL THEN
+            PERFORM public.resync_response_vote(OLD.user_id, OLD.parent_video_id);
+        END IF;
+        IF NEW.parent_video_id IS NOT NULL
+           AND NEW.parent_video_id IS DISTINCT FROM OLD.parent_video_id THEN
+            PERFORM public.resync_response_vote(NEW.user_id, NEW.parent_video_id);
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF OLD.parent_video_id IS NOT NULL THEN
+        PERFORM public.resync_response_vote(OLD.user_id, OLD.parent_video_id);
+    END IF;
+
+    RETURN OLD;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_response_stance_to_votes() IS 'Keeps video_votes in step with response stances on the immediate parent video';
+
+-- ============================================================================
+-- Debate tree lookups
+-- ============================================================================
+
+-- Whole-tree fetches filter feed_videos by root and order by depth/time
+CREATE INDEX IF NOT EXISTS idx_videos_root_depth_created
+    ON public.videos(root_video_id, chain_depth, created_at)
+    WHERE root_video_id IS NOT NULL;
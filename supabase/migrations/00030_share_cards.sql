@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Share Cards
+-- ============================================================================
+-- Rendered debate card PNGs (thumbnail, movie, rating, agree/disagree split)
+-- cached by the share-card edge function as <video_id>/<cache_key>.png.
+-- Only the service role writes here; the function replaces a video's card
+-- when its rating or consensus changes.
+
+-- Create share-cards bucket (max 2MB, PNG only)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'share-cards',
+    'share-cards',
+    true,  -- Public bucket so link previews can fetch cards without auth
+    2097152,  -- 2MB in bytes
+    ARRAY['image/png']
+);
+
+-- Anyone can view share cards (public bucket)
+CREATE POLICY "Share cards are publicly accessible"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'share-cards');
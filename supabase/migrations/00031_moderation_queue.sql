@@ -0,0 +1,392 @@
+-- ============================================================================
+-- Moderation Review Queue
+-- ============================================================================
+-- Moderators are users whose auth app_metadata carries role = 'moderator'
+-- (set with the service role, e.g. auth.admin.updateUserById(id,
+-- { app_metadata: { role: 'moderator' } })). app_metadata is not writable by
+-- users, so the claim in their JWT can be trusted by RLS.
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') = 'moderator';
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_moderator() TO authenticated;
+
+COMMENT ON FUNCTION public.is_moderator() IS 'True when the caller''s JWT carries the moderator role claim';
+
+-- ============================================================================
+-- Account standing
+-- ============================================================================
+
+-- Suspensions are recorded here; enforcement lives in the write policies
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS warnings_count INTEGER NOT NULL DEFAULT 0;
+
+-- Profiles are self-updatable, so standing columns and hidden videos are
+-- guarded against client roles; moderator RPCs run as definer and pass.
+CREATE OR REPLACE FUNCTION public.guard_profile_standing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND (NEW.suspended_until IS DISTINCT FROM OLD.suspended_until
+            OR NEW.warnings_count IS DISTINCT FROM OLD.warnings_count) THEN
+        RAISE EXCEPTION 'Account standing can only be changed by moderators';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_profile_standing_trigger ON public.profiles;
+CREATE TRIGGER guard_profile_standing_trigger
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_profile_standing();
+
+CREATE OR REPLACE FUNCTION public.guard_removed_video()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND OLD.status = 'deleted'
+       AND NEW.status <> 'deleted' THEN
+        RAISE EXCEPTION 'Removed videos cannot be restored';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_removed_video_trigger ON public.videos;
+CREATE TRIGGER guard_removed_video_trigger
+    BEFORE UPDATE ON public.videos
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_removed_video();
+
+-- Warnings reach the user through the notifications inbox/push pipeline
+ALTER TABLE public.notifications
+    DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('new_review', 'response', 'moderation'));
+
+-- ============================================================================
+-- Report resolution
+-- ============================================================================
+
+-- pending  -> not yet looked at
+-- reviewed -> upheld with a warning; the content stays up
+-- resolved -> upheld; the video was hidden or the user suspended
+-- rejected -> no violation found
+ALTER TABLE public.reports
+    ADD COLUMN IF NOT EXISTS resolution TEXT,
+    ADD COLUMN IF NOT EXISTS moderator_note TEXT,
+    ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+ALTER TABLE public.reports
+    DROP CONSTRAINT IF EXISTS reports_resolution_check;
+ALTER TABLE public.reports
+    ADD CONSTRAINT reports_resolution_check
+    CHECK (resolution IS NULL OR resolution IN ('hide_video', 'warn_user', 'suspend_user', 'reject'));
+
+-- The queue reads pending reports oldest first
+CREATE INDEX IF NOT EXISTS idx_reports_pending_created
+    ON public.reports(created_at)
+    WHERE status = 'pending';
+
+-- ============================================================================
+-- Audit log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    moderator_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('hide_video', 'warn_user', 'suspend_user', 'reject')),
+    report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+    target_video_id UUID REFERENCES public.videos(id) ON DELETE SET NULL,
+    target_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    reports_closed INTEGER NOT NULL DEFAULT 0,
+    note TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_created_at ON public.moderation_actions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_target_user_id ON public.moderation_actions(target_user_id);
+
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by resolve_report (SECURITY DEFINER); nobody edits history
+CREATE POLICY "Moderators can view moderation actions"
+    ON public.moderation_actions
+    FOR SELECT
+    TO authenticated
+    USING (public.is_moderator());
+
+-- ============================================================================
+-- RLS for moderators
+-- ============================================================================
+
+CREATE POLICY "Moderators can view all reports"
+    ON public.reports
+    FOR SELECT
+    TO authenticated
+    USING (public.is_moderator());
+
+-- Hidden, private and processing videos stay reviewable
+CREATE POLICY "Moderators can view all videos"
+    ON public.videos
+    FOR SELECT
+    TO authenticated
+    USING (public.is_moderator());
+
+-- ============================================================================
+-- Queue
+-- ============================================================================
+
+-- Pending reports grouped by target: one row per reported video, or per
+-- reported user for profile-only reports. report_id is the oldest pending
+-- report in the group and is what resolve_report expects.
+CREATE OR REPLACE FUNCTION public.get_moderation_queue(queue_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    report_id UUID,
+    reported_video_id UUID,
+    reported_user_id UUID,
+    report_count BIGINT,
+    reasons TEXT[],
+    details TEXT[],
+    first_reported_at TIMESTAMPTZ,
+    last_reported_at TIMESTAMPTZ,
+    video_title TEXT,
+    video_url TEXT,
+    thumbnail_url TEXT,
+    video_status video_status,
+    username TEXT,
+    avatar_url TEXT,
+    suspended_until TIMESTAMPTZ,
+    warnings_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    RETURN QUERY
+    WITH pending AS (
+        SELECT
+            r.*,
+            COALESCE(r.reported_video_id::text, 'user:' || r.reported_user_id::text) AS target_key
+        FROM public.reports r
+        WHERE r.status = 'pending'
+    ),
+    grouped AS (
+        SELECT
+            (array_agg(p.id ORDER BY p.created_at))[1] AS report_id,
+            (array_agg(p.reported_video_id))[1] AS reported_video_id,
+            (array_agg(p.reported_user_id ORDER BY p.created_at DESC) FILTER (WHERE p.reported_user_id IS NOT NULL))[1] AS reported_user_id,
+            COUNT(DISTINCT p.reporter_id) AS report_count,
+            array_agg(DISTINCT p.reason) AS reasons,
+            COALESCE(array_agg(p.details ORDER BY p.created_at) FILTER (WHERE p.details IS NOT NULL), '{}') AS details,
+            MIN(p.created_at) AS first_reported_at,
+            MAX(p.created_at) AS last_reported_at
+        FROM pending p
+        GROUP BY p.target_key
+    )
+    SELECT
+        g.report_id,
+        g.reported_video_id,
+        COALESCE(v.user_id, g.reported_user_id) AS reported_user_id,
+        g.report_count,
+        g.reasons,
+        g.details,
+        g.first_reported_at,
+        g.last_reported_at,
+        v.title,
+        v.video_url,
+        v.thumbnail_url,
+        v.status,
+        p.username,
+        p.avatar_url,
+        p.suspended_until,
+        p.warnings_count
+    FROM grouped g
+    LEFT JOIN public.videos v ON v.id = g.reported_video_id
+    LEFT JOIN public.profiles p ON p.id = COALESCE(v.user_id, g.reported_user_id)
+    ORDER BY g.report_count DESC, g.first_reported_at ASC
+    LIMIT LEAST(GREATEST(COALESCE(queue_limit, 50), 1), 100);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_moderation_queue(INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.get_moderation_queue(INTEGER) IS
+'Moderator-only: pending reports grouped by reported video (or user), most reported first.';
+
+-- ============================================================================
+-- Resolution
+-- ============================================================================
+
+-- Acts on a report and closes every pending report for the same target.
+--   hide_video   -> video status 'deleted' (hidden everywhere, kept for appeal)
+--   warn_user    -> +1 warning and a 'moderation' notification
+--   suspend_user -> suspended_until = NOW() + suspend_days (default 7)
+--   reject       -> no action
+-- Every call writes one moderation_actions row.
+CREATE OR REPLACE FUNCTION public.resolve_report(
+    target_report_id UUID,
+    resolution TEXT,
+    note TEXT DEFAULT NULL,
+    suspend_days INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    moderator UUID := auth.uid();
+    report_record public.reports%ROWTYPE;
+    target_user UUID;
+    new_status TEXT;
+    closed_count INTEGER;
+    action_details JSONB := '{}'::jsonb;
+    suspension_end TIMESTAMPTZ;
+    action_id UUID;
+BEGIN
+    IF moderator IS NULL OR NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    IF resolve_report.resolution NOT IN ('hide_video', 'warn_user', 'suspend_user', 'reject') THEN
+        RAISE EXCEPTION 'Unknown resolution: %', resolve_report.resolution;
+    END IF;
+
+    IF resolve_report.note IS NOT NULL AND char_length(resolve_report.note) > 1000 THEN
+        RAISE EXCEPTION 'Note is too long';
+    END IF;
+
+    SELECT * INTO report_record
+    FROM public.reports
+    WHERE id = target_report_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found';
+    END IF;
+
+    IF report_record.status <> 'pending' THEN
+        RAISE EXCEPTION 'Report has already been handled';
+    END IF;
+
+    -- The video's owner is authoritative; reported_user_id may be missing
+    IF report_record.reported_video_id IS NOT NULL THEN
+        SELECT user_id INTO target_user
+        FROM public.videos
+        WHERE id = report_record.reported_video_id;
+    END IF;
+    target_user := COALESCE(target_user, report_record.reported_user_id);
+
+    IF resolve_report.resolution = 'hide_video' THEN
+        IF report_record.reported_video_id IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a video';
+        END IF;
+
+        UPDATE public.videos
+        SET status = 'deleted'
+        WHERE id = report_record.reported_video_id;
+
+        new_status := 'resolved';
+    ELSIF resolve_report.resolution = 'warn_user' THEN
+        IF target_user IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a user';
+        END IF;
+
+        UPDATE public.profiles
+        SET warnings_count = warnings_count + 1
+        WHERE id = target_user;
+
+        INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+        VALUES (
+            target_user,
+            NULL,
+            'moderation',
+            report_record.reported_video_id,
+            'Community Guidelines warning',
+            'Your content was reported and reviewed by our moderators. Repeated violations can lead to suspension.'
+        );
+
+        new_status := 'reviewed';
+    ELSIF resolve_report.resolution = 'suspend_user' THEN
+        IF target_user IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a user';
+        END IF;
+
+        IF resolve_report.suspend_days IS NOT NULL AND resolve_report.suspend_days NOT BETWEEN 1 AND 365 THEN
+            RAISE EXCEPTION 'suspend_days must be between 1 and 365';
+        END IF;
+
+        suspension_end := NOW() + make_interval(days => COALESCE(resolve_report.suspend_days, 7));
+
+        -- Never shorten a longer suspension that is already running
+        UPDATE public.profiles
+        SET suspended_until = GREATEST(COALESCE(suspended_until, suspension_end), suspension_end)
+        WHERE id = target_user
+        RETURNING suspended_until INTO suspension_end;
+
+        action_details := jsonb_build_object('suspended_until', suspension_end);
+        new_status := 'resolved';
+    ELSE
+        new_status := 'rejected';
+    END IF;
+
+    UPDATE public.reports r
+    SET status = new_status,
+        resolution = resolve_report.resolution,
+        moderator_note = resolve_report.note,
+        resolved_by = moderator,
+        resolved_at = NOW()
+    WHERE r.status = 'pending'
+      AND (
+          r.id = report_record.id
+          OR (report_record.reported_video_id IS NOT NULL
+              AND r.reported_video_id = report_record.reported_video_id)
+          OR (report_record.reported_video_id IS NULL
+              AND r.reported_video_id IS NULL
+              AND r.reported_user_id = report_record.reported_user_id)
+      );
+
+    GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+    INSERT INTO public.moderation_actions (
+        moderator_id, action, report_id, target_video_id, target_user_id,
+        reports_closed, note, details
+    )
+    VALUES (
+        moderator, resolve_report.resolution, report_record.id, report_record.reported_video_id,
+        target_user, closed_count, resolve_report.note, action_details
+    )
+    RETURNING id INTO action_id;
+
+    RETURN action_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_report(UUID, TEXT, TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.resolve_report(UUID, TEXT, TEXT, INTEGER) IS
+'Moderator-only: hide the video, warn or suspend the user, or reject a report; closes all pending reports on the same target and logs to moderation_actions.';
@@ -0,0 +1,8 @@
+-- ============================================================================
+-- Under Review Video Status
+-- ============================================================================
+-- Heavily reported videos are parked in 'under_review' until a moderator
+-- decides. The value is added on its own because a new enum value cannot be
+-- used in the same transaction that creates it; 00033 puts it to work.
+
+ALTER TYPE video_status ADD VALUE IF NOT EXISTS 'under_review' AFTER 'ready';
@@ -0,0 +1,419 @@
+-- ============================================================================
+-- Automatic Review for Heavily Reported Videos
+-- ============================================================================
+-- Once enough distinct users report a video within a time window, the video
+-- is flipped to 'under_review': it disappears from feed_videos for everyone
+-- but its owner (who is not told) and is pinned to the top of the moderation
+-- queue. A moderator's decision restores it or removes it for good.
+--
+-- Tunable per database, e.g.
+--   ALTER DATABASE postgres SET app.report_review_threshold = '3';
+--   ALTER DATABASE postgres SET app.report_review_window_hours = '48';
+
+CREATE OR REPLACE FUNCTION public.report_review_threshold()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT LEAST(
+        1000,
+        GREATEST(2, COALESCE(NULLIF(current_setting('app.report_review_threshold', true), '')::INTEGER, 5))
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_review_window()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT make_interval(hours => LEAST(
+        720,
+        GREATEST(1, COALESCE(NULLIF(current_setting('app.report_review_window_hours', true), '')::INTEGER, 24))
+    ));
+$$;
+
+COMMENT ON FUNCTION public.report_review_threshold() IS 'Distinct reporters within report_review_window() that put a video under review (app.report_review_threshold, default 5)';
+COMMENT ON FUNCTION public.report_review_window() IS 'Window for counting reporters (app.report_review_window_hours, default 24)';
+
+-- System-initiated entries have no moderator
+ALTER TABLE public.moderation_actions
+    DROP CONSTRAINT IF EXISTS moderation_actions_action_check;
+ALTER TABLE public.moderation_actions
+    ADD CONSTRAINT moderation_actions_action_check
+    CHECK (action IN ('hide_video', 'warn_user', 'suspend_user', 'reject', 'auto_review'));
+
+-- Threshold lookups scan one video's recent reports
+CREATE INDEX IF NOT EXISTS idx_reports_video_created
+    ON public.reports(reported_video_id, created_at)
+    WHERE reported_video_id IS NOT NULL;
+
+-- ============================================================================
+-- Threshold trigger
+-- ============================================================================
+
+-- Only pending reports count, so reports a moderator already rejected don't
+-- immediately re-hide a video they cleared. The owner's own reports are ignored.
+CREATE OR REPLACE FUNCTION public.flag_heavily_reported_video()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    target_owner_id UUID;
+    target_status video_status;
+    reporter_count INTEGER;
+BEGIN
+    IF NEW.reported_video_id IS NULL OR NEW.status <> 'pending' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the video so concurrent reports don't both log the flip
+    SELECT user_id, status INTO target_owner_id, target_status
+    FROM public.videos
+    WHERE id = NEW.reported_video_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR target_status <> 'ready' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COUNT(DISTINCT r.reporter_id) INTO reporter_count
+    FROM public.reports r
+    WHERE r.reported_video_id = NEW.reported_video_id
+      AND r.status = 'pending'
+      AND r.reporter_id <> target_owner_id
+      AND r.created_at >= NOW() - public.report_review_window();
+
+    IF reporter_count < public.report_review_threshold() THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.videos
+    SET status = 'under_review'
+    WHERE id = NEW.reported_video_id;
+
+    INSERT INTO public.moderation_actions (
+        moderator_id, action, report_id, target_video_id, target_user_id, details
+    )
+    VALUES (
+        NULL, 'auto_review', NEW.id, NEW.reported_video_id, target_owner_id,
+        jsonb_build_object(
+            'reporters', reporter_count,
+            'threshold', public.report_review_threshold(),
+            'window_hours', EXTRACT(EPOCH FROM public.report_review_window()) / 3600
+        )
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS flag_heavily_reported_video_trigger ON public.reports;
+CREATE TRIGGER flag_heavily_reported_video_trigger
+    AFTER INSERT ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.flag_heavily_reported_video();
+
+-- ============================================================================
+-- Owners cannot lift a review themselves
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_removed_video()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND OLD.status IN ('deleted', 'under_review')
+       AND NEW.status IS DISTINCT FROM OLD.status THEN
+        RAISE EXCEPTION 'Removed videos cannot be restored';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Feed view: under_review videos stay visible to their owner only
+-- ============================================================================
+
+-- Same as 00028 apart from the status filter; the block filter must stay in place.
+DROP VIEW IF EXISTS feed_videos;
+
+CREATE VIEW feed_videos AS
+SELECT
+    v.id,
+    v.user_id,
+    v.parent_video_id,
+    v.root_video_id,
+    v.chain_depth,
+    v.agree_disagree,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration_seconds,
+    v.views_count,
+    v.likes_count,
+    v.responses_count,
+    v.comments_count,
+    v.vote_agree_count,
+    v.vote_disagree_count,
+    v.rating,
+    v.movie_title,
+    v.tmdb_id,
+    v.tmdb_media_type,
+    v.tmdb_poster_path,
+    v.created_at,
+    v.published_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+FROM videos v
+JOIN profiles p ON v.user_id = p.id
+WHERE (
+      v.status = 'ready'::video_status
+      OR (v.status = 'under_review'::video_status AND auth.uid() = v.user_id)
+  )
+  AND v.visibility = 'public'::video_visibility
+  AND (
+      auth.uid() IS NULL
+      OR auth.uid() = v.user_id
+      OR NOT public.users_are_blocked(auth.uid(), v.user_id)
+  );
+
+-- ============================================================================
+-- Queue: videos under review first
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_moderation_queue(queue_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    report_id UUID,
+    reported_video_id UUID,
+    reported_user_id UUID,
+    report_count BIGINT,
+    reasons TEXT[],
+    details TEXT[],
+    first_reported_at TIMESTAMPTZ,
+    last_reported_at TIMESTAMPTZ,
+    video_title TEXT,
+    video_url TEXT,
+    thumbnail_url TEXT,
+    video_status video_status,
+    username TEXT,
+    avatar_url TEXT,
+    suspended_until TIMESTAMPTZ,
+    warnings_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    RETURN QUERY
+    WITH pending AS (
+        SELECT
+            r.*,
+            COALESCE(r.reported_video_id::text, 'user:' || r.reported_user_id::text) AS target_key
+        FROM public.reports r
+        WHERE r.status = 'pending'
+    ),
+    grouped AS (
+        SELECT
+            (array_agg(p.id ORDER BY p.created_at))[1] AS report_id,
+            (array_agg(p.reported_video_id))[1] AS reported_video_id,
+            (array_agg(p.reported_user_id ORDER BY p.created_at DESC) FILTER (WHERE p.reported_user_id IS NOT NULL))[1] AS reported_user_id,
+            COUNT(DISTINCT p.reporter_id) AS report_count,
+            array_agg(DISTINCT p.reason) AS reasons,
+            COALESCE(array_agg(p.details ORDER BY p.created_at) FILTER (WHERE p.details IS NOT NULL), '{}') AS details,
+            MIN(p.created_at) AS first_reported_at,
+            MAX(p.created_at) AS last_reported_at
+        FROM pending p
+        GROUP BY p.target_key
+    )
+    SELECT
+        g.report_id,
+        g.reported_video_id,
+        COALESCE(v.user_id, g.reported_user_id) AS reported_user_id,
+        g.report_count,
+        g.reasons,
+        g.details,
+        g.first_reported_at,
+        g.last_reported_at,
+        v.title,
+        v.video_url,
+        v.thumbnail_url,
+        v.status,
+        p.username,
+        p.avatar_url,
+        p.suspended_until,
+        p.warnings_count
+    FROM grouped g
+    LEFT JOIN public.videos v ON v.id = g.reported_video_id
+    LEFT JOIN public.profiles p ON p.id = COALESCE(v.user_id, g.reported_user_id)
+    ORDER BY (v.status = 'under_review') IS TRUE DESC, g.report_count DESC, g.first_reported_at ASC
+    LIMIT LEAST(GREATEST(COALESCE(queue_limit, 50), 1), 100);
+END;
+$$;
+
+-- ============================================================================
+-- Resolution: anything short of hiding puts a reviewed video back up
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.resolve_report(
+    target_report_id UUID,
+    resolution TEXT,
+    note TEXT DEFAULT NULL,
+    suspend_days INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    moderator UUID := auth.uid();
+    report_record public.reports%ROWTYPE;
+    target_user UUID;
+    new_status TEXT;
+    closed_count INTEGER;
+    action_details JSONB := '{}'::jsonb;
+    suspension_end TIMESTAMPTZ;
+    action_id UUID;
+BEGIN
+    IF moderator IS NULL OR NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    IF resolve_report.resolution NOT IN ('hide_video', 'warn_user', 'suspend_user', 'reject') THEN
+        RAISE EXCEPTION 'Unknown resolution: %', resolve_report.resolution;
+    END IF;
+
+    IF resolve_report.note IS NOT NULL AND char_length(resolve_report.note) > 1000 THEN
+        RAISE EXCEPTION 'Note is too long';
+    END IF;
+
+    SELECT * INTO report_record
+    FROM public.reports
+    WHERE id = target_report_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Report not found';
+    END IF;
+
+    IF report_record.status <> 'pending' THEN
+        RAISE EXCEPTION 'Report has already been handled';
+    END IF;
+
+    -- The video's owner is authoritative; reported_user_id may be missing
+    IF report_record.reported_video_id IS NOT NULL THEN
+        SELECT user_id INTO target_user
+        FROM public.videos
+        WHERE id = report_record.reported_video_id;
+    END IF;
+    target_user := COALESCE(target_user, report_record.reported_user_id);
+
+    IF resolve_report.resolution = 'hide_video' THEN
+        IF report_record.reported_video_id IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a video';
+        END IF;
+
+        UPDATE public.videos
+        SET status = 'deleted'
+        WHERE id = report_record.reported_video_id;
+
+        new_status := 'resolved';
+    ELSIF resolve_report.resolution = 'warn_user' THEN
+        IF target_user IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a user';
+        END IF;
+
+        UPDATE public.profiles
+        SET warnings_count = warnings_count + 1
+        WHERE id = target_user;
+
+        INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+        VALUES (
+            target_user,
+            NULL,
+            'moderation',
+            report_record.reported_video_id,
+            'Community Guidelines warning',
+            'Your content was reported and reviewed by our moderators. Repeated violations can lead to suspension.'
+        );
+
+        new_status := 'reviewed';
+    ELSIF resolve_report.resolution = 'suspend_user' THEN
+        IF target_user IS NULL THEN
+            RAISE EXCEPTION 'Report does not target a user';
+        END IF;
+
+        IF resolve_report.suspend_days IS NOT NULL AND resolve_report.suspend_days NOT BETWEEN 1 AND 365 THEN
+            RAISE EXCEPTION 'suspend_days must be between 1 and 365';
+        END IF;
+
+        suspension_end := NOW() + make_interval(days => COALESCE(resolve_report.suspend_days, 7));
+
+        -- Never shorten a longer suspension that is already running
+        UPDATE public.profiles
+        SET suspended_until = GREATEST(COALESCE(suspended_until, suspension_end), suspension_end)
+        WHERE id = target_user
+        RETURNING suspended_until INTO suspension_end;
+
+        action_details := jsonb_build_object('suspended_until', suspension_end);
+        new_status := 'resolved';
+    ELSE
+        new_status := 'rejected';
+    END IF;
+
+    IF resolve_report.resolution <> 'hide_video' AND report_record.reported_video_id IS NOT NULL THEN
+        UPDATE public.videos
+        SET status = 'ready'
+        WHERE id = report_record.reported_video_id
+          AND status = 'under_review';
+
+        IF FOUND THEN
+            action_details := action_details || jsonb_build_object('restored', true);
+        END IF;
+    END IF;
+
+    UPDATE public.reports r
+    SET status = new_status,
+        resolution = resolve_report.resolution,
+        moderator_note = resolve_report.note,
+        resolved_by = moderator,
+        resolved_at = NOW()
+    WHERE r.status = 'pending'
+      AND (
+          r.id = report_record.id
+          OR (report_record.reported_video_id IS NOT NULL
+              AND r.reported_video_id = report_record.reported_video_id)
+          OR (report_record.reported_video_id IS NULL
+              AND r.reported_video_id IS NULL
+              AND r.reported_user_id = report_record.reported_user_id)
+      );
+
+    GET DIAGNOSTICS closed_count = ROW_COUNT;
+
+    INSERT INTO public.moderation_actions (
+        moderator_id, action, report_id, target_video_id, target_user_id,
+        reports_closed, note, details
+    )
+    VALUES (
+        moderator, resolve_report.resolution, report_record.id, report_record.reported_video_id,
+        target_user, closed_count, resolve_report.note, action_details
+    )
+    RETURNING id INTO action_id;
+
+    RETURN action_id;
+END;
+$$;
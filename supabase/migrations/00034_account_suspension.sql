@@ -0,0 +1,242 @@
+-- ============================================================================
+-- Account Suspension and Bans
+-- ============================================================================
+-- suspended_until (added with the moderation queue in 00031) blocks a user
+-- from posting, commenting, following, voting, reporting and bookmarking
+-- until it passes. banned_at does the same permanently and also removes the
+-- user's videos from feed_videos. Both are set by moderators / the service
+-- role only.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS banned_at TIMESTAMPTZ;
+
+-- True while the user may not create content. SECURITY DEFINER so the check
+-- still sees the profile when the caller could not (e.g. blocked pairs).
+CREATE OR REPLACE FUNCTION public.is_account_restricted(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE id = target_user_id
+          AND (banned_at IS NOT NULL OR suspended_until > NOW())
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_account_restricted(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.is_account_restricted(UUID) IS 'True when the user is banned or currently suspended';
+
+-- Standing columns stay out of reach of the self-update profile policy
+CREATE OR REPLACE FUNCTION public.guard_profile_standing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated')
+       AND (NEW.suspended_until IS DISTINCT FROM OLD.suspended_until
+            OR NEW.banned_at IS DISTINCT FROM OLD.banned_at
+            OR NEW.warnings_count IS DISTINCT FROM OLD.warnings_count) THEN
+        RAISE EXCEPTION 'Account standing can only be changed by moderators';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Write policies (00002 / 00018 / 00020 / 00025) with the standing check
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Authenticated users can create videos" ON public.videos;
+CREATE POLICY "Active users can create videos"
+    ON public.videos
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Authenticated users can follow others" ON public.follows;
+CREATE POLICY "Active users can follow others"
+    ON public.follows
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = follower_id
+        AND auth.uid() != following_id  -- Can't follow yourself
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can insert own votes on accessible videos" ON public.video_votes;
+CREATE POLICY "Active users can insert own votes on accessible videos"
+    ON public.video_votes
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+-- Flipping an existing vote is voting too
+DROP POLICY IF EXISTS "Users can update own votes on accessible videos" ON public.video_votes;
+CREATE POLICY "Active users can update own votes on accessible videos"
+    ON public.video_votes
+    FOR UPDATE
+    USING (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+    )
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can create own reports" ON public.reports;
+CREATE POLICY "Active users can create own reports"
+    ON public.reports
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = reporter_id
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can bookmark accessible videos" ON public.bookmarks;
+CREATE POLICY "Active users can bookmark accessible videos"
+    ON public.bookmarks
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Users can comment on accessible videos" ON public.comments;
+CREATE POLICY "Active users can comment on accessible videos"
+    ON public.comments
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        auth.uid() = user_id
+        AND public.can_access_video(video_id, auth.uid())
+        AND NOT public.is_account_restricted(auth.uid())
+    );
+
+-- toggle_follow is SECURITY DEFINER and skips the policy above
+CREATE OR REPLACE FUNCTION public.validate_follow_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' AND public.is_account_restricted(NEW.follower_id) THEN
+        RAISE EXCEPTION 'Account is suspended';
+    END IF;
+
+    IF public.users_are_blocked(NEW.follower_id, NEW.following_id) THEN
+        RAISE EXCEPTION 'Cannot follow a blocked user';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Feed view: banned users' videos drop out
+-- ============================================================================
+
+-- Same as 00033 plus the ban filter; the block filter must stay in place.
+DROP VIEW IF EXISTS feed_videos;
+
+CREATE VIEW feed_videos AS
+SELECT
+    v.id,
+    v.user_id,
+    v.parent_video_id,
+    v.root_video_id,
+    v.chain_depth,
+    v.agree_disagree,
+    v.title,
+    v.description,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration_seconds,
+    v.views_count,
+    v.likes_count,
+    v.responses_count,
+    v.comments_count,
+    v.vote_agree_count,
+    v.vote_disagree_count,
+    v.rating,
+    v.movie_title,
+    v.tmdb_id,
+    v.tmdb_media_type,
+    v.tmdb_poster_path,
+    v.created_at,
+    v.published_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+FROM videos v
+JOIN profiles p ON v.user_id = p.id
+WHERE (
+      v.status = 'ready'::video_status
+      OR (v.status = 'under_review'::video_status AND auth.uid() = v.user_id)
+  )
+  AND v.visibility = 'public'::video_visibility
+  AND p.banned_at IS NULL
+  AND (
+      auth.uid() IS NULL
+      OR auth.uid() = v.user_id
+      OR NOT public.users_are_blocked(auth.uid(), v.user_id)
+  );
+
+-- ============================================================================
+-- Own standing, for the app's suspended/banned screen
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_account_standing()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    standing JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'suspended_until', CASE WHEN p.suspended_until > NOW() THEN p.suspended_until END,
+        'banned_at', p.banned_at,
+        'warnings_count', p.warnings_count
+    )
+    INTO standing
+    FROM public.profiles p
+    WHERE p.id = auth.uid();
+
+    RETURN COALESCE(standing, jsonb_build_object(
+        'suspended_until', NULL,
+        'banned_at', NULL,
+        'warnings_count', 0
+    ));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_account_standing() TO authenticated;
+
+COMMENT ON FUNCTION public.get_account_standing() IS 'Caller''s active suspension end, ban time and warning count';
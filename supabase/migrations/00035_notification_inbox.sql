@@ -0,0 +1,230 @@
+-- ============================================================================
+-- Notification Inbox
+-- ============================================================================
+-- Grouped, paginated inbox reads and read-state RPCs. profiles.badge_count is
+-- kept equal to the number of unread notifications: the push function adds
+-- one per delivered push and the mark-read RPCs set it back to what is left.
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_created
+    ON public.notifications(recipient_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread
+    ON public.notifications(recipient_id)
+    WHERE read_at IS NULL;
+
+-- Inbox rows stream to the app over Realtime (RLS limits each user to their own)
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime'
+             AND schemaname = 'public'
+             AND tablename = 'notifications'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+    END IF;
+END;
+$$;
+
+-- ============================================================================
+-- Grouped inbox
+-- ============================================================================
+
+-- One row per (kind, target video, stance, UTC day), newest group first.
+-- Responses are grouped on the video they respond to, so a day's rebuttals
+-- collapse into "5 people disagreed with your take"; everything else is one
+-- group per notification target. Pass the last group's latest_at and
+-- group_key as before_at and before_key to fetch the next page; groups that
+-- share a latest_at are ordered by group_key so none is skipped.
+CREATE OR REPLACE FUNCTION public.get_notification_groups(
+    page_size INTEGER DEFAULT 20,
+    before_at TIMESTAMPTZ DEFAULT NULL,
+    before_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    group_key TEXT,
+    type TEXT,
+    video_id UUID,
+    agree_disagree BOOLEAN,
+    notification_ids UUID[],
+    actor_count BIGINT,
+    actors JSONB,
+    title TEXT,
+    body TEXT,
+    latest_at TIMESTAMPTZ,
+    unread_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    WITH keyed AS (
+        SELECT
+            n.*,
+            CASE WHEN n.type = 'response' THEN COALESCE(v.parent_video_id, n.video_id) ELSE n.video_id END AS target_video_id,
+            CASE WHEN n.type = 'response' THEN v.agree_disagree END AS stance,
+            (n.created_at AT TIME ZONE 'UTC')::date AS day
+        FROM public.notifications n
+        LEFT JOIN public.videos v ON v.id = n.video_id
+        WHERE n.recipient_id = viewer_id
+    ),
+    grouped AS (
+        SELECT
+            CASE
+                WHEN k.type = 'response' THEN
+                    concat_ws(':', k.type, k.target_video_id::text, k.stance::text, k.day::text)
+                ELSE
+                    concat_ws(':', k.type, COALESCE(k.target_video_id::text, k.id::text), k.day::text)
+            END AS group_key,
+            k.type,
+            k.target_video_id,
+            k.stance,
+            k.sender_id,
+            k.id,
+            k.title,
+            k.body,
+            k.created_at,
+            k.read_at
+        FROM keyed k
+    ),
+    groups AS (
+        SELECT
+            g.group_key,
+            MIN(g.type) AS type,
+            (array_agg(g.target_video_id))[1] AS video_id,
+            (array_agg(g.stance))[1] AS agree_disagree,
+            array_agg(g.id ORDER BY g.created_at DESC) AS notification_ids,
+            COUNT(DISTINCT g.sender_id) AS actor_count,
+            (array_agg(g.sender_id ORDER BY g.created_at DESC) FILTER (WHERE g.sender_id IS NOT NULL)) AS sender_ids,
+            (array_agg(g.title ORDER BY g.created_at DESC))[1] AS title,
+            (array_agg(g.body ORDER BY g.created_at DESC))[1] AS body,
+            MAX(g.created_at) AS latest_at,
+            COUNT(*) FILTER (WHERE g.read_at IS NULL) AS unread_count
+        FROM grouped g
+        GROUP BY g.group_key
+    )
+    SELECT
+        gr.group_key,
+        gr.type,
+        gr.video_id,
+        gr.agree_disagree,
+        gr.notification_ids,
+        gr.actor_count,
+        -- Up to three most recent distinct senders for the avatar stack
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', p.id,
+                'username', p.username,
+                'avatar_url', p.avatar_url
+            ) ORDER BY s.position)
+            FROM (
+                SELECT sid, MIN(ord) AS position
+                FROM unnest(gr.sender_ids) WITH ORDINALITY AS u(sid, ord)
+                GROUP BY sid
+                ORDER BY MIN(ord)
+                LIMIT 3
+            ) s
+            JOIN public.profiles p ON p.id = s.sid
+        ), '[]'::jsonb) AS actors,
+        gr.title,
+        gr.body,
+        gr.latest_at,
+        gr.unread_count
+    FROM groups gr
+    WHERE before_at IS NULL
+       OR gr.latest_at < before_at
+       OR (gr.latest_at = before_at AND gr.group_key < before_key)
+    ORDER BY gr.latest_at DESC, gr.group_key DESC
+    LIMIT LEAST(GREATEST(COALESCE(page_size, 20), 1), 50);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_notification_groups(INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_notification_groups(INTEGER, TIMESTAMPTZ, TEXT) IS
+'Caller''s notifications grouped by kind, target video, stance and day, newest first.';
+
+-- ============================================================================
+-- Read state
+-- ============================================================================
+
+-- Marks the given notifications read and returns how many remain unread,
+-- which also becomes the new badge_count.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(notification_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+    remaining INTEGER;
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF notification_ids IS NULL OR cardinality(notification_ids) > 500 THEN
+        RAISE EXCEPTION 'notification_ids must hold at most 500 ids';
+    END IF;
+
+    UPDATE public.notifications
+    SET read_at = NOW()
+    WHERE recipient_id = viewer_id
+      AND id = ANY(notification_ids)
+      AND read_at IS NULL;
+
+    SELECT COUNT(*) INTO remaining
+    FROM public.notifications
+    WHERE recipient_id = viewer_id
+      AND read_at IS NULL;
+
+    UPDATE public.profiles
+    SET badge_count = remaining
+    WHERE id = viewer_id;
+
+    RETURN remaining;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_all_notifications_read()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.notifications
+    SET read_at = NOW()
+    WHERE recipient_id = viewer_id
+      AND read_at IS NULL;
+
+    UPDATE public.profiles
+    SET badge_count = 0
+    WHERE id = viewer_id;
+
+    RETURN 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_all_notifications_read() TO authenticated;
+
+COMMENT ON FUNCTION public.mark_notifications_read(UUID[]) IS 'Marks the caller''s notifications read and resets badge_count to the remaining unread count';
+COMMENT ON FUNCTION public.mark_all_notifications_read() IS 'Marks all of the caller''s notifications read and clears badge_count';
@@ -0,0 +1,273 @@
+-- ============================================================================
+-- Notification Preferences
+-- ============================================================================
+-- Per-type switches, per-creator mutes and quiet hours. profiles.push_enabled
+-- stays the master switch for push delivery. Type switches and mutes decide
+-- whether queue_video_notifications creates a notification at all; quiet
+-- hours only hold back the push, so the notification still lands in Activity.
+-- A user without a preferences row gets everything, with no quiet hours.
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    new_review BOOLEAN NOT NULL DEFAULT TRUE,
+    response_agree BOOLEAN NOT NULL DEFAULT TRUE,
+    response_disagree BOOLEAN NOT NULL DEFAULT TRUE,
+    new_follower BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Local wall-clock window; may wrap past midnight (22:00 -> 08:00)
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT notification_preferences_quiet_hours_pair CHECK (
+        (quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)
+    ),
+    CONSTRAINT notification_preferences_quiet_hours_nonempty CHECK (
+        quiet_hours_start IS DISTINCT FROM quiet_hours_end
+        OR quiet_hours_start IS NULL
+    )
+);
+
+-- Creators whose activity the user doesn't want to hear about
+CREATE TABLE IF NOT EXISTS public.notification_mutes (
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    muted_user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, muted_user_id),
+    CONSTRAINT notification_mutes_not_self CHECK (user_id <> muted_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_mutes_user_created
+    ON public.notification_mutes(user_id, created_at DESC);
+
+-- Reject time zone names Postgres can't resolve, so quiet hours never fail
+-- at send time
+CREATE OR REPLACE FUNCTION public.validate_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+        RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_notification_preferences ON public.notification_preferences;
+CREATE TRIGGER validate_notification_preferences
+    BEFORE INSERT OR UPDATE OF time_zone ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_notification_preferences();
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON public.notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON public.notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+    ON public.notification_preferences
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own notification preferences"
+    ON public.notification_preferences
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+    ON public.notification_preferences
+    FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification mutes"
+    ON public.notification_mutes
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mute others"
+    ON public.notification_mutes
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unmute others"
+    ON public.notification_mutes
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.notification_preferences IS 'Per-user notification type switches and quiet hours';
+COMMENT ON TABLE public.notification_mutes IS 'Creators a user has muted notifications from';
+
+-- ============================================================================
+-- Checks used by the notification trigger and the push function
+-- ============================================================================
+
+-- kind: new_review, response_agree, response_disagree or new_follower.
+-- Unknown kinds are allowed so new notification types work before they get
+-- their own switch.
+CREATE OR REPLACE FUNCTION public.notification_allowed(
+    recipient_id UUID,
+    sender_id UUID,
+    kind TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT NOT EXISTS (
+               SELECT 1
+               FROM public.notification_mutes m
+               WHERE m.user_id = notification_allowed.recipient_id
+                 AND m.muted_user_id = notification_allowed.sender_id
+           )
+       AND COALESCE((
+               SELECT CASE notification_allowed.kind
+                          WHEN 'new_review' THEN np.new_review
+                          WHEN 'response_agree' THEN np.response_agree
+                          WHEN 'response_disagree' THEN np.response_disagree
+                          WHEN 'new_follower' THEN np.new_follower
+                          ELSE TRUE
+                      END
+               FROM public.notification_preferences np
+               WHERE np.user_id = notification_allowed.recipient_id
+           ), TRUE);
+$$;
+
+-- True while the user's local time is inside their quiet hours window
+CREATE OR REPLACE FUNCTION public.is_in_quiet_hours(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT COALESCE((
+        SELECT CASE
+                   WHEN np.quiet_hours_start < np.quiet_hours_end THEN
+                       local_time >= np.quiet_hours_start AND local_time < np.quiet_hours_end
+                   ELSE
+                       local_time >= np.quiet_hours_start OR local_time < np.quiet_hours_end
+               END
+        FROM public.notification_preferences np
+        CROSS JOIN LATERAL (
+            SELECT (NOW() AT TIME ZONE np.time_zone)::time AS local_time
+        ) l
+        WHERE np.user_id = target_user_id
+          AND np.quiet_hours_start IS NOT NULL
+    ), FALSE);
+$$;
+
+-- When the user's current quiet hours end, or NULL outside quiet hours
+CREATE OR REPLACE FUNCTION public.quiet_hours_end_at(target_user_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT (
+               l.local_now::date
+               + CASE WHEN np.quiet_hours_end > l.local_now::time THEN 0 ELSE 1 END
+               + np.quiet_hours_end
+           ) AT TIME ZONE np.time_zone
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+        SELECT NOW() AT TIME ZONE np.time_zone AS local_now
+    ) l
+    WHERE np.user_id = target_user_id
+      AND public.is_in_quiet_hours(target_user_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_allowed(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_in_quiet_hours(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.quiet_hours_end_at(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_in_quiet_hours(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.quiet_hours_end_at(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.notification_allowed(UUID, UUID, TEXT) IS 'False when the recipient muted the sender or switched this kind off';
+COMMENT ON FUNCTION public.is_in_quiet_hours(UUID) IS 'True inside the user''s quiet hours, in their own time zone';
+COMMENT ON FUNCTION public.quiet_hours_end_at(UUID) IS 'When the user''s current quiet hours end, in their own time zone; NULL outside them';
+
+-- ============================================================================
+-- Held pushes
+-- ============================================================================
+
+-- Set by the push function when a notification arrives in the recipient's
+-- quiet hours; its scheduled run sends the push once this has passed
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS push_held_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_push_held
+    ON public.notifications(push_held_until)
+    WHERE push_held_until IS NOT NULL AND sent_at IS NULL;
+
+-- ============================================================================
+-- Notification trigger (00019) with preferences applied
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.queue_video_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+    follower_record RECORD;
+    video_owner_id UUID;
+    sender_username TEXT;
+BEGIN
+    IF NEW.visibility <> 'public' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT username INTO sender_username FROM profiles WHERE id = NEW.user_id;
+
+    IF NEW.parent_video_id IS NULL THEN
+        FOR follower_record IN
+            SELECT follower_id FROM follows WHERE following_id = NEW.user_id
+        LOOP
+            IF NOT public.users_are_blocked(NEW.user_id, follower_record.follower_id)
+               AND public.notification_allowed(follower_record.follower_id, NEW.user_id, 'new_review') THEN
+                INSERT INTO notifications (recipient_id, sender_id, type, video_id, title, body)
+                VALUES (
+                    follower_record.follower_id,
+                    NEW.user_id,
+                    'new_review',
+                    NEW.id,
+                    'New Review',
+                    sender_username || ' posted a new review: ' || NEW.title
+                );
+            END IF;
+        END LOOP;
+    ELSE
+        SELECT user_id INTO video_owner_id FROM videos WHERE id = NEW.parent_video_id;
+
+        IF video_owner_id IS NOT NULL
+           AND video_owner_id != NEW.user_id
+           AND NOT public.users_are_blocked(NEW.user_id, video_owner_id)
+           AND public.notification_allowed(
+               video_owner_id,
+               NEW.user_id,
+               CASE WHEN NEW.agree_disagree THEN 'response_agree' ELSE 'response_disagree' END
+           ) THEN
+            INSERT INTO notifications (recipient_id, sender_id, type, video_id, title, body)
+            VALUES (
+                video_owner_id,
+                NEW.user_id,
+                'response',
+                NEW.id,
+                CASE WHEN NEW.agree_disagree THEN 'Someone agreed!' ELSE 'Someone disagreed!' END,
+                sender_username || CASE WHEN NEW.agree_disagree THEN ' agreed with ' ELSE ' disagreed with ' END || 'your take'
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
@@ -0,0 +1,341 @@
+-- ============================================================================
+-- Follower and Milestone Notifications
+-- ============================================================================
+-- new_follower: sent to the followed user when someone follows them (at most
+-- once a day per follower, so follow/unfollow loops don't spam).
+-- agree_milestone: sent to a video's owner when its agree votes pass one of
+-- the milestone counts below.
+-- hot_take: sent when a vote makes a video the top hot take, i.e. the most
+-- polarizing recent root take (same polarity term as get_for_you_feed).
+-- A take only qualifies once the minority side has at least a quarter of
+-- its votes, so a lopsided take never wins for lack of competition.
+-- Each milestone is recorded in video_milestones so it is only sent once.
+--
+-- Tunable per database, e.g.
+--   ALTER DATABASE postgres SET app.hot_take_min_votes = '50';
+--   ALTER DATABASE postgres SET app.hot_take_window_days = '3';
+
+ALTER TABLE public.notifications
+    DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('new_review', 'response', 'moderation', 'new_follower', 'agree_milestone', 'hot_take'));
+
+-- Milestones a video has already been notified for ('agree_100', 'hot_take')
+CREATE TABLE IF NOT EXISTS public.video_milestones (
+    video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+    milestone TEXT NOT NULL,
+    reached_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (video_id, milestone)
+);
+
+-- Internal bookkeeping: no client policies
+ALTER TABLE public.video_milestones ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.video_milestones IS 'Milestone notifications already sent per video';
+
+CREATE OR REPLACE FUNCTION public.hot_take_min_votes()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT LEAST(
+        100000,
+        GREATEST(2, COALESCE(NULLIF(current_setting('app.hot_take_min_votes', true), '')::INTEGER, 20))
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.hot_take_window()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT make_interval(days => LEAST(
+        90,
+        GREATEST(1, COALESCE(NULLIF(current_setting('app.hot_take_window_days', true), '')::INTEGER, 7))
+    ));
+$$;
+
+COMMENT ON FUNCTION public.hot_take_min_votes() IS 'Votes a take needs before it can be the top hot take (app.hot_take_min_votes, default 20)';
+COMMENT ON FUNCTION public.hot_take_window() IS 'How recent a take must be to count as a hot take (app.hot_take_window_days, default 7)';
+
+-- Hot take lookups scan recent public root takes
+CREATE INDEX IF NOT EXISTS idx_videos_recent_public_roots
+    ON public.videos(created_at DESC)
+    WHERE parent_video_id IS NULL AND status = 'ready' AND visibility = 'public';
+
+-- ============================================================================
+-- New followers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.queue_follow_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    follower_username TEXT;
+BEGIN
+    IF public.users_are_blocked(NEW.follower_id, NEW.following_id)
+       OR NOT public.notification_allowed(NEW.following_id, NEW.follower_id, 'new_follower') THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.notifications
+        WHERE recipient_id = NEW.following_id
+          AND sender_id = NEW.follower_id
+          AND type = 'new_follower'
+          AND created_at > NOW() - INTERVAL '1 day'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT username INTO follower_username FROM public.profiles WHERE id = NEW.follower_id;
+
+    INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+    VALUES (
+        NEW.following_id,
+        NEW.follower_id,
+        'new_follower',
+        NULL,
+        'New Follower',
+        follower_username || ' started following you'
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_follow_queue_notification ON public.follows;
+CREATE TRIGGER on_follow_queue_notification
+    AFTER INSERT ON public.follows
+    FOR EACH ROW
+    EXECUTE FUNCTION public.queue_follow_notification();
+
+-- ============================================================================
+-- Agree milestones and top hot take
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.queue_video_milestone_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    reached_milestone INTEGER;
+    top_video_id UUID;
+BEGIN
+    IF NEW.status <> 'ready' OR NEW.visibility <> 'public' THEN
+        RETURN NEW;
+    END IF;
+
+    -- Highest milestone passed by this change; smaller ones it skipped over
+    -- are recorded without a notification of their own
+    IF NEW.vote_agree_count > OLD.vote_agree_count THEN
+        SELECT MAX(m) INTO reached_milestone
+        FROM unnest(ARRAY[10, 50, 100, 500, 1000, 5000, 10000]) AS m
+        WHERE m > OLD.vote_agree_count
+          AND m <= NEW.vote_agree_count
+          AND NOT EXISTS (
+              SELECT 1 FROM public.video_milestones vm
+              WHERE vm.video_id = NEW.id
+                AND vm.milestone = 'agree_' || m
+          );
+
+        IF reached_milestone IS NOT NULL THEN
+            INSERT INTO public.video_milestones (video_id, milestone)
+            SELECT NEW.id, 'agree_' || m
+            FROM unnest(ARRAY[10, 50, 100, 500, 1000, 5000, 10000]) AS m
+            WHERE m <= reached_milestone
+            ON CONFLICT DO NOTHING;
+
+            INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+            VALUES (
+                NEW.user_id,
+                NULL,
+                'agree_milestone',
+                NEW.id,
+                'Milestone reached!',
+                reached_milestone || ' people agree with your take: ' || NEW.title
+            );
+        END IF;
+    END IF;
+
+    -- Top hot take: only recent root takes with enough votes can qualify
+    IF NEW.parent_video_id IS NULL
+       AND NEW.vote_agree_count + NEW.vote_disagree_count >= public.hot_take_min_votes()
+       AND LEAST(NEW.vote_agree_count, NEW.vote_disagree_count) * 4
+           >= NEW.vote_agree_count + NEW.vote_disagree_count
+       AND NEW.created_at > NOW() - public.hot_take_window()
+       AND NOT EXISTS (
+           SELECT 1 FROM public.video_milestones vm
+           WHERE vm.video_id = NEW.id AND vm.milestone = 'hot_take'
+       ) THEN
+        SELECT v.id INTO top_video_id
+        FROM public.videos v
+        WHERE v.parent_video_id IS NULL
+          AND v.status = 'ready'
+          AND v.visibility = 'public'
+          AND v.created_at > NOW() - public.hot_take_window()
+          AND v.vote_agree_count + v.vote_disagree_count >= public.hot_take_min_votes()
+          AND LEAST(v.vote_agree_count, v.vote_disagree_count) * 4
+              >= v.vote_agree_count + v.vote_disagree_count
+        ORDER BY
+            (1 - abs(v.vote_agree_count - v.vote_disagree_count)::double precision
+                / (v.vote_agree_count + v.vote_disagree_count))
+            * ln(1 + v.vote_agree_count + v.vote_disagree_count) DESC,
+            v.created_at DESC
+        LIMIT 1;
+
+        IF top_video_id = NEW.id THEN
+            INSERT INTO public.video_milestones (video_id, milestone)
+            VALUES (NEW.id, 'hot_take')
+            ON CONFLICT DO NOTHING;
+
+            INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+            VALUES (
+                NEW.user_id,
+                NULL,
+                'hot_take',
+                NEW.id,
+                'You have the top hot take!',
+                'Your take is the most debated on LewReviews right now: ' || NEW.title
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_video_votes_queue_milestones ON public.videos;
+CREATE TRIGGER on_video_votes_queue_milestones
+    AFTER UPDATE OF vote_agree_count, vote_disagree_count ON public.videos
+    FOR EACH ROW
+    WHEN (NEW.vote_agree_count IS DISTINCT FROM OLD.vote_agree_count
+          OR NEW.vote_disagree_count IS DISTINCT FROM OLD.vote_disagree_count)
+    EXECUTE FUNCTION public.queue_video_milestone_notifications();
+
+-- ============================================================================
+-- Inbox grouping (00035): a day's new followers collapse into one row
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_notification_groups(
+    page_size INTEGER DEFAULT 20,
+    before_at TIMESTAMPTZ DEFAULT NULL,
+    before_key TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    group_key TEXT,
+    type TEXT,
+    video_id UUID,
+    agree_disagree BOOLEAN,
+    notification_ids UUID[],
+    actor_count BIGINT,
+    actors JSONB,
+    title TEXT,
+    body TEXT,
+    latest_at TIMESTAMPTZ,
+    unread_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_id UUID := auth.uid();
+BEGIN
+    IF viewer_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    WITH keyed AS (
+        SELECT
+            n.*,
+            CASE WHEN n.type = 'response' THEN COALESCE(v.parent_video_id, n.video_id) ELSE n.video_id END AS target_video_id,
+            CASE WHEN n.type = 'response' THEN v.agree_disagree END AS stance,
+            (n.created_at AT TIME ZONE 'UTC')::date AS day
+        FROM public.notifications n
+        LEFT JOIN public.videos v ON v.id = n.video_id
+        WHERE n.recipient_id = viewer_id
+    ),
+    grouped AS (
+        SELECT
+            CASE
+                WHEN k.type = 'response' THEN
+                    concat_ws(':', k.type, k.target_video_id::text, k.stance::text, k.day::text)
+                WHEN k.type = 'new_follower' THEN
+                    concat_ws(':', k.type, k.day::text)
+                ELSE
+                    concat_ws(':', k.type, COALESCE(k.target_video_id::text, k.id::text), k.day::text)
+            END AS group_key,
+            k.type,
+            k.target_video_id,
+            k.stance,
+            k.sender_id,
+            k.id,
+            k.title,
+            k.body,
+            k.created_at,
+            k.read_at
+        FROM keyed k
+    ),
+    groups AS (
+        SELECT
+            g.group_key,
+            MIN(g.type) AS type,
+            (array_agg(g.target_video_id))[1] AS video_id,
+            (array_agg(g.stance))[1] AS agree_disagree,
+            array_agg(g.id ORDER BY g.created_at DESC) AS notification_ids,
+            COUNT(DISTINCT g.sender_id) AS actor_count,
+            (array_agg(g.sender_id ORDER BY g.created_at DESC) FILTER (WHERE g.sender_id IS NOT NULL)) AS sender_ids,
+            (array_agg(g.title ORDER BY g.created_at DESC))[1] AS title,
+            (array_agg(g.body ORDER BY g.created_at DESC))[1] AS body,
+            MAX(g.created_at) AS latest_at,
+            COUNT(*) FILTER (WHERE g.read_at IS NULL) AS unread_count
+        FROM grouped g
+        GROUP BY g.group_key
+    )
+    SELECT
+        gr.group_key,
+        gr.type,
+        gr.video_id,
+        gr.agree_disagree,
+        gr.notification_ids,
+        gr.actor_count,
+        -- Up to three most recent distinct senders for the avatar stack
+        COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', p.id,
+                'username', p.username,
+                'avatar_url', p.avatar_url
+            ) ORDER BY s.position)
+            FROM (
+                SELECT sid, MIN(ord) AS position
+                FROM unnest(gr.sender_ids) WITH ORDINALITY AS u(sid, ord)
+                GROUP BY sid
+                ORDER BY MIN(ord)
+                LIMIT 3
+            ) s
+            JOIN public.profiles p ON p.id = s.sid
+        ), '[]'::jsonb) AS actors,
+        gr.title,
+        gr.body,
+        gr.latest_at,
+        gr.unread_count
+    FROM groups gr
+    WHERE before_at IS NULL
+       OR gr.latest_at < before_at
+       OR (gr.latest_at = before_at AND gr.group_key < before_key)
+    ORDER BY gr.latest_at DESC, gr.group_key DESC
+    LIMIT LEAST(GREATEST(COALESCE(page_size, 20), 1), 50);
+END;
+$$;
@@ -0,0 +1,343 @@
+-- ============================================================================
+-- Push Delivery Queue
+-- ============================================================================
+-- notifications doubles as the push outbox. The push function claims due
+-- rows in batches of up to 100, sends them to Expo in one request and records
+-- the ticket for each. push-receipts later fetches the receipts for those
+-- tickets. Failures are retried with exponential backoff, and tokens Expo
+-- reports as DeviceNotRegistered are cleared from the profile.
+--
+--   pending   -> waiting for (re)delivery at push_next_attempt_at, which
+--                quiet hours push back to the end of the recipient's window
+--   sent      -> Expo accepted it (ticket in push_ticket_id), receipt due
+--   delivered -> receipt came back ok
+--   skipped   -> never pushed (push off, no token, expired)
+--   failed    -> gave up; push_error says why
+
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS push_status TEXT NOT NULL DEFAULT 'pending',
+    ADD COLUMN IF NOT EXISTS push_ticket_id TEXT,
+    ADD COLUMN IF NOT EXISTS push_token TEXT,
+    ADD COLUMN IF NOT EXISTS push_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS push_next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD COLUMN IF NOT EXISTS push_error TEXT;
+
+ALTER TABLE public.notifications
+    DROP CONSTRAINT IF EXISTS notifications_push_status_check;
+ALTER TABLE public.notifications
+    ADD CONSTRAINT notifications_push_status_check
+    CHECK (push_status IN ('pending', 'sent', 'delivered', 'skipped', 'failed'));
+
+-- Rows from before the queue were handled (or dropped) by the old webhook,
+-- except pushes it held for quiet hours (00036), which are still to go out
+UPDATE public.notifications
+SET push_status = CASE
+        WHEN sent_at IS NOT NULL THEN 'delivered'
+        WHEN push_held_until IS NOT NULL THEN 'pending'
+        ELSE 'skipped'
+    END,
+    push_next_attempt_at = COALESCE(push_held_until, NOW());
+
+DROP INDEX IF EXISTS public.idx_notifications_push_held;
+ALTER TABLE public.notifications DROP COLUMN IF EXISTS push_held_until;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_push_due
+    ON public.notifications(push_next_attempt_at)
+    WHERE push_status IN ('pending', 'sent');
+
+-- ============================================================================
+-- Retry policy
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.push_max_attempts()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 5;
+$$;
+
+-- 1, 2, 4, 8 ... minutes, capped at an hour
+CREATE OR REPLACE FUNCTION public.push_retry_delay(attempts INTEGER)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT make_interval(mins => LEAST(60, power(2, GREATEST(attempts - 1, 0))::INTEGER));
+$$;
+
+-- Apply an Expo error to a notification: clear dead tokens, give up on
+-- permanent errors, otherwise schedule another attempt
+CREATE OR REPLACE FUNCTION public.handle_push_error(target_notification_id UUID, push_error_code TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    target RECORD;
+    retryable BOOLEAN := push_error_code IN ('MessageRateExceeded', 'RequestFailed', 'Unknown');
+BEGIN
+    SELECT id, recipient_id, push_token, push_attempts
+    INTO target
+    FROM public.notifications
+    WHERE id = target_notification_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF push_error_code = 'DeviceNotRegistered' AND target.push_token IS NOT NULL THEN
+        -- Only the token this push went to; the user may have registered a new one
+        UPDATE public.profiles
+        SET expo_push_token = NULL
+        WHERE id = target.recipient_id
+          AND expo_push_token = target.push_token;
+    END IF;
+
+    IF retryable AND target.push_attempts + 1 < public.push_max_attempts() THEN
+        UPDATE public.notifications
+        SET push_status = 'pending',
+            push_ticket_id = NULL,
+            sent_at = NULL,
+            push_attempts = target.push_attempts + 1,
+            push_next_attempt_at = NOW() + public.push_retry_delay(target.push_attempts + 1),
+            push_error = push_error_code
+        WHERE id = target.id;
+    ELSE
+        UPDATE public.notifications
+        SET push_status = 'failed',
+            push_attempts = target.push_attempts + 1,
+            push_error = push_error_code
+        WHERE id = target.id;
+    END IF;
+END;
+$$;
+
+-- ============================================================================
+-- Sending
+-- ============================================================================
+
+-- Settle due rows that won't be pushed and hold back the ones in quiet hours
+-- until the window ends, then lease up to batch_size of the rest for five
+-- minutes (SKIP LOCKED, so overlapping calls never double send).
+-- badge is the recipient's unread count, which also becomes badge_count.
+CREATE OR REPLACE FUNCTION public.claim_push_batch(batch_size INTEGER DEFAULT 100)
+RETURNS TABLE (
+    notification_id UUID,
+    push_token TEXT,
+    title TEXT,
+    body TEXT,
+    type TEXT,
+    video_id UUID,
+    sender_id UUID,
+    badge INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    UPDATE public.notifications n
+    SET push_status = 'skipped',
+        sent_at = NOW(),
+        push_error = s.reason
+    FROM (
+        SELECT
+            due.id,
+            CASE
+                WHEN due.created_at < NOW() - INTERVAL '1 day' THEN 'expired'
+                WHEN p.push_enabled IS FALSE OR p.expo_push_token IS NULL THEN 'push_disabled_or_no_token'
+            END AS reason
+        FROM public.notifications due
+        JOIN public.profiles p ON p.id = due.recipient_id
+        WHERE due.push_status = 'pending'
+          AND due.push_next_attempt_at <= NOW()
+        ORDER BY due.push_next_attempt_at
+        LIMIT 1000
+        FOR UPDATE OF due SKIP LOCKED
+    ) s
+    WHERE n.id = s.id
+      AND s.reason IS NOT NULL;
+
+    -- Quiet hours only delay the push; the row stays pending
+    UPDATE public.notifications n
+    SET push_next_attempt_at = s.quiet_until
+    FROM (
+        SELECT due.id, public.quiet_hours_end_at(due.recipient_id) AS quiet_until
+        FROM public.notifications due
+        WHERE due.push_status = 'pending'
+          AND due.push_next_attempt_at <= NOW()
+        ORDER BY due.push_next_attempt_at
+        LIMIT 1000
+        FOR UPDATE SKIP LOCKED
+    ) s
+    WHERE n.id = s.id
+      AND s.quiet_until IS NOT NULL;
+
+    RETURN QUERY
+    WITH claimed AS (
+        UPDATE public.notifications n
+        SET push_next_attempt_at = NOW() + INTERVAL '5 minutes',
+            push_token = p.expo_push_token
+        FROM (
+            SELECT due.id
+            FROM public.notifications due
+            WHERE due.push_status = 'pending'
+              AND due.push_next_attempt_at <= NOW()
+            ORDER BY due.push_next_attempt_at
+            LIMIT LEAST(GREATEST(COALESCE(batch_size, 100), 1), 100)
+            FOR UPDATE SKIP LOCKED
+        ) due
+        JOIN public.notifications src ON src.id = due.id
+        JOIN public.profiles p ON p.id = src.recipient_id
+        WHERE n.id = due.id
+        RETURNING n.id, n.recipient_id, n.push_token, n.title, n.body, n.type, n.video_id, n.sender_id
+    )
+    SELECT
+        c.id,
+        c.push_token,
+        c.title,
+        c.body,
+        c.type,
+        c.video_id,
+        c.sender_id,
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM public.notifications u
+            WHERE u.recipient_id = c.recipient_id
+              AND u.read_at IS NULL
+        )
+    FROM claimed c;
+END;
+$$;
+
+-- tickets: [{"id": <notification id>, "ticket_id": "..."} or
+--           {"id": <notification id>, "error": "DeviceNotRegistered"}]
+CREATE OR REPLACE FUNCTION public.record_push_tickets(tickets JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    ticket JSONB;
+BEGIN
+    FOR ticket IN SELECT * FROM jsonb_array_elements(tickets)
+    LOOP
+        IF ticket ? 'ticket_id' THEN
+            UPDATE public.notifications
+            SET push_status = 'sent',
+                push_ticket_id = ticket->>'ticket_id',
+                sent_at = NOW(),
+                push_error = NULL,
+                -- Expo suggests checking receipts after ~15 minutes
+                push_next_attempt_at = NOW() + INTERVAL '15 minutes'
+            WHERE id = (ticket->>'id')::UUID;
+        ELSE
+            PERFORM public.handle_push_error((ticket->>'id')::UUID, COALESCE(ticket->>'error', 'Unknown'));
+        END IF;
+    END LOOP;
+
+    -- Pushed badges show the unread count; keep the stored count in step
+    UPDATE public.profiles p
+    SET badge_count = (
+        SELECT COUNT(*)
+        FROM public.notifications u
+        WHERE u.recipient_id = p.id
+          AND u.read_at IS NULL
+    )
+    WHERE p.id IN (
+        SELECT n.recipient_id
+        FROM public.notifications n
+        WHERE n.id IN (
+            SELECT (t->>'id')::UUID
+            FROM jsonb_array_elements(tickets) t
+            WHERE t ? 'ticket_id'
+        )
+    );
+END;
+$$;
+
+-- ============================================================================
+-- Receipts
+-- ============================================================================
+
+-- Sent notifications whose receipt is due. Receipts are kept by Expo for a
+-- day; tickets older than that can't be checked any more.
+CREATE OR REPLACE FUNCTION public.claim_push_receipts(batch_size INTEGER DEFAULT 1000)
+RETURNS TABLE (
+    notification_id UUID,
+    ticket_id TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    UPDATE public.notifications
+    SET push_status = 'delivered',
+        push_error = 'receipt_unavailable'
+    WHERE push_status = 'sent'
+      AND sent_at < NOW() - INTERVAL '1 day';
+
+    RETURN QUERY
+    WITH due AS (
+        SELECT n.id
+        FROM public.notifications n
+        WHERE n.push_status = 'sent'
+          AND n.push_ticket_id IS NOT NULL
+          AND n.push_next_attempt_at <= NOW()
+        ORDER BY n.push_next_attempt_at
+        LIMIT LEAST(GREATEST(COALESCE(batch_size, 1000), 1), 1000)
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.notifications n
+    SET push_next_attempt_at = NOW() + INTERVAL '30 minutes'
+    FROM due
+    WHERE n.id = due.id
+    RETURNING n.id, n.push_ticket_id;
+END;
+$$;
+
+-- receipts: [{"id": <notification id>, "status": "ok"} or
+--            {"id": <notification id>, "status": "error", "error": "DeviceNotRegistered"}]
+-- Tickets Expo has no receipt for yet are simply left out and re-checked later.
+CREATE OR REPLACE FUNCTION public.record_push_receipts(receipts JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    receipt JSONB;
+BEGIN
+    FOR receipt IN SELECT * FROM jsonb_array_elements(receipts)
+    LOOP
+        IF receipt->>'status' = 'ok' THEN
+            UPDATE public.notifications
+            SET push_status = 'delivered'
+            WHERE id = (receipt->>'id')::UUID
+              AND push_status = 'sent';
+        ELSE
+            PERFORM public.handle_push_error((receipt->>'id')::UUID, COALESCE(receipt->>'error', 'Unknown'));
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.handle_push_error(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_push_batch(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_push_tickets(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_push_receipts(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_push_receipts(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_push_batch(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_push_tickets(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_push_receipts(INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_push_receipts(JSONB) TO service_role;
+
+COMMENT ON FUNCTION public.claim_push_batch(INTEGER) IS 'Leases up to 100 due push notifications for sending (service role)';
+COMMENT ON FUNCTION public.record_push_tickets(JSONB) IS 'Stores Expo push tickets or schedules retries (service role)';
+COMMENT ON FUNCTION public.claim_push_receipts(INTEGER) IS 'Leases sent notifications whose Expo receipt is due (service role)';
+COMMENT ON FUNCTION public.record_push_receipts(JSONB) IS 'Applies Expo push receipts: delivered, retry, or clear dead tokens (service role)';
@@ -0,0 +1,286 @@
+-- ============================================================================
+-- Notification Fan-out Jobs
+-- ============================================================================
+-- A new root video used to insert one new_review notification per follower
+-- inside the videos INSERT trigger. The trigger now only enqueues a job; the
+-- notification-fanout edge function works through followers in chunks with
+-- process_fanout_job. Each call handles one chunk in its own transaction and
+-- moves the job's cursor forward, so a crash resumes where it stopped.
+--
+-- notification_fanout_deliveries records every (video, recipient) pair that
+-- was handled, so re-running a chunk never notifies anyone twice. When a
+-- follower still has an unread new_review from the same creator within
+-- review_digest_window(), that notification becomes a digest ("x posted 3
+-- new reviews") instead of a second one being sent.
+--
+-- Tunable per database, e.g.
+--   ALTER DATABASE postgres SET app.review_digest_window_hours = '12';
+
+CREATE TABLE IF NOT EXISTS public.notification_fanout_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    video_id UUID NOT NULL UNIQUE REFERENCES public.videos(id) ON DELETE CASCADE,
+    creator_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'done', 'failed')),
+    -- Last follower_id handled; followers are walked in id order
+    cursor_follower_id UUID,
+    recipients_count INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_fanout_jobs_due
+    ON public.notification_fanout_jobs(next_attempt_at)
+    WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS public.notification_fanout_deliveries (
+    video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+    recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    PRIMARY KEY (video_id, recipient_id)
+);
+
+-- Internal bookkeeping: no client policies
+ALTER TABLE public.notification_fanout_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_fanout_deliveries ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.notification_fanout_jobs IS 'Pending follower fan-out for new root videos';
+COMMENT ON TABLE public.notification_fanout_deliveries IS 'Follower fan-out already done per (video, recipient)';
+
+-- How many new reviews a digest notification stands for
+ALTER TABLE public.notifications
+    ADD COLUMN IF NOT EXISTS digest_count INTEGER NOT NULL DEFAULT 1;
+
+-- Digest lookups: a recipient's unread new_review from one creator
+CREATE INDEX IF NOT EXISTS idx_notifications_unread_reviews
+    ON public.notifications(recipient_id, sender_id, created_at DESC)
+    WHERE type = 'new_review' AND read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.review_digest_window()
+RETURNS INTERVAL
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT make_interval(hours => LEAST(
+        168,
+        GREATEST(0, COALESCE(NULLIF(current_setting('app.review_digest_window_hours', true), '')::INTEGER, 6))
+    ));
+$$;
+
+COMMENT ON FUNCTION public.review_digest_window() IS 'How long an unread new_review absorbs later reviews from the same creator (app.review_digest_window_hours, default 6; 0 disables digests)';
+
+-- ============================================================================
+-- Notification trigger (00036): root videos enqueue a fan-out job
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.queue_video_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+    video_owner_id UUID;
+    sender_username TEXT;
+BEGIN
+    IF NEW.visibility <> 'public' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.parent_video_id IS NULL THEN
+        INSERT INTO notification_fanout_jobs (video_id, creator_id)
+        VALUES (NEW.id, NEW.user_id)
+        ON CONFLICT (video_id) DO NOTHING;
+    ELSE
+        SELECT username INTO sender_username FROM profiles WHERE id = NEW.user_id;
+        SELECT user_id INTO video_owner_id FROM videos WHERE id = NEW.parent_video_id;
+
+        IF video_owner_id IS NOT NULL
+           AND video_owner_id != NEW.user_id
+           AND NOT public.users_are_blocked(NEW.user_id, video_owner_id)
+           AND public.notification_allowed(
+               video_owner_id,
+               NEW.user_id,
+               CASE WHEN NEW.agree_disagree THEN 'response_agree' ELSE 'response_disagree' END
+           ) THEN
+            INSERT INTO notifications (recipient_id, sender_id, type, video_id, title, body)
+            VALUES (
+                video_owner_id,
+                NEW.user_id,
+                'response',
+                NEW.id,
+                CASE WHEN NEW.agree_disagree THEN 'Someone agreed!' ELSE 'Someone disagreed!' END,
+                sender_username || CASE WHEN NEW.agree_disagree THEN ' agreed with ' ELSE ' disagreed with ' END || 'your take'
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- Worker RPC
+-- ============================================================================
+
+-- Fans out the next chunk_size followers of the oldest due job. Returns NULL
+-- when nothing is due, otherwise
+-- {"job_id", "video_id", "processed", "notified", "digested", "done"}, or
+-- {"job_id", "video_id", "error"} when the chunk failed. A failed chunk is
+-- rolled back and retried with 1-60 min backoff, and the job is parked as
+-- failed after 5 attempts so it can't hold up the queue.
+CREATE OR REPLACE FUNCTION public.process_fanout_job(chunk_size INTEGER DEFAULT 500)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    job RECORD;
+    target_video RECORD;
+    sender_username TEXT;
+    chunk_limit INTEGER := LEAST(GREATEST(COALESCE(chunk_size, 500), 1), 2000);
+    follower_ids UUID[];
+    notified_count INTEGER := 0;
+    digested_count INTEGER := 0;
+    is_done BOOLEAN;
+    failure TEXT;
+BEGIN
+    SELECT *
+    INTO job
+    FROM public.notification_fanout_jobs
+    WHERE status = 'pending'
+      AND next_attempt_at <= NOW()
+    ORDER BY next_attempt_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    BEGIN
+        SELECT v.id, v.title, v.status, v.visibility
+        INTO target_video
+        FROM public.videos v
+        WHERE v.id = job.video_id;
+
+        -- Hidden before its followers were reached: nothing more to send
+        IF NOT FOUND OR target_video.status <> 'ready' OR target_video.visibility <> 'public' THEN
+            UPDATE public.notification_fanout_jobs
+            SET status = 'done', completed_at = NOW()
+            WHERE id = job.id;
+
+            RETURN jsonb_build_object(
+                'job_id', job.id, 'video_id', job.video_id,
+                'processed', 0, 'notified', 0, 'digested', 0, 'done', TRUE
+            );
+        END IF;
+
+        SELECT username INTO sender_username FROM public.profiles WHERE id = job.creator_id;
+
+        SELECT COALESCE(array_agg(f.follower_id ORDER BY f.follower_id), ARRAY[]::UUID[])
+        INTO follower_ids
+        FROM (
+            SELECT follower_id
+            FROM public.follows
+            WHERE following_id = job.creator_id
+              AND (job.cursor_follower_id IS NULL OR follower_id > job.cursor_follower_id)
+            ORDER BY follower_id
+            LIMIT chunk_limit
+        ) f;
+
+        is_done := cardinality(follower_ids) < chunk_limit;
+
+        -- Followers not handled on an earlier run who still want this
+        CREATE TEMP TABLE IF NOT EXISTS fanout_recipients (recipient_id UUID PRIMARY KEY) ON COMMIT DROP;
+        TRUNCATE fanout_recipients;
+
+        WITH recorded AS (
+            INSERT INTO public.notification_fanout_deliveries (video_id, recipient_id)
+            SELECT job.video_id, follower_id
+            FROM unnest(follower_ids) AS follower_id
+            WHERE NOT public.users_are_blocked(job.creator_id, follower_id)
+              AND public.notification_allowed(follower_id, job.creator_id, 'new_review')
+            ON CONFLICT DO NOTHING
+            RETURNING recipient_id
+        )
+        INSERT INTO fanout_recipients (recipient_id)
+        SELECT recipient_id FROM recorded;
+
+        -- Fold into the latest unread review notification from this creator.
+        -- push_status is left alone, so a digest is never queued for another
+        -- push and doesn't re-buzz.
+        WITH digest_targets AS (
+            SELECT DISTINCT ON (n.recipient_id) n.id
+            FROM public.notifications n
+            JOIN fanout_recipients r ON r.recipient_id = n.recipient_id
+            WHERE n.type = 'new_review'
+              AND n.sender_id = job.creator_id
+              AND n.read_at IS NULL
+              AND n.created_at > NOW() - public.review_digest_window()
+            ORDER BY n.recipient_id, n.created_at DESC
+        ),
+        digested AS (
+            UPDATE public.notifications n
+            SET digest_count = n.digest_count + 1,
+                video_id = job.video_id,
+                title = 'New Reviews',
+                body = sender_username || ' posted ' || (n.digest_count + 1) || ' new reviews, latest: ' || target_video.title,
+                created_at = NOW()
+            FROM digest_targets d
+            WHERE n.id = d.id
+            RETURNING n.recipient_id
+        )
+        DELETE FROM fanout_recipients r
+        USING digested d
+        WHERE r.recipient_id = d.recipient_id;
+
+        GET DIAGNOSTICS digested_count = ROW_COUNT;
+
+        INSERT INTO public.notifications (recipient_id, sender_id, type, video_id, title, body)
+        SELECT
+            r.recipient_id,
+            job.creator_id,
+            'new_review',
+            job.video_id,
+            'New Review',
+            sender_username || ' posted a new review: ' || target_video.title
+        FROM fanout_recipients r;
+
+        GET DIAGNOSTICS notified_count = ROW_COUNT;
+
+        UPDATE public.notification_fanout_jobs
+        SET cursor_follower_id = COALESCE(follower_ids[cardinality(follower_ids)], cursor_follower_id),
+            recipients_count = recipients_count + notified_count + digested_count,
+            status = CASE WHEN is_done THEN 'done' ELSE 'pending' END,
+            completed_at = CASE WHEN is_done THEN NOW() END,
+            error = NULL
+        WHERE id = job.id;
+
+        RETURN jsonb_build_object(
+            'job_id', job.id,
+            'video_id', job.video_id,
+            'processed', cardinality(follower_ids),
+            'notified', notified_count,
+            'digested', digested_count,
+            'done', is_done
+        );
+    EXCEPTION WHEN OTHERS THEN
+        failure := SQLERRM;
+    END;
+
+    UPDATE public.notification_fanout_jobs
+    SET attempts = attempts + 1,
+        error = failure,
+        status = CASE WHEN attempts + 1 >= 5 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = NOW() + make_interval(mins => LEAST(60, power(2, attempts)::INTEGER))
+    WHERE id = job.id;
+
+    RETURN jsonb_build_object('job_id', job.id, 'video_id', job.video_id, 'error', failure);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_fanout_job(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_fanout_job(INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.process_fanout_job(INTEGER) IS 'Fans out the next chunk of the oldest due follower notification job (service role)';
@@ -0,0 +1,234 @@
+-- ============================================================================
+-- Video Transcoding Pipeline
+-- ============================================================================
+-- Uploads arrive at original quality and stay 'processing' until the
+-- transcode function has re-encoded them to H.264 and probed the result:
+--
+--   processing -> waiting for a worker at processing_next_attempt_at
+--   ready      -> video_url points at the transcoded MP4; duration and
+--                 dimensions come from the probe, not the client
+--   failed     -> gave up after transcode_max_attempts() or the source was
+--                 unusable; processing_error says why
+--
+-- Clients can no longer move a video between these states. source_path is
+-- the original object in the videos bucket, derived from video_url when
+-- the client doesn't send it.
+
+ALTER TABLE public.videos
+    ADD COLUMN IF NOT EXISTS source_path TEXT,
+    ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS processing_next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD COLUMN IF NOT EXISTS processing_error TEXT,
+    ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_videos_processing_due
+    ON public.videos(processing_next_attempt_at)
+    WHERE status = 'processing';
+
+COMMENT ON COLUMN public.videos.source_path IS 'Original upload in the videos bucket, before transcoding';
+COMMENT ON COLUMN public.videos.processing_error IS 'Why transcoding failed, shown to the owner';
+
+-- ============================================================================
+-- Retry policy
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.transcode_max_attempts()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 3;
+$$;
+
+-- How long a claimed video is leased to one worker before another may retry it
+CREATE OR REPLACE FUNCTION public.transcode_lease()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT INTERVAL '15 minutes';
+$$;
+
+-- ============================================================================
+-- Client writes: uploads always start processing
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_video_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.source_path := COALESCE(
+            NEW.source_path,
+            substring(NEW.video_url FROM '/storage/v1/object/public/videos/([^?]+)')
+        );
+
+        IF NEW.source_path IS NULL OR split_part(NEW.source_path, '/', 1) <> NEW.user_id::TEXT THEN
+            RAISE EXCEPTION 'Videos must be uploaded to your own storage folder';
+        END IF;
+
+        NEW.status := 'processing';
+        NEW.published_at := NULL;
+        NEW.processing_attempts := 0;
+        NEW.processing_next_attempt_at := NOW();
+        NEW.processing_error := NULL;
+        NEW.processed_at := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND (OLD.status IN ('processing', 'failed') OR NEW.status IN ('processing', 'failed')) THEN
+        RAISE EXCEPTION 'Video processing status is set by the server';
+    END IF;
+
+    IF NEW.video_url IS DISTINCT FROM OLD.video_url
+       OR NEW.source_path IS DISTINCT FROM OLD.source_path
+       OR NEW.duration_seconds IS DISTINCT FROM OLD.duration_seconds
+       OR NEW.width IS DISTINCT FROM OLD.width
+       OR NEW.height IS DISTINCT FROM OLD.height THEN
+        RAISE EXCEPTION 'Video media cannot be changed after upload';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_video_processing_trigger ON public.videos;
+CREATE TRIGGER guard_video_processing_trigger
+    BEFORE INSERT OR UPDATE ON public.videos
+    FOR EACH ROW
+    EXECUTE FUNCTION public.guard_video_processing();
+
+-- Uploads reach followers when they become ready, not when they are inserted
+DROP TRIGGER IF EXISTS on_video_ready_queue_notifications ON public.videos;
+CREATE TRIGGER on_video_ready_queue_notifications
+    AFTER UPDATE OF status ON public.videos
+    FOR EACH ROW
+    WHEN (OLD.status = 'processing' AND NEW.status = 'ready')
+    EXECUTE FUNCTION public.queue_video_notifications();
+
+-- ============================================================================
+-- Worker RPCs
+-- ============================================================================
+
+-- Leases the oldest due upload to one worker. Each claim counts as an
+-- attempt, so a worker that dies mid-transcode still uses one up.
+CREATE OR REPLACE FUNCTION public.claim_transcode_job()
+RETURNS TABLE (
+    video_id UUID,
+    user_id UUID,
+    source_path TEXT,
+    attempt INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    -- Leases that ran out on the last attempt
+    UPDATE public.videos v
+    SET status = 'failed',
+        processing_error = COALESCE(v.processing_error, 'Processing timed out')
+    WHERE v.status = 'processing'
+      AND v.processing_attempts >= public.transcode_max_attempts()
+      AND v.processing_next_attempt_at <= NOW();
+
+    RETURN QUERY
+    WITH next_job AS (
+        SELECT v.id
+        FROM public.videos v
+        WHERE v.status = 'processing'
+          AND v.source_path IS NOT NULL
+          AND v.processing_next_attempt_at <= NOW()
+        ORDER BY v.processing_next_attempt_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.videos v
+    SET processing_attempts = v.processing_attempts + 1,
+        processing_next_attempt_at = NOW() + public.transcode_lease()
+    FROM next_job
+    WHERE v.id = next_job.id
+    RETURNING v.id, v.user_id, v.source_path, v.processing_attempts;
+END;
+$$;
+
+-- Points the video at its transcoded file and publishes it
+CREATE OR REPLACE FUNCTION public.complete_transcode(
+    target_video_id UUID,
+    output_url TEXT,
+    probed_duration_seconds INTEGER,
+    probed_width INTEGER,
+    probed_height INTEGER,
+    output_size_bytes BIGINT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    UPDATE public.videos
+    SET video_url = output_url,
+        duration_seconds = probed_duration_seconds,
+        width = NULLIF(probed_width, 0),
+        height = NULLIF(probed_height, 0),
+        file_size_bytes = output_size_bytes,
+        status = 'ready',
+        published_at = COALESCE(published_at, NOW()),
+        processed_at = NOW(),
+        processing_error = NULL
+    WHERE id = target_video_id
+      AND status = 'processing';
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Retryable failures go back in the queue with 1, 2, 4 ... minute backoff;
+-- anything else, or the last attempt, fails the video
+CREATE OR REPLACE FUNCTION public.fail_transcode(
+    target_video_id UUID,
+    error_message TEXT,
+    retryable BOOLEAN DEFAULT TRUE
+)
+RETURNS public.video_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    new_status public.video_status;
+BEGIN
+    UPDATE public.videos
+    SET status = CASE
+            WHEN retryable AND processing_attempts < public.transcode_max_attempts() THEN 'processing'
+            ELSE 'failed'
+        END::public.video_status,
+        processing_error = left(error_message, 500),
+        processing_next_attempt_at = NOW()
+            + make_interval(mins => power(2, GREATEST(processing_attempts - 1, 0))::INTEGER)
+    WHERE id = target_video_id
+      AND status = 'processing'
+    RETURNING status INTO new_status;
+
+    RETURN new_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_transcode_job() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_transcode(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_transcode_job() TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_transcode(UUID, TEXT, BOOLEAN) TO service_role;
+
+COMMENT ON FUNCTION public.claim_transcode_job() IS 'Leases the next processing video to a transcode worker (service role)';
+COMMENT ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT) IS 'Publishes a transcoded video with its probed metadata (service role)';
+COMMENT ON FUNCTION public.fail_transcode(UUID, TEXT, BOOLEAN) IS 'Schedules a retry or fails a video (service role)';
@@ -0,0 +1,196 @@
+-- ============================================================================
+-- HLS Playback Renditions
+-- ============================================================================
+-- Besides the progressive MP4, the transcoder now writes an HLS ladder
+-- (360p/540p/720p/1080p by short side, never above the source) to the
+-- video-streams bucket:
+--
+--   <user_id>/<video_id>/master.m3u8
+--   <user_id>/<video_id>/<rendition>/index.m3u8
+--   <user_id>/<video_id>/<rendition>/stream.ts   (byte-range segments)
+--
+-- playback_url points at the master playlist; players fall back to
+-- video_url when it is NULL (videos from before this, or a failed ladder).
+
+ALTER TABLE public.videos
+    ADD COLUMN IF NOT EXISTS playback_url TEXT;
+
+COMMENT ON COLUMN public.videos.playback_url IS 'HLS master playlist; NULL means progressive video_url only';
+
+-- ============================================================================
+-- Storage: written by the transcoder through signed upload URLs only
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'video-streams',
+    'video-streams',
+    true,  -- Public bucket for playback
+    104857600,  -- 100MB: one rendition's segments live in a single file
+    ARRAY['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'video/mp2t']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Video streams are publicly accessible" ON storage.objects;
+CREATE POLICY "Video streams are publicly accessible"
+    ON storage.objects
+    FOR SELECT
+    USING (bucket_id = 'video-streams');
+
+-- Lets the app clean up renditions when the owner deletes a video
+DROP POLICY IF EXISTS "Users can delete their own video streams" ON storage.objects;
+CREATE POLICY "Users can delete their own video streams"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+        bucket_id = 'video-streams' AND
+        (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+-- ============================================================================
+-- Client writes (00040): playback_url is set by the transcoder only
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.guard_video_processing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.source_path := COALESCE(
+            NEW.source_path,
+            substring(NEW.video_url FROM '/storage/v1/object/public/videos/([^?]+)')
+        );
+
+        IF NEW.source_path IS NULL OR split_part(NEW.source_path, '/', 1) <> NEW.user_id::TEXT THEN
+            RAISE EXCEPTION 'Videos must be uploaded to your own storage folder';
+        END IF;
+
+        NEW.status := 'processing';
+        NEW.published_at := NULL;
+        NEW.processing_attempts := 0;
+        NEW.processing_next_attempt_at := NOW();
+        NEW.processing_error := NULL;
+        NEW.processed_at := NULL;
+        NEW.playback_url := NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND (OLD.status IN ('processing', 'failed') OR NEW.status IN ('processing', 'failed')) THEN
+        RAISE EXCEPTION 'Video processing status is set by the server';
+    END IF;
+
+    IF NEW.video_url IS DISTINCT FROM OLD.video_url
+       OR NEW.playback_url IS DISTINCT FROM OLD.playback_url
+       OR NEW.source_path IS DISTINCT FROM OLD.source_path
+       OR NEW.duration_seconds IS DISTINCT FROM OLD.duration_seconds
+       OR NEW.width IS DISTINCT FROM OLD.width
+       OR NEW.height IS DISTINCT FROM OLD.height THEN
+        RAISE EXCEPTION 'Video media cannot be changed after upload';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Worker RPC (00040) with the playlist
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT);
+
+CREATE OR REPLACE FUNCTION public.complete_transcode(
+    target_video_id UUID,
+    output_url TEXT,
+    probed_duration_seconds INTEGER,
+    probed_width INTEGER,
+    probed_height INTEGER,
+    output_size_bytes BIGINT,
+    output_playback_url TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    UPDATE public.videos
+    SET video_url = output_url,
+        playback_url = output_playback_url,
+        duration_seconds = probed_duration_seconds,
+        width = NULLIF(probed_width, 0),
+        height = NULLIF(probed_height, 0),
+        file_size_bytes = output_size_bytes,
+        status = 'ready',
+        published_at = COALESCE(published_at, NOW()),
+        processed_at = NOW(),
+        processing_error = NULL
+    WHERE id = target_video_id
+      AND status = 'processing';
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) IS 'Publishes a transcoded video with its probed metadata and HLS playlist (service role)';
+
+-- ============================================================================
+-- Feed view: expose the playlist
+-- ============================================================================
+
+-- Same as 00034 plus playback_url; the block and ban filters must stay in place.
+DROP VIEW IF EXISTS feed_videos;
+
+CREATE VIEW feed_videos AS
+SELECT
+    v.id,
+    v.user_id,
+    v.parent_video_id,
+    v.root_video_id,
+    v.chain_depth,
+    v.agree_disagree,
+    v.title,
+    v.description,
+    v.video_url,
+    v.playback_url,
+    v.thumbnail_url,
+    v.duration_seconds,
+    v.views_count,
+    v.likes_count,
+    v.responses_count,
+    v.comments_count,
+    v.vote_agree_count,
+    v.vote_disagree_count,
+    v.rating,
+    v.movie_title,
+    v.tmdb_id,
+    v.tmdb_media_type,
+    v.tmdb_poster_path,
+    v.created_at,
+    v.published_at,
+    p.username,
+    p.display_name,
+    p.avatar_url
+FROM videos v
+JOIN profiles p ON v.user_id = p.id
+WHERE (
+      v.status = 'ready'::video_status
+      OR (v.status = 'under_review'::video_status AND auth.uid() = v.user_id)
+  )
+  AND v.visibility = 'public'::video_visibility
+  AND p.banned_at IS NULL
+  AND (
+      auth.uid() IS NULL
+      OR auth.uid() = v.user_id
+      OR NOT public.users_are_blocked(auth.uid(), v.user_id)
+  );
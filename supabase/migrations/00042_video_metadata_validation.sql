@@ -0,0 +1,242 @@
+-- ============================================================================
+-- Video Metadata Validation
+-- ============================================================================
+-- The app now probes videos on the device and refuses ones outside
+-- VIDEO_CONSTRAINTS (mobile/constants/config.ts) before uploading. The
+-- server checks the same limits twice:
+--
+--   upload   -> the declared duration, dimensions and size must be within
+--               bounds, and the size must match the object in storage
+--   publish  -> the transcoder's probe must be within bounds too, so a
+--               client that lied about its metadata ends up 'failed'
+--
+-- Keep the limits below in sync with VIDEO_CONSTRAINTS.
+
+CREATE OR REPLACE FUNCTION public.video_min_duration_seconds()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 3;
+$$;
+
+CREATE OR REPLACE FUNCTION public.video_max_duration_seconds()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 120;
+$$;
+
+-- Same as the videos bucket's file_size_limit (00003)
+CREATE OR REPLACE FUNCTION public.video_max_file_size_bytes()
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT 104857600::BIGINT;
+$$;
+
+-- Why a video's metadata is out of bounds, or NULL when it's fine. A NULL
+-- size is not checked (transcoded output is smaller than the upload).
+CREATE OR REPLACE FUNCTION public.video_metadata_problem(
+    check_duration_seconds INTEGER,
+    check_width INTEGER,
+    check_height INTEGER,
+    check_file_size_bytes BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+    IF check_duration_seconds IS NULL THEN
+        RETURN 'Video duration is missing';
+    END IF;
+
+    IF check_duration_seconds < public.video_min_duration_seconds() THEN
+        RETURN format('Video must be at least %s seconds long (got %s)',
+            public.video_min_duration_seconds(), check_duration_seconds);
+    END IF;
+
+    IF check_duration_seconds > public.video_max_duration_seconds() THEN
+        RETURN format('Video must be at most %s seconds long (got %s)',
+            public.video_max_duration_seconds(), check_duration_seconds);
+    END IF;
+
+    IF COALESCE(check_width, 0) <= 0 OR COALESCE(check_height, 0) <= 0 THEN
+        RETURN 'Video dimensions are missing';
+    END IF;
+
+    IF check_file_size_bytes IS NOT NULL
+       AND (check_file_size_bytes <= 0 OR check_file_size_bytes > public.video_max_file_size_bytes()) THEN
+        RETURN format('Video must be under %s MB', public.video_max_file_size_bytes() / 1048576);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- Video write validation (00029) with the metadata checks
+-- ============================================================================
+
+-- Runs after guard_video_processing, so client inserts are always
+-- 'processing' with source_path set by the time they get here.
+CREATE OR REPLACE FUNCTION public.validate_video_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    parent_record public.videos%ROWTYPE;
+    root_owner_id UUID;
+    problem TEXT;
+    stored_size BIGINT;
+BEGIN
+    IF TG_OP = 'INSERT' AND NEW.status = 'processing' THEN
+        problem := public.video_metadata_problem(
+            NEW.duration_seconds, NEW.width, NEW.height, NEW.file_size_bytes
+        );
+        IF problem IS NOT NULL THEN
+            RAISE EXCEPTION '%', problem;
+        END IF;
+
+        SELECT (o.metadata->>'size')::BIGINT
+        INTO stored_size
+        FROM storage.objects o
+        WHERE o.bucket_id = 'videos'
+          AND o.name = NEW.source_path;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Upload the video before creating its record';
+        END IF;
+
+        IF stored_size IS DISTINCT FROM NEW.file_size_bytes THEN
+            RAISE EXCEPTION 'Video file size does not match the upload';
+        END IF;
+    END IF;
+
+    -- complete_transcode fails these itself; this catches any other writer
+    IF TG_OP = 'UPDATE' AND OLD.status = 'processing' AND NEW.status = 'ready' THEN
+        problem := public.video_metadata_problem(NEW.duration_seconds, NEW.width, NEW.height, NULL);
+        IF problem IS NOT NULL THEN
+            RAISE EXCEPTION '%', problem;
+        END IF;
+    END IF;
+
+    IF NEW.parent_video_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        -- Moving a response would leave root_video_id/chain_depth of its subtree stale
+        IF NEW.parent_video_id IS DISTINCT FROM OLD.parent_video_id THEN
+            RAISE EXCEPTION 'Response target cannot be changed';
+        END IF;
+
+        -- The parent was checked when the response was posted. It may have
+        -- gone under review or been hidden since, which must not block
+        -- counter updates, comments or transcoding on its responses.
+        RETURN NEW;
+    END IF;
+
+    SELECT *
+    INTO parent_record
+    FROM public.videos
+    WHERE id = NEW.parent_video_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Parent video not found';
+    END IF;
+
+    -- Depth is only checked when posting so lowering the limit keeps old threads editable
+    IF parent_record.chain_depth + 1 > public.max_response_depth() THEN
+        RAISE EXCEPTION 'Response chain is too deep';
+    END IF;
+
+    IF parent_record.status <> 'ready' OR parent_record.visibility <> 'public' THEN
+        RAISE EXCEPTION 'Responses may only target public ready videos';
+    END IF;
+
+    IF public.users_are_blocked(NEW.user_id, parent_record.user_id) THEN
+        RAISE EXCEPTION 'Cannot interact with a blocked user';
+    END IF;
+
+    IF parent_record.root_video_id IS NOT NULL THEN
+        SELECT user_id INTO root_owner_id
+        FROM public.videos
+        WHERE id = parent_record.root_video_id;
+
+        IF root_owner_id IS NOT NULL AND public.users_are_blocked(NEW.user_id, root_owner_id) THEN
+            RAISE EXCEPTION 'Cannot interact with a blocked user';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- Worker RPC (00041): out-of-bounds probes fail the video
+-- ============================================================================
+
+-- Returns FALSE when the video wasn't published, either because it is no
+-- longer processing or because the probe was rejected (it's then 'failed'
+-- with the reason in processing_error).
+CREATE OR REPLACE FUNCTION public.complete_transcode(
+    target_video_id UUID,
+    output_url TEXT,
+    probed_duration_seconds INTEGER,
+    probed_width INTEGER,
+    probed_height INTEGER,
+    output_size_bytes BIGINT,
+    output_playback_url TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    problem TEXT;
+BEGIN
+    problem := public.video_metadata_problem(
+        probed_duration_seconds, probed_width, probed_height, NULL
+    );
+
+    IF problem IS NOT NULL THEN
+        UPDATE public.videos
+        SET status = 'failed',
+            processing_error = problem,
+            processed_at = NOW()
+        WHERE id = target_video_id
+          AND status = 'processing';
+
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.videos
+    SET video_url = output_url,
+        playback_url = output_playback_url,
+        duration_seconds = probed_duration_seconds,
+        width = probed_width,
+        height = probed_height,
+        file_size_bytes = output_size_bytes,
+        status = 'ready',
+        published_at = COALESCE(published_at, NOW()),
+        processed_at = NOW(),
+        processing_error = NULL
+    WHERE id = target_video_id
+      AND status = 'processing';
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.complete_transcode(UUID, TEXT, INTEGER, INTEGER, INTEGER, BIGINT, TEXT) IS 'Publishes a transcoded video, or fails it when the probe is out of bounds (service role)';
+COMMENT ON FUNCTION public.video_metadata_problem(INTEGER, INTEGER, INTEGER, BIGINT) IS 'Why video metadata is outside the upload limits, or NULL';
@@ -0,0 +1,193 @@
+-- ============================================================================
+-- Automatic review for heavily reported videos (00033)
+-- ============================================================================
+-- Run against the local stack with `supabase test db`. Everything happens
+-- in one transaction that is rolled back, so NOW() is the same throughout.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(12);
+
+-- Users: the owner, five reporters and a moderator (profiles come from
+-- the on_auth_user_created trigger)
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-0000-0000-0000-000000000000', 'owner@example.com'),
+    ('22222222-0000-0000-0000-000000000001', 'reporter1@example.com'),
+    ('22222222-0000-0000-0000-000000000002', 'reporter2@example.com'),
+    ('22222222-0000-0000-0000-000000000003', 'reporter3@example.com'),
+    ('22222222-0000-0000-0000-000000000004', 'reporter4@example.com'),
+    ('22222222-0000-0000-0000-000000000005', 'reporter5@example.com'),
+    ('33333333-0000-0000-0000-000000000000', 'moderator@example.com');
+
+INSERT INTO public.videos (id, user_id, title, video_url, status, visibility)
+VALUES (
+    'aaaaaaaa-0000-0000-0000-000000000000',
+    '11111111-0000-0000-0000-000000000000',
+    'Reported take',
+    'https://example.com/video.mp4',
+    'ready',
+    'public'
+);
+
+-- A report from before the window must not count towards the threshold
+INSERT INTO public.reports (reporter_id, reported_video_id, reason, created_at)
+VALUES (
+    '22222222-0000-0000-0000-000000000005',
+    'aaaaaaaa-0000-0000-0000-000000000000',
+    'spam',
+    NOW() - public.report_review_window() - INTERVAL '1 hour'
+);
+
+-- Act as a signed-in user for the following statements
+CREATE FUNCTION pg_temp.act_as(user_id UUID, claims JSONB DEFAULT '{}')
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM set_config('request.jwt.claim.sub', user_id::TEXT, true);
+    PERFORM set_config('request.jwt.claims', (claims || jsonb_build_object('sub', user_id, 'role', 'authenticated'))::TEXT, true);
+    EXECUTE 'SET LOCAL ROLE authenticated';
+END;
+$$;
+
+CREATE FUNCTION pg_temp.report_as(user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM pg_temp.act_as(user_id);
+    INSERT INTO public.reports (reporter_id, reported_video_id, reason)
+    VALUES (user_id, 'aaaaaaaa-0000-0000-0000-000000000000', 'spam');
+    RESET ROLE;
+END;
+$$;
+
+CREATE FUNCTION pg_temp.video_status()
+RETURNS TEXT
+LANGUAGE sql
+AS $$
+    SELECT status::TEXT FROM public.videos WHERE id = 'aaaaaaaa-0000-0000-0000-000000000000';
+$$;
+
+CREATE FUNCTION pg_temp.feed_count_as(user_id UUID)
+RETURNS BIGINT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    visible BIGINT;
+BEGIN
+    PERFORM pg_temp.act_as(user_id);
+    SELECT COUNT(*) INTO visible
+    FROM public.feed_videos
+    WHERE id = 'aaaaaaaa-0000-0000-0000-000000000000';
+    RESET ROLE;
+    RETURN visible;
+END;
+$$;
+
+-- ============================================================================
+-- Unique reporters within the window
+-- ============================================================================
+
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000001');
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000001');
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000001');
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000002');
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000003');
+-- The owner reporting their own video doesn't count either
+SELECT pg_temp.report_as('11111111-0000-0000-0000-000000000000');
+
+SELECT is(pg_temp.video_status(), 'ready', 'repeat reports from one user count once');
+
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000004');
+
+SELECT is(
+    pg_temp.video_status(), 'ready',
+    'four reporters in the window stay below the threshold despite an older report'
+);
+
+-- ============================================================================
+-- Threshold flips the video to under_review
+-- ============================================================================
+
+SELECT pg_temp.report_as('22222222-0000-0000-0000-000000000005');
+
+SELECT is(pg_temp.video_status(), 'under_review', 'the fifth distinct reporter puts the video under review');
+
+SELECT is(
+    (SELECT COUNT(*) FROM public.moderation_actions
+     WHERE action = 'auto_review' AND target_video_id = 'aaaaaaaa-0000-0000-0000-000000000000'),
+    1::BIGINT,
+    'the flip is logged once as auto_review'
+);
+
+SELECT is(
+    (SELECT (details->>'reporters')::INTEGER FROM public.moderation_actions
+     WHERE action = 'auto_review' AND target_video_id = 'aaaaaaaa-0000-0000-0000-000000000000'),
+    5,
+    'the log records the distinct reporter count'
+);
+
+-- ============================================================================
+-- Owner-only visibility in feed_videos
+-- ============================================================================
+
+SELECT is(
+    pg_temp.feed_count_as('11111111-0000-0000-0000-000000000000'), 1::BIGINT,
+    'the owner still sees the video under review'
+);
+
+SELECT is(
+    pg_temp.feed_count_as('22222222-0000-0000-0000-000000000001'), 0::BIGINT,
+    'other users no longer see it'
+);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claim.sub', '', true);
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+SELECT is(
+    (SELECT COUNT(*) FROM public.feed_videos WHERE id = 'aaaaaaaa-0000-0000-0000-000000000000'),
+    0::BIGINT,
+    'signed-out viewers no longer see it'
+);
+RESET ROLE;
+
+SELECT pg_temp.act_as('11111111-0000-0000-0000-000000000000');
+SELECT throws_ok(
+    $$UPDATE public.videos SET status = 'ready' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000000'$$,
+    'Removed videos cannot be restored',
+    'the owner cannot lift the review'
+);
+RESET ROLE;
+
+-- ============================================================================
+-- A moderator restores it with resolve_report
+-- ============================================================================
+
+SELECT pg_temp.act_as(
+    '33333333-0000-0000-0000-000000000000',
+    '{"app_metadata": {"role": "moderator"}}'
+);
+SELECT lives_ok(
+    $$SELECT public.resolve_report(
+        (SELECT id FROM public.reports
+         WHERE reported_video_id = 'aaaaaaaa-0000-0000-0000-000000000000' AND status = 'pending'
+         ORDER BY created_at LIMIT 1),
+        'reject'
+    )$$,
+    'the moderator rejects the reports'
+);
+RESET ROLE;
+
+SELECT is(pg_temp.video_status(), 'ready', 'rejecting the reports restores the video');
+
+SELECT is(
+    pg_temp.feed_count_as('22222222-0000-0000-0000-000000000001'), 1::BIGINT,
+    'the restored video is back in other users'' feeds'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
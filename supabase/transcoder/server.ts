@@ -0,0 +1,310 @@
+// ============================================================================
+// FFmpeg Transcoder
+// Local stand-in for a hosted transcoding service; the edge runtime can't run
+// FFmpeg, so the transcode function hands each upload to this server.
+//
+//   POST /transcode  (Authorization: Bearer $TRANSCODER_SECRET)
+//   {
+//     input_url,      signed download URL of the original upload
+//     upload_url,     signed upload URL for the H.264 output
+//     video_bitrate,  e.g. "2M"
+//     audio_bitrate,  e.g. "128k"
+//     max_width, max_height,
+//     hls: {          optional adaptive ladder
+//       master_upload_url,
+//       renditions: [{ name, short_side, video_bitrate,
+//                      playlist_upload_url, segments_upload_url }]
+//     }
+//   }
+//
+// Downloads the source, re-encodes it to H.264/AAC MP4 (scaled down to fit
+// max_width x max_height, rotation applied), uploads the result and returns
+// the probed { duration_seconds, width, height, file_size_bytes }.
+// A source ffprobe can't read, or one without a video stream, is a 422 so
+// the worker doesn't retry it. Anything failing later, encoding included,
+// is a 500 and gets retried.
+//
+// With hls, it also encodes every rendition no larger than the source (at
+// least the smallest) as a VOD playlist whose segments share one byte-range
+// file, uploads them plus a master playlist, and lists the renditions
+// written in hls_renditions. An HLS failure doesn't fail the MP4; it comes
+// back as hls_error and the video plays progressively.
+// ============================================================================
+
+const PORT = Number(Deno.env.get("TRANSCODER_PORT") ?? 4020);
+
+interface HlsRendition {
+  name: string;
+  short_side: number;
+  video_bitrate: string;
+  playlist_upload_url: string;
+  segments_upload_url: string;
+}
+
+interface TranscodeRequest {
+  input_url: string;
+  upload_url: string;
+  video_bitrate: string;
+  audio_bitrate: string;
+  max_width: number;
+  max_height: number;
+  hls?: {
+    master_upload_url: string;
+    renditions: HlsRendition[];
+  };
+}
+
+interface ProbeStream {
+  codec_type: "video" | "audio" | string;
+  width?: number;
+  height?: number;
+}
+
+interface ProbeResult {
+  streams?: ProbeStream[];
+  format?: { duration?: string; size?: string };
+}
+
+// The source is unusable; retrying won't help
+class InvalidSourceError extends Error {}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function run(command: string, args: string[]): Promise<string> {
+  const { code, stdout, stderr } = await new Deno.Command(command, {
+    args,
+    stdout: "piped",
+    stderr: "piped",
+  }).output();
+
+  if (code !== 0) {
+    // Last lines of FFmpeg's log carry the actual error
+    const log = new TextDecoder().decode(stderr).trim().split("\n").slice(-3).join(" ");
+    throw new Error(`${command} exited with ${code}: ${log}`);
+  }
+  return new TextDecoder().decode(stdout);
+}
+
+async function upload(url: string, body: Uint8Array, contentType: string): Promise<void> {
+  const response = await fetch(url, {
+    method: "PUT",
+    headers: { "Content-Type": contentType },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Upload failed with ${response.status}: ${await response.text()}`);
+  }
+}
+
+// "600k" / "2M" -> bits per second, for the master playlist's BANDWIDTH
+function bitsPerSecond(bitrate: string): number {
+  const value = parseFloat(bitrate);
+  const unit = bitrate.trim().slice(-1).toLowerCase();
+  return Math.round(value * (unit === "m" ? 1_000_000 : unit === "k" ? 1_000 : 1));
+}
+
+async function probe(path: string): Promise<ProbeResult> {
+  const output = await run("ffprobe", [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_streams",
+    "-show_format",
+    path,
+  ]);
+  return JSON.parse(output) as ProbeResult;
+}
+
+// Encodes the ladder in one FFmpeg pass (one decode, one encode per
+// rendition), uploads each playlist and segment file, then the master
+async function packageHls(
+  inputPath: string,
+  workDir: string,
+  hls: NonNullable<TranscodeRequest["hls"]>,
+  sourceShortSide: number,
+  hasAudio: boolean,
+  audioBitrate: string
+): Promise<string[]> {
+  const ladder = [...hls.renditions].sort((a, b) => a.short_side - b.short_side);
+  // Never upscale, but always keep the smallest rendition
+  const renditions = ladder.filter(
+    (rendition, index) => index === 0 || rendition.short_side <= sourceShortSide
+  );
+
+  const args = ["-y", "-i", inputPath];
+  for (const rendition of renditions) {
+    const dir = `${workDir}/hls/${rendition.name}`;
+    await Deno.mkdir(dir, { recursive: true });
+
+    const side = rendition.short_side;
+    args.push(
+      "-map", "0:v:0",
+      ...(hasAudio ? ["-map", "0:a:0"] : []),
+      "-vf", `scale=w='if(gte(iw,ih),-2,${side})':h='if(gte(iw,ih),${side},-2)'`,
+      "-c:v", "libx264",
+      "-preset", "veryfast",
+      "-profile:v", "main",
+      "-pix_fmt", "yuv420p",
+      "-b:v", rendition.video_bitrate,
+      "-maxrate", rendition.video_bitrate,
+      "-bufsize", rendition.video_bitrate,
+      // Keyframes on segment boundaries so every rendition switches cleanly
+      "-force_key_frames", "expr:gte(t,n_forced*4)",
+      "-sc_threshold", "0",
+      ...(hasAudio ? ["-c:a", "aac", "-b:a", audioBitrate] : ["-an"]),
+      "-f", "hls",
+      "-hls_time", "4",
+      "-hls_playlist_type", "vod",
+      "-hls_flags", "single_file",
+      "-hls_segment_filename", `${dir}/stream.ts`,
+      `${dir}/index.m3u8`,
+    );
+  }
+  await run("ffmpeg", args);
+
+  const master = ["#EXTM3U", "#EXT-X-VERSION:4"];
+  for (const rendition of renditions) {
+    const dir = `${workDir}/hls/${rendition.name}`;
+    const segments = await probe(`${dir}/stream.ts`);
+    const video = segments.streams?.find((stream) => stream.codec_type === "video");
+    const bandwidth =
+      bitsPerSecond(rendition.video_bitrate) + (hasAudio ? bitsPerSecond(audioBitrate) : 0);
+
+    await upload(rendition.segments_upload_url, await Deno.readFile(`${dir}/stream.ts`), "video/mp2t");
+    await upload(
+      rendition.playlist_upload_url,
+      await Deno.readFile(`${dir}/index.m3u8`),
+      "application/vnd.apple.mpegurl"
+    );
+
+    master.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${video?.width ?? 0}x${video?.height ?? 0}`,
+      `${rendition.name}/index.m3u8`
+    );
+  }
+
+  await upload(
+    hls.master_upload_url,
+    new TextEncoder().encode(master.join("\n") + "\n"),
+    "application/vnd.apple.mpegurl"
+  );
+
+  return renditions.map((rendition) => rendition.name);
+}
+
+async function transcode(request: TranscodeRequest) {
+  const workDir = await Deno.makeTempDir({ prefix: "transcode_" });
+  const inputPath = `${workDir}/input`;
+  const outputPath = `${workDir}/output.mp4`;
+
+  try {
+    const download = await fetch(request.input_url);
+    if (!download.ok || !download.body) {
+      throw new Error(`Source download failed with ${download.status}`);
+    }
+    await Deno.writeFile(inputPath, download.body);
+
+    let source: ProbeResult;
+    try {
+      source = await probe(inputPath);
+    } catch (error) {
+      throw new InvalidSourceError(String(error));
+    }
+    const sourceVideo = source.streams?.find((stream) => stream.codec_type === "video");
+    if (!sourceVideo) {
+      throw new InvalidSourceError("Upload has no video stream");
+    }
+    const hasAudio = source.streams?.some((stream) => stream.codec_type === "audio") ?? false;
+
+    // Fit inside the box without upscaling; H.264 needs even dimensions
+    const scale =
+      `scale=w='min(${request.max_width},iw)':h='min(${request.max_height},ih)'` +
+      ":force_original_aspect_ratio=decrease:force_divisible_by=2";
+
+    await run("ffmpeg", [
+      "-y",
+      "-i", inputPath,
+      "-map", "0:v:0",
+      ...(hasAudio ? ["-map", "0:a:0"] : []),
+      "-vf", scale,
+      "-c:v", "libx264",
+      "-preset", "veryfast",
+      "-profile:v", "high",
+      "-pix_fmt", "yuv420p",
+      "-b:v", request.video_bitrate,
+      "-maxrate", request.video_bitrate,
+      "-bufsize", request.video_bitrate,
+      ...(hasAudio ? ["-c:a", "aac", "-b:a", request.audio_bitrate] : ["-an"]),
+      "-movflags", "+faststart",
+      outputPath,
+    ]);
+
+    const output = await probe(outputPath);
+    const outputVideo = output.streams?.find((stream) => stream.codec_type === "video");
+    const file = await Deno.readFile(outputPath);
+
+    await upload(request.upload_url, file, "video/mp4");
+
+    let hlsRenditions: string[] = [];
+    let hlsError: string | undefined;
+    if (request.hls) {
+      try {
+        const sourceShortSide = Math.min(sourceVideo.width ?? 0, sourceVideo.height ?? 0);
+        hlsRenditions = await packageHls(
+          inputPath,
+          workDir,
+          request.hls,
+          sourceShortSide,
+          hasAudio,
+          request.audio_bitrate
+        );
+      } catch (error) {
+        hlsError = String(error);
+      }
+    }
+
+    return {
+      duration_seconds: Math.round(Number(output.format?.duration ?? 0)),
+      width: outputVideo?.width ?? 0,
+      height: outputVideo?.height ?? 0,
+      file_size_bytes: file.byteLength,
+      hls_renditions: hlsRenditions,
+      ...(hlsError ? { hls_error: hlsError } : {}),
+    };
+  } finally {
+    await Deno.remove(workDir, { recursive: true }).catch(() => {});
+  }
+}
+
+Deno.serve({ port: PORT }, async (req) => {
+  const url = new URL(req.url);
+  if (req.method !== "POST" || url.pathname !== "/transcode") {
+    return json({ error: "Not found" }, 404);
+  }
+
+  const secret = Deno.env.get("TRANSCODER_SECRET");
+  if (secret && req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  let request: TranscodeRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return json({ error: "Invalid JSON body" }, 400);
+  }
+  if (!request.input_url || !request.upload_url) {
+    return json({ error: "input_url and upload_url are required" }, 400);
+  }
+
+  try {
+    return json(await transcode(request));
+  } catch (error) {
+    const status = error instanceof InvalidSourceError ? 422 : 500;
+    return json({ error: "Transcode failed", details: String(error) }, status);
+  }
+});
@@ -116,6 +116,7 @@ export interface Database {
           views_count: number;
           likes_count: number;
           responses_count: number;
+          comments_count: number;
           created_at: string;
           updated_at: string;
           published_at: string | null;
@@ -144,6 +145,7 @@ export interface Database {
           views_count?: number;
           likes_count?: number;
           responses_count?: number;
+          comments_count?: number;
           created_at?: string;
           updated_at?: string;
           published_at?: string | null;
@@ -172,6 +174,7 @@ export interface Database {
           views_count?: number;
           likes_count?: number;
           responses_count?: number;
+          comments_count?: number;
           created_at?: string;
           updated_at?: string;
           published_at?: string | null;
@@ -269,6 +272,144 @@ export interface Database {
           }
         ];
       };
+      bookmarks: {
+        Row: {
+          id: string;
+          user_id: string;
+          video_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          video_id: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          video_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'bookmarks_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'bookmarks_video_id_fkey';
+            columns: ['video_id'];
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      video_views: {
+        Row: {
+          id: string;
+          video_id: string;
+          user_id: string;
+          device_id: string;
+          view_date: string;
+          watch_seconds: number;
+          max_position_seconds: number;
+          completed: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          video_id: string;
+          user_id: string;
+          device_id: string;
+          view_date?: string;
+          watch_seconds?: number;
+          max_position_seconds?: number;
+          completed?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          video_id?: string;
+          user_id?: string;
+          device_id?: string;
+          view_date?: string;
+          watch_seconds?: number;
+          max_position_seconds?: number;
+          completed?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'video_views_video_id_fkey';
+            columns: ['video_id'];
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'video_views_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      comments: {
+        Row: {
+          id: string;
+          video_id: string;
+          user_id: string;
+          parent_comment_id: string | null;
+          body: string;
+          agree_disagree: boolean | null;
+          replies_count: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          video_id: string;
+          user_id: string;
+          parent_comment_id?: string | null;
+          body: string;
+          agree_disagree?: boolean | null;
+          replies_count?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          video_id?: string;
+          user_id?: string;
+          parent_comment_id?: string | null;
+          body?: string;
+          agree_disagree?: boolean | null;
+          replies_count?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_video_id_fkey';
+            columns: ['video_id'];
+            referencedRelation: 'videos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_user_id_fkey';
+            columns: ['user_id'];
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_comment_id_fkey';
+            columns: ['parent_comment_id'];
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       notifications: {
         Row: {
           id: string;
@@ -344,6 +485,7 @@ export interface Database {
           views_count: number | null;
           likes_count: number | null;
           responses_count: number | null;
+          comments_count: number | null;
           vote_agree_count: number | null;
           vote_disagree_count: number | null;
           rating: VideoRating | null;
@@ -419,6 +561,37 @@ export interface Database {
         };
         Returns: boolean;
       };
+      get_for_you_feed: {
+        Args: {
+          page_cursor?: string | null;
+          limit_count?: number;
+        };
+        Returns: Json;
+      };
+      get_following_feed: {
+        Args: {
+          page_cursor?: string | null;
+          limit_count?: number;
+        };
+        Returns: Json;
+      };
+      record_video_views: {
+        Args: {
+          views: Json;
+          device_id: string;
+        };
+        Returns: number;
+      };
+      get_video_insights: {
+        Args: {
+          target_video_id: string;
+        };
+        Returns: Json;
+      };
+      max_response_depth: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
     };
     Enums: {
       video_status: VideoStatus;
@@ -445,6 +618,12 @@ export type LikeInsert = Database['public']['Tables']['likes']['Insert'];
 export type Follow = Database['public']['Tables']['follows']['Row'];
 export type FollowInsert = Database['public']['Tables']['follows']['Insert'];
 
+export type Bookmark = Database['public']['Tables']['bookmarks']['Row'];
+export type BookmarkInsert = Database['public']['Tables']['bookmarks']['Insert'];
+
+export type Comment = Database['public']['Tables']['comments']['Row'];
+export type CommentInsert = Database['public']['Tables']['comments']['Insert'];
+
 export type Notification = Database['public']['Tables']['notifications']['Row'];
 export type NotificationInsert = Database['public']['Tables']['notifications']['Insert'];
 